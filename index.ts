@@ -25,6 +25,15 @@ import creators from './src/routes/creators';
 import chat from './src/routes/chat';
 import rag from './src/routes/rag';
 import process from './src/routes/process';
+import webhooks from './src/routes/webhooks';
+
+// Import background workers
+import { startProcessingWorker } from './src/lib/processing-worker';
+import { scheduleChannelSync, startChannelSyncWorker } from './src/lib/channel-sync';
+import { scheduleWebSubRenewal, startWebSubRenewalWorker } from './src/lib/websub';
+import { startNamespaceMigrationWorker } from './src/lib/namespace-migration';
+import { startReembedWorker } from './src/lib/reembed';
+import { startVectorConsistencyWorker } from './src/lib/vector-consistency';
 
 // Initialize Hono app
 const app = new Hono();
@@ -46,6 +55,7 @@ app.route('/api/creators', creators);
 app.route('/api/chat', chat);
 app.route('/api/rag', rag);
 app.route('/api/process', process);
+app.route('/api/webhooks', webhooks);
 
 // Root endpoint
 app.get('/', (c) => {
@@ -60,7 +70,8 @@ app.get('/', (c) => {
       creators: '/api/creators',
       chat: '/api/chat',
       rag: '/api/rag',
-      process: '/api/process'
+      process: '/api/process',
+      webhooks: '/api/webhooks'
     },
     powered_by: 'Hono + Bun 🚀'
   });
@@ -86,6 +97,24 @@ app.onError((err, c) => {
   }, 500);
 });
 
+// Run the processing worker in-process unless a dedicated worker.ts deployment handles it
+if (env.PROCESSING_WORKER_ENABLED === 'true') {
+  startProcessingWorker(parseInt(env.PROCESSING_WORKER_CONCURRENCY));
+  startChannelSyncWorker();
+  startWebSubRenewalWorker();
+  startNamespaceMigrationWorker();
+  startReembedWorker();
+  startVectorConsistencyWorker();
+}
+
+scheduleChannelSync().catch((error) => {
+  structuredLogger.error({ error }, 'Failed to schedule channel sync');
+});
+
+scheduleWebSubRenewal().catch((error) => {
+  structuredLogger.error({ error }, 'Failed to schedule WebSub renewal');
+});
+
 // Start server
 const port = parseInt(env.API_PORT);
 
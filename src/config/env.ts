@@ -13,21 +13,57 @@ const envSchema = z.object({
   REDISPORT: z.string().optional(),
   REDISPASSWORD: z.string().optional(),
   REDISUSER: z.string().optional(),
+
+  // Processing worker (set PROCESSING_WORKER_ENABLED=false when running worker.ts separately)
+  PROCESSING_WORKER_ENABLED: z.enum(['true', 'false']).default('true'),
+  PROCESSING_WORKER_CONCURRENCY: z.string().default('1'),
+  // Videos processed at the same time within one job
+  PROCESSING_VIDEO_CONCURRENCY: z.string().default('3'),
+
+  // Scheduled sync of new uploads for completed creators (runs wherever the processing worker runs)
+  CHANNEL_SYNC_ENABLED: z.enum(['true', 'false']).default('false'),
+  CHANNEL_SYNC_INTERVAL_HOURS: z.string().default('24'),
+  CHANNEL_SYNC_MAX_VIDEOS: z.string().default('20'),
+
+  // YouTube WebSub push notifications (subscriptions are only requested when a public callback URL is set;
+  // notifications are only accepted when signed with the secret, which the callback URL requires)
+  WEBSUB_CALLBACK_URL: z.string().url().optional(),
+  WEBSUB_SECRET: z.string().min(1).optional(),
+  WEBSUB_HUB_URL: z.string().url().default('https://pubsubhubbub.appspot.com/subscribe'),
   
   // AI Services (optional for development)
   OPENAI_API_KEY: z.string().optional(),
+  // Embedding provider; model and dimensions default to the provider's (openai: text-embedding-3-large, 3072)
+  EMBEDDING_PROVIDER: z.enum(['openai', 'google', 'hash']).default('openai'),
+  EMBEDDING_MODEL: z.string().optional(),
+  EMBEDDING_DIMENSIONS: z.string().regex(/^\d+$/).optional(),
+  // Embedding requests: inputs per request and requests in flight per process
+  EMBEDDING_BATCH_SIZE: z.string().default('100'),
+  EMBEDDING_MAX_CONCURRENCY: z.string().default('4'),
+  // Content-addressed embedding cache (MongoDB); query entries expire after hours, chunk entries after days
+  EMBEDDING_CACHE_ENABLED: z.enum(['true', 'false']).default('true'),
+  EMBEDDING_QUERY_CACHE_TTL_HOURS: z.string().default('24'),
+  EMBEDDING_DOCUMENT_CACHE_TTL_DAYS: z.string().default('30'),
   GOOGLE_API_KEY: z.string().optional(),
   
   // Vector Database (optional for development)
+  // Vector store: pinecone, or memory for local development (process-local, not persisted)
+  VECTOR_STORE: z.enum(['pinecone', 'memory']).default('pinecone'),
   PINECONE_API_KEY: z.string().optional(),
   PINECONE_INDEX_NAME: z.string().default('creator-transcripts-v2'),
   
   // YouTube API (optional for development)
   YOUTUBE_API_KEY: z.string().optional(),
+
+  // Transcript sources tried in order: upload, archive, youtubei, youtube-data-api
+  TRANSCRIPT_PROVIDERS: z.string().default('upload,youtubei'),
   
   // Security
   BETTER_AUTH_SECRET: z.string().optional(),
   TRUSTED_ORIGINS: z.string().default('http://localhost:3000'),
+}).refine(env => !env.WEBSUB_CALLBACK_URL || env.WEBSUB_SECRET, {
+  message: 'WEBSUB_SECRET is required when WEBSUB_CALLBACK_URL is set',
+  path: ['WEBSUB_SECRET']
 });
 
 export const env = envSchema.parse(process.env);
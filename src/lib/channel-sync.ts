@@ -0,0 +1,312 @@
+import { Queue, Worker } from 'bullmq';
+import { randomUUID } from 'crypto';
+import type { Creator, ChannelAIProcessing, VideoSource } from '../types';
+import { structuredLogger } from '../middleware/logger';
+import { env } from '../config/env';
+import { connectToDatabase, connectToOrgsDatabase, connectToPrismaDatabase } from './mongodb';
+import { getIndexedVideoVersions } from './rag';
+import { jobStore, type ProcessingJob, type ProcessingMode } from './job-store';
+import { redisConfig } from './redis';
+import { BULLMQ_PREFIX, enqueueProcessingJob } from './processing-queue';
+import { resolveVideoSource, formatVideoSource, UPLOADS_SOURCE } from './video-source';
+import {
+  meetsCaptionRequirement,
+  parseTeamEligibilityOverrides,
+  resolveEligibilityPolicy,
+  type EligibilityPolicy
+} from './eligibility';
+
+export const CHANNEL_SYNC_QUEUE_NAME = 'channel-sync';
+
+const SYNC_SCHEDULER_ID = 'channel-sync-all-creators';
+
+export const channelSyncQueue = new Queue(CHANNEL_SYNC_QUEUE_NAME, {
+  connection: redisConfig,
+  prefix: BULLMQ_PREFIX,
+  defaultJobOptions: {
+    removeOnComplete: { count: 50 },
+    removeOnFail: { count: 50 }
+  }
+});
+
+channelSyncQueue.on('error', (err) => {
+  structuredLogger.error({ error: err }, 'Channel sync queue error');
+});
+
+export class ChannelBusyError extends Error {
+  constructor(readonly existingJobId: string | null) {
+    super('This creator is already being processed. Please wait for the current job to complete.');
+    this.name = 'ChannelBusyError';
+  }
+}
+
+type SyncOutcome = 'enqueued' | 'up_to_date' | 'skipped' | 'failed';
+
+interface SyncSummary {
+  creatorsChecked: number;
+  jobsEnqueued: number;
+  upToDate: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Register (or remove) the repeating sync according to CHANNEL_SYNC_ENABLED
+ * Safe to call from every instance - the scheduler is keyed by ID
+ */
+export async function scheduleChannelSync(): Promise<void> {
+  if (env.CHANNEL_SYNC_ENABLED !== 'true') {
+    const removed = await channelSyncQueue.removeJobScheduler(SYNC_SCHEDULER_ID);
+    if (removed) {
+      structuredLogger.info({ schedulerId: SYNC_SCHEDULER_ID }, 'Channel sync disabled - removed scheduler');
+    }
+    return;
+  }
+
+  const intervalHours = parseFloat(env.CHANNEL_SYNC_INTERVAL_HOURS);
+  await channelSyncQueue.upsertJobScheduler(
+    SYNC_SCHEDULER_ID,
+    { every: intervalHours * 60 * 60 * 1000 },
+    { name: 'sync-creators' }
+  );
+
+  structuredLogger.info({ schedulerId: SYNC_SCHEDULER_ID, intervalHours }, 'Channel sync scheduled');
+}
+
+/**
+ * Check every completed creator for new uploads and enqueue a sync job where needed
+ */
+export async function runChannelSync(): Promise<SyncSummary> {
+  const { db } = await connectToDatabase();
+  const creators = await db.collection<Creator>('creators').find({
+    setupComplete: true,
+    ownedByTeamId: { $exists: true },
+    ownedByChannelId: { $exists: true }
+  }).toArray();
+
+  const summary: SyncSummary = { creatorsChecked: creators.length, jobsEnqueued: 0, upToDate: 0, skipped: 0, failed: 0 };
+
+  structuredLogger.info({ creators: creators.length }, 'Channel sync started');
+
+  // Sequential on purpose - each check costs YouTube API quota
+  for (const creator of creators) {
+    const outcome = await syncCreator(creator);
+
+    if (outcome === 'enqueued') summary.jobsEnqueued++;
+    else if (outcome === 'up_to_date') summary.upToDate++;
+    else if (outcome === 'skipped') summary.skipped++;
+    else summary.failed++;
+  }
+
+  structuredLogger.info(summary, 'Channel sync finished');
+  return summary;
+}
+
+/**
+ * Job that is running, or queued, for the creator's channel - changes to a single video must not race it
+ * A queued job is only known from the Redis channel mark; Prisma is written when a worker picks the job up
+ */
+export async function findOngoingJobId(creator: Creator): Promise<string | null> {
+  if (!creator.ownedByChannelId || !creator.ownedByTeamId) return null;
+
+  const { db: prismaDb } = await connectToPrismaDatabase();
+  const ongoing = await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').findOne({
+    channelId: creator.ownedByChannelId,
+    teamId: creator.ownedByTeamId,
+    status: 'processing'
+  });
+  return ongoing?.jobId ?? await jobStore.getChannelProcessingJobId(creator.ownedByChannelId, creator.ownedByTeamId);
+}
+
+// What an incremental job needs to know about a creator, taken from its team and last completed run
+export interface CreatorUpdateContext {
+  creatorId: string;
+  channelUrl: string;
+  chatUrl: string;
+  eligibilityPolicy: EligibilityPolicy;
+  videoSource: VideoSource;
+}
+
+/**
+ * Check the team's subscription and find the creator's last completed run
+ * Returns null (and logs why) when the creator should not be updated
+ */
+export async function loadCreatorUpdateContext(creator: Creator): Promise<CreatorUpdateContext | null> {
+  const creatorId = creator._id!.toString();
+  const teamId = creator.ownedByTeamId;
+  const channelId = creator.ownedByChannelId;
+
+  if (!creator.setupComplete || !teamId || !channelId) {
+    structuredLogger.info({ creatorId, setupComplete: creator.setupComplete }, 'Creator update skipped - creator not set up or not owned by a team');
+    return null;
+  }
+
+  // Same subscription rules as /api/process/creator
+  const { db: orgsDb } = await connectToOrgsDatabase();
+  const team = await orgsDb.collection('teams').findOne({ teamId });
+
+  if (!team || team.sub_status !== 'active' || team.has_channel_ai !== true) {
+    structuredLogger.info({
+      creatorId,
+      teamId,
+      teamFound: !!team,
+      sub_status: team?.sub_status,
+      has_channel_ai: team?.has_channel_ai
+    }, 'Creator update skipped - no active Channel AI subscription');
+    return null;
+  }
+
+  // The last successful run tells us which channel URL and chat URL the creator uses
+  const { db: prismaDb } = await connectToPrismaDatabase();
+  const lastRun = await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').findOne(
+    { channelId, teamId, status: 'completed' },
+    { sort: { processedAt: -1 } }
+  );
+  if (!lastRun?.channelUrl) {
+    structuredLogger.warn({ creatorId, channelId }, 'Creator update skipped - no completed processing run to build on');
+    return null;
+  }
+
+  return {
+    creatorId,
+    channelUrl: lastRun.channelUrl,
+    chatUrl: lastRun.chatUrl,
+    eligibilityPolicy: resolveEligibilityPolicy(parseTeamEligibilityOverrides(team.channelAiEligibility)),
+    videoSource: creator.videoSource ?? UPLOADS_SOURCE
+  };
+}
+
+/**
+ * Create a ProcessingJob for an incremental run and hand it to the processing queue
+ * Reserves the channel like POST /api/process/creator - throws ChannelBusyError when another job holds it
+ */
+export async function enqueueCreatorUpdate(
+  creator: Creator,
+  context: CreatorUpdateContext,
+  options: { mode: Exclude<ProcessingMode, 'full'>; maxVideos: number; videoIds?: string[]; forceRefresh?: boolean }
+): Promise<string> {
+  const channelId = creator.ownedByChannelId!;
+  const teamId = creator.ownedByTeamId!;
+  const jobId = `job_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  if (!(await jobStore.markChannelProcessing(channelId, teamId, jobId))) {
+    throw new ChannelBusyError(await jobStore.getChannelProcessingJobId(channelId, teamId));
+  }
+
+  const job: ProcessingJob = {
+    jobId,
+    creatorId: context.creatorId,
+    creatorSlug: creator.slug,
+    channelUrl: context.channelUrl,
+    chatUrl: context.chatUrl,
+    status: 'queued',
+    mode: options.mode,
+    source: formatVideoSource(context.videoSource),
+    progress: { current: 0, total: 0 },
+    channelReservation: { channelId, teamId },
+    createdAt: new Date()
+  };
+
+  try {
+    await jobStore.set(jobId, job);
+
+    await enqueueProcessingJob({
+      jobId,
+      creatorId: context.creatorId,
+      channelUrl: context.channelUrl,
+      maxVideos: options.maxVideos,
+      forceRefresh: options.forceRefresh ?? false,
+      mode: options.mode,
+      videoIds: options.videoIds,
+      source: context.videoSource,
+      eligibilityPolicy: context.eligibilityPolicy,
+      documentId: randomUUID()
+    });
+  } catch (error) {
+    await jobStore.unmarkChannelProcessing(channelId, teamId, jobId);
+    throw error;
+  }
+
+  return jobId;
+}
+
+async function syncCreator(creator: Creator): Promise<SyncOutcome> {
+  const creatorId = creator._id!.toString();
+  const teamId = creator.ownedByTeamId!;
+
+  try {
+    const context = await loadCreatorUpdateContext(creator);
+    if (!context) return 'skipped';
+
+    // A hand-picked video list never gains new uploads
+    if (context.videoSource.type === 'videos') {
+      structuredLogger.info({ creatorId }, 'Channel sync skipped - creator uses a hand-picked video list');
+      return 'up_to_date';
+    }
+
+    // Checked before spending quota - enqueueCreatorUpdate reserves the channel atomically below
+    const existingJobId = await findOngoingJobId(creator);
+    if (existingJobId) {
+      structuredLogger.info({ creatorId, existingJobId }, 'Channel sync skipped - channel is already being processed');
+      return 'skipped';
+    }
+
+    const { eligibilityPolicy } = context;
+    const maxVideos = parseInt(env.CHANNEL_SYNC_MAX_VIDEOS);
+
+    // Only enqueue when the recent uploads (or playlist entries) contain something we have not seen yet
+    const { videos } = await resolveVideoSource(context.videoSource, context.channelUrl, maxVideos, eligibilityPolicy);
+    const indexedVersions = await getIndexedVideoVersions(creatorId);
+    const knownVideoIds = new Set([...(creator.videos || []).map(v => v.videoId), ...(creator.excludedVideoIds || [])]);
+    const newVideos = videos.filter(v =>
+      !indexedVersions.has(v.videoId) &&
+      !knownVideoIds.has(v.videoId) &&
+      meetsCaptionRequirement(v, eligibilityPolicy)
+    );
+
+    if (newVideos.length === 0) {
+      structuredLogger.info({ creatorId, checkedVideos: videos.length, source: formatVideoSource(context.videoSource) }, 'Channel sync - no new uploads');
+      return 'up_to_date';
+    }
+
+    const jobId = await enqueueCreatorUpdate(creator, context, { mode: 'sync', maxVideos });
+
+    structuredLogger.info({
+      jobId,
+      creatorId,
+      newVideos: newVideos.map(v => v.videoId)
+    }, 'Channel sync - new uploads found, job enqueued');
+
+    return 'enqueued';
+  } catch (error) {
+    if (error instanceof ChannelBusyError) {
+      structuredLogger.info({ creatorId, existingJobId: error.existingJobId }, 'Channel sync skipped - channel is already being processed');
+      return 'skipped';
+    }
+    structuredLogger.error({ error, creatorId, teamId }, 'Channel sync failed for creator');
+    return 'failed';
+  }
+}
+
+/**
+ * Start the worker that runs scheduled syncs
+ */
+export function startChannelSyncWorker() {
+  const worker = new Worker(CHANNEL_SYNC_QUEUE_NAME, () => runChannelSync(), {
+    connection: redisConfig,
+    prefix: BULLMQ_PREFIX,
+    concurrency: 1
+  });
+
+  worker.on('failed', (bullJob, err) => {
+    structuredLogger.error({ error: err, bullJobId: bullJob?.id }, 'Channel sync run failed');
+  });
+
+  worker.on('error', (err) => {
+    structuredLogger.error({ error: err }, 'Channel sync worker error');
+  });
+
+  structuredLogger.info({ queue: CHANNEL_SYNC_QUEUE_NAME }, 'Channel sync worker started');
+
+  return worker;
+}
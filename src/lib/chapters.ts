@@ -0,0 +1,95 @@
+// Chapter markers written in video descriptions ("0:00 Intro", "4:12 Setup", ...)
+export interface VideoChapter {
+  title: string;
+  startSeconds: number;
+  endSeconds?: number; // Next chapter's start, or the video's end when known
+}
+
+// YouTube only shows chapters when the list starts at 0:00 and has at least three entries
+const MIN_CHAPTERS = 3;
+
+const TIMESTAMP = String.raw`(\d{1,2}:)?\d{1,2}:\d{2}`;
+
+// "0:00 Intro", "[04:12] - Setup", "1. 0:00 Intro"
+const LEADING_TIMESTAMP_REGEX = new RegExp(String.raw`^(?:\d+[.)]\s+)?[-–—•*▶►\s]*[\[(]?(${TIMESTAMP})[\])]?\s*[-–—:|]?\s*(.+)$`);
+// "Intro - 0:00", "Setup (4:12)"
+const TRAILING_TIMESTAMP_REGEX = new RegExp(String.raw`^[-–—•*▶►\s]*(.+?)\s*[-–—:|]?\s*[\[(]?(${TIMESTAMP})[\])]?$`);
+
+function parseTimestamp(value: string): number {
+  return value.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
+
+function parseChapterLine(line: string): { title: string; startSeconds: number } | null {
+  const leading = line.match(LEADING_TIMESTAMP_REGEX);
+  if (leading?.[1] && leading[3]) {
+    return { title: leading[3].trim(), startSeconds: parseTimestamp(leading[1]) };
+  }
+
+  const trailing = line.match(TRAILING_TIMESTAMP_REGEX);
+  if (trailing?.[1] && trailing[2]) {
+    return { title: trailing[1].trim(), startSeconds: parseTimestamp(trailing[2]) };
+  }
+
+  return null;
+}
+
+/**
+ * Parse chapter markers from a video description using YouTube's rules:
+ * the first marker is 0:00, markers ascend, and there are at least three of them.
+ * Returns an empty list when the description has no valid chapter list.
+ */
+export function parseChapters(description?: string | null, durationSeconds?: number): VideoChapter[] {
+  if (!description) return [];
+
+  const chapters: VideoChapter[] = [];
+
+  for (const rawLine of description.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const parsed = parseChapterLine(line);
+    if (!parsed || !parsed.title) continue;
+
+    // The list starts at the first 0:00 marker and ends where timestamps stop ascending
+    if (chapters.length === 0) {
+      if (parsed.startSeconds === 0) chapters.push(parsed);
+      continue;
+    }
+    if (parsed.startSeconds <= chapters[chapters.length - 1]!.startSeconds) break;
+    if (durationSeconds && parsed.startSeconds >= durationSeconds) break;
+
+    chapters.push(parsed);
+  }
+
+  if (chapters.length < MIN_CHAPTERS) return [];
+
+  return chapters.map((chapter, index) => ({
+    ...chapter,
+    endSeconds: chapters[index + 1]?.startSeconds ?? (durationSeconds || undefined)
+  }));
+}
+
+/**
+ * The chapter a chunk belongs to: the one it overlaps most, or the one containing its start
+ */
+export function findChunkChapter(chapters: VideoChapter[], startTime?: number, endTime?: number): VideoChapter | undefined {
+  if (chapters.length === 0 || startTime === undefined) return undefined;
+
+  if (endTime !== undefined && endTime > startTime) {
+    let best: VideoChapter | undefined;
+    let bestOverlap = 0;
+
+    for (const chapter of chapters) {
+      const chapterEnd = chapter.endSeconds ?? Infinity;
+      const overlap = Math.min(endTime, chapterEnd) - Math.max(startTime, chapter.startSeconds);
+      if (overlap > bestOverlap) {
+        best = chapter;
+        bestOverlap = overlap;
+      }
+    }
+
+    if (best) return best;
+  }
+
+  return [...chapters].reverse().find(chapter => chapter.startSeconds <= startTime);
+}
@@ -0,0 +1,72 @@
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Caps how many tasks run at once; extra callers wait for a free slot (backpressure).
+ * pauseFor() holds back new tasks, e.g. while a rate limit window resets.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private pausedUntil = 0;
+
+  constructor(private readonly maxConcurrent: number) {
+    if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) {
+      throw new Error(`Concurrency must be a positive integer, got ${maxConcurrent}`);
+    }
+  }
+
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  // Tasks already running are not interrupted
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+    } else {
+      // release() hands its slot straight to the next waiter
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    // A pause can be extended while we wait, so re-check after sleeping
+    while (this.pausedUntil > Date.now()) {
+      await sleep(this.pausedUntil - Date.now());
+    }
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Map over items with at most `concurrency` calls in flight; results keep the input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const limiter = new ConcurrencyLimiter(Math.max(1, Math.min(concurrency, items.length || 1)));
+  return Promise.all(items.map((item, index) => limiter.run(() => fn(item, index))));
+}
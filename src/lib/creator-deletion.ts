@@ -0,0 +1,382 @@
+import { createHash } from 'crypto';
+import { ObjectId, MongoServerError } from 'mongodb';
+import type { Creator, ChannelAIProcessing } from '../types';
+import { structuredLogger } from '../middleware/logger';
+import { connectToDatabase, connectToPrismaDatabase } from './mongodb';
+import { jobStore } from './job-store';
+import { processingQueue } from './processing-queue';
+import { reembedQueue } from './reembed';
+import { vectorConsistencyQueue } from './vector-consistency';
+import { deleteCreatorData, countCreatorVectors, NAMESPACE_MIGRATIONS_COLLECTION } from './vectors';
+import { deleteCreatorGenerations } from './embedding-generations';
+import { deleteCreatorEmbeddings } from './embedding-cache';
+import { deleteArchivedTranscripts } from './transcript-archive';
+import { deleteUploadedTranscripts } from './transcript-upload';
+
+const CREATOR_DELETIONS_COLLECTION = 'creator_deletions';
+
+// A run that stopped updating this long ago is assumed dead and may be taken over
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+// Running processing jobs stop before their next video; wait this long for them (well under STALE_RUN_MS)
+const JOB_EXIT_TIMEOUT_MS = 5 * 60 * 1000;
+const JOB_EXIT_POLL_MS = 2000;
+
+// Run in this order; the creators document goes last so a failed run can still be found by slug
+export const CREATOR_DELETION_STEPS = [
+  'jobs',
+  'vectors',
+  'channel_context',
+  'transcript_chunks',
+  'transcripts',
+  'processing_records',
+  'creator'
+] as const;
+
+export type CreatorDeletionStep = typeof CREATOR_DELETION_STEPS[number];
+
+export interface CreatorDeletionStepResult {
+  step: CreatorDeletionStep;
+  status: 'pending' | 'completed' | 'failed';
+  deleted: number;
+  completedAt?: Date;
+  error?: string;
+}
+
+// What is left after all steps ran - everything must be zero / false for a clean receipt
+export interface CreatorDeletionVerification {
+  vectors: number;
+  transcriptChunks: number;
+  transcripts: number;
+  processingRecords: number;
+  redisJobs: number;
+  creatorExists: boolean;
+  verifiedAt: Date;
+}
+
+export interface CreatorDeletion {
+  _id: string; // The creator ID - one deletion per creator, so a retry resumes it
+  creatorId: string;
+  slug: string;
+  teamId: string;
+  channelId?: string;
+  status: 'running' | 'completed' | 'failed';
+  steps: CreatorDeletionStepResult[];
+  requestedAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+  error?: string;
+  verification?: CreatorDeletionVerification;
+  receiptHash?: string; // sha256 of the receipt, so a copy handed out can be checked against this record
+}
+
+export interface CreatorDeletionReceipt {
+  deletionId: string;
+  creatorId: string;
+  slug: string;
+  teamId: string;
+  status: CreatorDeletion['status'];
+  requestedAt: Date;
+  completedAt?: Date;
+  steps: Array<Pick<CreatorDeletionStepResult, 'step' | 'status' | 'deleted' | 'error'>>;
+  verification?: CreatorDeletionVerification;
+  receiptHash?: string;
+}
+
+export class CreatorDeletionInProgressError extends Error {
+  constructor(creatorId: string) {
+    super(`Deletion of creator ${creatorId} is already running`);
+    this.name = 'CreatorDeletionInProgressError';
+  }
+}
+
+async function deletionsCollection() {
+  const { db } = await connectToDatabase();
+  return db.collection<CreatorDeletion>(CREATOR_DELETIONS_COLLECTION);
+}
+
+function hashReceipt(deletion: CreatorDeletion): string {
+  const { creatorId, slug, teamId, requestedAt, completedAt, steps, verification } = deletion;
+  return createHash('sha256').update(JSON.stringify({
+    creatorId,
+    slug,
+    teamId,
+    requestedAt,
+    completedAt,
+    steps: steps.map(({ step, deleted }) => ({ step, deleted })),
+    verification
+  })).digest('hex');
+}
+
+export function toDeletionReceipt(deletion: CreatorDeletion): CreatorDeletionReceipt {
+  return {
+    deletionId: deletion._id,
+    creatorId: deletion.creatorId,
+    slug: deletion.slug,
+    teamId: deletion.teamId,
+    status: deletion.status,
+    requestedAt: deletion.requestedAt,
+    completedAt: deletion.completedAt,
+    steps: deletion.steps.map(({ step, status, deleted, error }) => ({ step, status, deleted, ...(error && { error }) })),
+    verification: deletion.verification,
+    receiptHash: deletion.receiptHash
+  };
+}
+
+/**
+ * Most recent deletion of a slug - lets a repeated DELETE return the receipt after the creator is gone
+ */
+export async function findCreatorDeletion(slug: string): Promise<CreatorDeletion | null> {
+  const deletions = await deletionsCollection();
+  return deletions.findOne({ slug }, { sort: { requestedAt: -1 } });
+}
+
+/**
+ * Processing jobs of a creator that a worker is running right now
+ */
+export async function findActiveProcessingJobs(creatorId: string) {
+  const active = await processingQueue.getJobs(['active']);
+  return active.filter(job => job?.data.creatorId === creatorId);
+}
+
+// Running processing jobs would write chunks and vectors after we removed them - cancel them and wait until they exit
+async function stopActiveJobs(creatorId: string): Promise<number> {
+  const running = await findActiveProcessingJobs(creatorId);
+  await Promise.all(running.map(job => jobStore.requestCancellation(job.data.jobId)));
+
+  const deadline = Date.now() + JOB_EXIT_TIMEOUT_MS;
+  let remaining = running;
+  while (remaining.length > 0) {
+    if (Date.now() > deadline) {
+      throw new Error(`Processing jobs still running after cancellation: ${remaining.map(job => job.data.jobId).join(', ')}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, JOB_EXIT_POLL_MS));
+    const stillActive = await Promise.all(remaining.map(job => job.isActive()));
+    remaining = remaining.filter((_, index) => stillActive[index]);
+  }
+
+  return running.length;
+}
+
+// Queued (not yet started) processing jobs would recreate data right after we remove it
+async function removeQueuedJobs(creatorId: string): Promise<number> {
+  const queued = await processingQueue.getJobs(['waiting', 'delayed', 'prioritized', 'paused']);
+  const ours = queued.filter(job => job?.data.creatorId === creatorId);
+  await Promise.all(ours.map(job => job.remove()));
+  return ours.length;
+}
+
+// Queued re-embeds and consistency repairs would embed the creator's chunks again
+async function removeQueuedMaintenanceJobs(creatorId: string): Promise<number> {
+  const states = ['waiting', 'delayed', 'prioritized', 'paused'] as const;
+
+  const reembeds = (await reembedQueue.getJobs([...states])).filter(job => job?.data.creatorId === creatorId);
+  await Promise.all(reembeds.map(job => job.remove()));
+
+  // A check may cover other creators too, and its report waits for it - so drop just this creator and let it run
+  const checks = (await vectorConsistencyQueue.getJobs([...states])).filter(job => job?.data.creatorIds?.includes(creatorId));
+  await Promise.all(checks.map(job => job.updateData({
+    ...job.data,
+    creatorIds: job.data.creatorIds!.filter(id => id !== creatorId)
+  })));
+
+  return reembeds.length + checks.length;
+}
+
+async function runStep(step: CreatorDeletionStep, deletion: CreatorDeletion): Promise<number> {
+  const { creatorId, channelId, teamId } = deletion;
+  const { db } = await connectToDatabase();
+
+  switch (step) {
+    case 'jobs': {
+      // Stop running jobs first: a job that fails on the way out may be queued again for a retry
+      const stopped = await stopActiveJobs(creatorId);
+      const removedFromQueue = await removeQueuedJobs(creatorId) + await removeQueuedMaintenanceJobs(creatorId);
+      const storedJobs = await jobStore.deleteCreatorJobs(creatorId);
+      if (channelId) await jobStore.unmarkChannelProcessing(channelId, teamId);
+      // Only once nothing can embed the creator's chunks again
+      await deleteCreatorEmbeddings(creatorId);
+      return stopped + removedFromQueue + storedJobs;
+    }
+    case 'vectors': {
+      const deleted = await deleteCreatorData(creatorId);
+      await db.collection(NAMESPACE_MIGRATIONS_COLLECTION).deleteOne({ creatorId });
+      // Only after the vectors - the record is how their generation namespaces are found
+      await deleteCreatorGenerations(creatorId);
+      return deleted;
+    }
+    case 'channel_context':
+      return (await db.collection('transcript_chunks').deleteMany({ creatorId, videoId: 'CHANNEL_CONTEXT' })).deletedCount;
+    case 'transcript_chunks':
+      return (await db.collection('transcript_chunks').deleteMany({ creatorId })).deletedCount;
+    case 'transcripts':
+      return await deleteArchivedTranscripts(creatorId) + await deleteUploadedTranscripts(creatorId);
+    case 'processing_records': {
+      const { db: prismaDb } = await connectToPrismaDatabase();
+      return (await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').deleteMany({ creatorId })).deletedCount;
+    }
+    case 'creator':
+      return (await db.collection<Creator>('creators').deleteOne({ _id: new ObjectId(creatorId) } as any)).deletedCount;
+  }
+}
+
+async function verifyDeletion(deletion: CreatorDeletion): Promise<CreatorDeletionVerification> {
+  const { creatorId } = deletion;
+  const { db } = await connectToDatabase();
+  const { db: prismaDb } = await connectToPrismaDatabase();
+
+  const [vectors, transcriptChunks, archived, uploaded, processingRecords, jobs, creator] = await Promise.all([
+    countCreatorVectors(creatorId),
+    db.collection('transcript_chunks').countDocuments({ creatorId }),
+    db.collection('transcript_archive').countDocuments({ creatorId }),
+    db.collection('transcript_uploads').countDocuments({ creatorId }),
+    prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').countDocuments({ creatorId }),
+    jobStore.values(),
+    db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any, { projection: { _id: 1 } })
+  ]);
+
+  return {
+    vectors,
+    transcriptChunks,
+    transcripts: archived + uploaded,
+    processingRecords,
+    redisJobs: jobs.filter(job => job.creatorId === creatorId).length,
+    creatorExists: !!creator,
+    verifiedAt: new Date()
+  };
+}
+
+// Steps whose data showed up again in verification, so the next run repeats them
+function leftoverSteps(verification: CreatorDeletionVerification): CreatorDeletionStep[] {
+  const steps: CreatorDeletionStep[] = [];
+  if (verification.redisJobs > 0) steps.push('jobs');
+  if (verification.vectors > 0) steps.push('vectors');
+  if (verification.transcriptChunks > 0) steps.push('channel_context', 'transcript_chunks');
+  if (verification.transcripts > 0) steps.push('transcripts');
+  if (verification.processingRecords > 0) steps.push('processing_records');
+  if (verification.creatorExists) steps.push('creator');
+  return steps;
+}
+
+/**
+ * Delete a creator and everything stored for them, step by step. Progress is kept in
+ * creator_deletions: calling this again after a failure resumes at the first unfinished
+ * step, and calling it after success just returns the stored deletion.
+ * Throws CreatorDeletionInProgressError when another run is active.
+ */
+export async function deleteCreator(target: { creatorId: string; slug: string; teamId: string; channelId?: string }): Promise<CreatorDeletion> {
+  const deletions = await deletionsCollection();
+  const now = new Date();
+
+  // Resume a failed run, or take over one that stopped reporting
+  let deletion = await deletions.findOneAndUpdate(
+    {
+      _id: target.creatorId,
+      $or: [{ status: 'failed' }, { status: 'running', updatedAt: { $lt: new Date(now.getTime() - STALE_RUN_MS) } }]
+    },
+    { $set: { status: 'running', updatedAt: now }, $unset: { error: '' } },
+    { returnDocument: 'after' }
+  );
+
+  if (!deletion) {
+    const existing = await deletions.findOne({ _id: target.creatorId });
+    if (existing?.status === 'completed') return existing;
+    if (existing) throw new CreatorDeletionInProgressError(target.creatorId);
+
+    deletion = {
+      _id: target.creatorId,
+      ...target,
+      status: 'running',
+      steps: CREATOR_DELETION_STEPS.map(step => ({ step, status: 'pending', deleted: 0 })),
+      requestedAt: now,
+      updatedAt: now
+    };
+    try {
+      await deletions.insertOne(deletion);
+    } catch (error) {
+      // Another request inserted it first
+      if (error instanceof MongoServerError && error.code === 11000) throw new CreatorDeletionInProgressError(target.creatorId);
+      throw error;
+    }
+  }
+
+  structuredLogger.info({ creatorId: deletion.creatorId, slug: deletion.slug, teamId: deletion.teamId }, 'Creator deletion started');
+
+  for (const [index, result] of deletion.steps.entries()) {
+    if (result.status === 'completed') continue;
+
+    try {
+      const deleted = await runStep(result.step, deletion);
+      deletion.steps[index] = { step: result.step, status: 'completed', deleted: result.deleted + deleted, completedAt: new Date() };
+      await deletions.updateOne({ _id: deletion._id }, { $set: { [`steps.${index}`]: deletion.steps[index], updatedAt: new Date() } });
+
+      structuredLogger.info({ creatorId: deletion.creatorId, step: result.step, deleted }, 'Creator deletion step completed');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      deletion.steps[index] = { ...result, status: 'failed', error: message };
+      deletion.status = 'failed';
+      deletion.error = `Step ${result.step} failed: ${message}`;
+      await deletions.updateOne(
+        { _id: deletion._id },
+        { $set: { [`steps.${index}`]: deletion.steps[index], status: 'failed', error: deletion.error, updatedAt: new Date() } }
+      );
+
+      structuredLogger.error({ error, creatorId: deletion.creatorId, step: result.step }, 'Creator deletion step failed');
+      return deletion;
+    }
+  }
+
+  let verification: CreatorDeletionVerification;
+  try {
+    verification = await verifyDeletion(deletion);
+  } catch (error) {
+    // Every step is done; the next call only repeats the verification
+    deletion.status = 'failed';
+    deletion.error = `Verification failed: ${error instanceof Error ? error.message : String(error)}`;
+    await deletions.updateOne({ _id: deletion._id }, { $set: { status: 'failed', error: deletion.error, updatedAt: new Date() } });
+
+    structuredLogger.error({ error, creatorId: deletion.creatorId }, 'Creator deletion verification failed');
+    return deletion;
+  }
+  deletion.verification = verification;
+
+  const leftovers = leftoverSteps(verification);
+  if (leftovers.length > 0) {
+    // e.g. a job that was already running wrote chunks after we removed them
+    deletion.steps = deletion.steps.map(step => leftovers.includes(step.step) ? { ...step, status: 'pending' } : step);
+    deletion.status = 'failed';
+    deletion.error = `Verification found data left behind: ${leftovers.join(', ')}`;
+    await deletions.updateOne(
+      { _id: deletion._id },
+      { $set: { steps: deletion.steps, verification, status: 'failed', error: deletion.error, updatedAt: new Date() } }
+    );
+
+    structuredLogger.warn({ creatorId: deletion.creatorId, verification }, 'Creator deletion left data behind');
+    return deletion;
+  }
+
+  deletion.status = 'completed';
+  deletion.completedAt = new Date();
+  deletion.receiptHash = hashReceipt(deletion);
+  await deletions.updateOne(
+    { _id: deletion._id },
+    {
+      $set: {
+        status: 'completed',
+        completedAt: deletion.completedAt,
+        verification,
+        receiptHash: deletion.receiptHash,
+        updatedAt: deletion.completedAt
+      }
+    }
+  );
+
+  structuredLogger.info({
+    creatorId: deletion.creatorId,
+    slug: deletion.slug,
+    deleted: Object.fromEntries(deletion.steps.map(step => [step.step, step.deleted])),
+    receiptHash: deletion.receiptHash
+  }, 'Creator deleted');
+
+  return deletion;
+}
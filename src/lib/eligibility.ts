@@ -0,0 +1,266 @@
+import { z } from 'zod';
+import type { VideoSkipReason } from '../types';
+
+// Shorts are vertical videos up to 3 minutes; anything under a minute is treated as one regardless of tagging
+const SHORTS_MAX_MINUTES = 3;
+const SHORTS_UNTAGGED_MAX_MINUTES = 1;
+
+const dateString = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+// Overrides accepted per team (teams.channelAiEligibility) and per request (options.eligibility)
+export const eligibilityOverridesSchema = z.object({
+  minDurationMinutes: z.number().min(0).optional(),
+  maxDurationMinutes: z.number().positive().optional(),
+  requireCaptions: z.boolean().optional(),
+  includeShorts: z.boolean().optional(),
+  includeLivestreams: z.boolean().optional(),
+  publishedAfter: dateString.optional(),
+  publishedBefore: dateString.optional(),
+  // Case-insensitive substrings matched against the video title
+  titleInclude: z.array(z.string().min(1).max(100)).max(20).optional(),
+  titleExclude: z.array(z.string().min(1).max(100)).max(20).optional()
+});
+
+export type EligibilityOverrides = z.infer<typeof eligibilityOverridesSchema>;
+
+export interface EligibilityPolicy {
+  minDurationMinutes: number;
+  maxDurationMinutes: number;
+  requireCaptions: boolean;
+  includeShorts: boolean;
+  includeLivestreams: boolean;
+  publishedAfter?: string;
+  publishedBefore?: string;
+  titleInclude: string[];
+  titleExclude: string[];
+}
+
+export const DEFAULT_ELIGIBILITY_POLICY: EligibilityPolicy = {
+  minDurationMinutes: 2,
+  maxDurationMinutes: 25,
+  requireCaptions: true,
+  includeShorts: false,
+  includeLivestreams: true,
+  titleInclude: [],
+  titleExclude: []
+};
+
+// Just the fields the policy looks at - satisfied by videos from getChannelVideos
+export interface EligibilityCandidate {
+  title?: string | null;
+  description?: string | null;
+  publishedAt?: string | null;
+  durationMinutes?: number | null;
+  hasCaptions?: boolean;
+  isLivestream?: boolean;
+}
+
+export type EligibilityResult =
+  | { eligible: true }
+  | { eligible: false; reason: VideoSkipReason; message: string };
+
+// Copy one field of an override onto the policy, unless the override leaves it unset
+function applyOverride<K extends keyof EligibilityPolicy>(policy: EligibilityPolicy, override: EligibilityOverrides, key: K) {
+  const value: Partial<EligibilityPolicy>[K] = override[key];
+  if (value !== undefined) policy[key] = value;
+}
+
+/**
+ * Merge overrides on top of the defaults (later overrides win)
+ * Throws a ZodError if the merged policy is inconsistent
+ */
+export function resolveEligibilityPolicy(
+  ...overrides: Array<EligibilityOverrides | undefined>
+): EligibilityPolicy {
+  const policy: EligibilityPolicy = { ...DEFAULT_ELIGIBILITY_POLICY };
+
+  for (const override of overrides) {
+    if (!override) continue;
+    for (const key of eligibilityOverridesSchema.keyof().options) {
+      applyOverride(policy, override, key);
+    }
+  }
+
+  const issues: z.core.$ZodIssue[] = [];
+  if (policy.minDurationMinutes > policy.maxDurationMinutes) {
+    issues.push({
+      code: 'custom',
+      path: ['minDurationMinutes'],
+      message: `Minimum duration (${policy.minDurationMinutes} min) cannot exceed maximum duration (${policy.maxDurationMinutes} min)`,
+      input: policy.minDurationMinutes
+    });
+  }
+  if (policy.publishedAfter && policy.publishedBefore &&
+      Date.parse(policy.publishedAfter) > Date.parse(policy.publishedBefore)) {
+    issues.push({
+      code: 'custom',
+      path: ['publishedAfter'],
+      message: 'publishedAfter must be before publishedBefore',
+      input: policy.publishedAfter
+    });
+  }
+  if (issues.length > 0) {
+    throw new z.ZodError(issues);
+  }
+
+  return policy;
+}
+
+/**
+ * Read a team's stored overrides, ignoring anything malformed
+ */
+export function parseTeamEligibilityOverrides(raw: unknown): EligibilityOverrides | undefined {
+  if (!raw) return undefined;
+
+  const parsed = eligibilityOverridesSchema.safeParse(raw);
+  return parsed.success ? parsed.data : undefined;
+}
+
+export function isShortVideo(video: EligibilityCandidate): boolean {
+  const duration = video.durationMinutes || 0;
+  if (duration > SHORTS_MAX_MINUTES) return false;
+  if (duration <= SHORTS_UNTAGGED_MAX_MINUTES) return true;
+
+  const text = `${video.title || ''} ${video.description || ''}`.toLowerCase();
+  return text.includes('#shorts') || text.includes('#short ');
+}
+
+/**
+ * Check a single video against the policy (captions are checked separately via requireCaptions)
+ */
+export function checkVideoEligibility(video: EligibilityCandidate, policy: EligibilityPolicy): EligibilityResult {
+  const duration = video.durationMinutes || 0;
+  const title = (video.title || '').toLowerCase();
+
+  if (isShortVideo(video)) {
+    if (!policy.includeShorts) {
+      return { eligible: false, reason: 'short', message: 'YouTube Shorts are not included' };
+    }
+  } else if (duration < policy.minDurationMinutes || duration > policy.maxDurationMinutes) {
+    return {
+      eligible: false,
+      reason: 'duration_out_of_range',
+      message: `Video is ${duration} min long; only videos ${describeDurationRange(policy)} are processed`
+    };
+  }
+
+  if (video.isLivestream && !policy.includeLivestreams) {
+    return { eligible: false, reason: 'livestream', message: 'Livestream recordings are not included' };
+  }
+
+  if (policy.publishedAfter || policy.publishedBefore) {
+    const publishedAt = video.publishedAt ? Date.parse(video.publishedAt) : NaN;
+    if (
+      isNaN(publishedAt) ||
+      (policy.publishedAfter && publishedAt < Date.parse(policy.publishedAfter)) ||
+      (policy.publishedBefore && publishedAt > Date.parse(policy.publishedBefore))
+    ) {
+      return {
+        eligible: false,
+        reason: 'outside_date_range',
+        message: `Video was not published ${describeDateRange(policy)}`
+      };
+    }
+  }
+
+  if (policy.titleInclude.length > 0 && !policy.titleInclude.some(p => title.includes(p.toLowerCase()))) {
+    return {
+      eligible: false,
+      reason: 'title_filtered',
+      message: `Title does not contain any of: ${policy.titleInclude.join(', ')}`
+    };
+  }
+
+  const excludedBy = policy.titleExclude.find(p => title.includes(p.toLowerCase()));
+  if (excludedBy) {
+    return { eligible: false, reason: 'title_filtered', message: `Title contains excluded term "${excludedBy}"` };
+  }
+
+  return { eligible: true };
+}
+
+// Captions only count against a video when the policy requires them
+export function meetsCaptionRequirement(video: EligibilityCandidate, policy: EligibilityPolicy): boolean {
+  return !policy.requireCaptions || !!video.hasCaptions;
+}
+
+export function describeDurationRange(policy: EligibilityPolicy): string {
+  return `between ${policy.minDurationMinutes}-${policy.maxDurationMinutes} minutes long`;
+}
+
+function describeDateRange(policy: EligibilityPolicy): string {
+  const after = policy.publishedAfter ? new Date(policy.publishedAfter).toISOString().slice(0, 10) : undefined;
+  const before = policy.publishedBefore ? new Date(policy.publishedBefore).toISOString().slice(0, 10) : undefined;
+
+  if (after && before) return `between ${after} and ${before}`;
+  if (after) return `after ${after}`;
+  return `before ${before}`;
+}
+
+// Requirements beyond captions and duration (livestreams, dates, titles)
+function describeAdditionalFilters(policy: EligibilityPolicy): string[] {
+  const filters: string[] = [];
+
+  if (!policy.includeLivestreams) {
+    filters.push('Livestream recordings are excluded');
+  }
+  if (policy.publishedAfter || policy.publishedBefore) {
+    filters.push(`Videos must be published ${describeDateRange(policy)}`);
+  }
+  if (policy.titleInclude.length > 0) {
+    filters.push(`Titles must contain one of: ${policy.titleInclude.join(', ')}`);
+  }
+  if (policy.titleExclude.length > 0) {
+    filters.push(`Titles must not contain: ${policy.titleExclude.join(', ')}`);
+  }
+
+  return filters;
+}
+
+/**
+ * Human-readable requirements for the applied policy, one per line
+ */
+export function describeEligibilityPolicy(policy: EligibilityPolicy): string[] {
+  return [
+    ...(policy.requireCaptions ? ['Videos must have captions/transcripts enabled'] : []),
+    `Videos must be ${describeDurationRange(policy)}${policy.includeShorts ? ' (Shorts are also accepted)' : ''}`,
+    ...describeAdditionalFilters(policy)
+  ];
+}
+
+/**
+ * Explain why a channel has no processable videos under the applied policy
+ * videosMatchingPolicy counts videos that pass everything except the captions requirement
+ */
+export function buildIneligibleChannelMessage(
+  policy: EligibilityPolicy,
+  counts: { videosWithCaptions: number; videosMatchingPolicy: number }
+): string {
+  const { videosWithCaptions, videosMatchingPolicy } = counts;
+  const range = describeDurationRange(policy);
+  const additionalFilters = describeAdditionalFilters(policy);
+
+  if (videosWithCaptions === 0 && videosMatchingPolicy === 0) {
+    return 'Channel not eligible: No videos with captions AND no videos matching the processing requirements. ' +
+      'Requirements:\n' +
+      describeEligibilityPolicy(policy).map(line => `• ${line}\n`).join('') +
+      'OR provide a custom description when creating the bot.';
+  }
+
+  if (videosWithCaptions === 0) {
+    return `Channel not eligible: Found ${videosMatchingPolicy} video(s) matching the requirements (${range}), but NONE have captions/transcripts. ` +
+      'YouTube auto-generates captions after 10-30 minutes. ' +
+      'Please enable captions or provide a custom description.';
+  }
+
+  if (videosMatchingPolicy === 0) {
+    return `Channel not eligible: Found ${videosWithCaptions} video(s) with captions, but NONE match the requirements. ` +
+      `We only process videos ${range}` +
+      (additionalFilters.length > 0 ? ` (${additionalFilters.join('; ')})` : '') +
+      '. Please ensure you have videos that meet these requirements or provide a custom description.';
+  }
+
+  return `Channel not eligible: Found ${videosWithCaptions} video(s) with captions and ${videosMatchingPolicy} video(s) matching the requirements, but NO overlap. ` +
+    `Videos need BOTH captions AND be ${range}. ` +
+    'Please provide a custom description to proceed.';
+}
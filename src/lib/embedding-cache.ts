@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import { Binary } from 'mongodb';
+import { connectToDatabase } from './mongodb';
+import { createLogger } from './logger';
+import { env } from '../config/env';
+import type { EmbeddingSpec } from './embedding-providers';
+
+const logger = createLogger('EmbeddingCache');
+
+const CACHE_COLLECTION = 'embedding_cache';
+
+// Queries are cached for hours (repeated chat questions); document chunks for days, renewed whenever they are embedded again
+export type EmbeddingPurpose = 'document' | 'query';
+
+interface EmbeddingCacheEntry {
+  _id: string; // sha256 of model, dimensions and text
+  model: string;
+  dimensions: number;
+  purpose: EmbeddingPurpose;
+  embedding: Binary; // Float32 little-endian - the API returns float32, so this is lossless
+  creatorIds?: string[]; // Creators whose chunks have this text, so the entry goes when they are deleted
+  createdAt: Date;
+  expiresAt: Date; // TTL index removes the entry after this
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  errors: number;
+}
+
+const stats = { hits: 0, misses: 0, errors: 0 };
+
+// The cache separates providers and models that happen to share a dimension
+export function embeddingCacheModel(spec: Pick<EmbeddingSpec, 'provider' | 'model'>): string {
+  return `${spec.provider}/${spec.model}`;
+}
+
+export function embeddingCacheKey(model: string, dimensions: number, text: string): string {
+  return createHash('sha256').update(`${model}\u0000${dimensions}\u0000${text}`).digest('hex');
+}
+
+function toBinary(embedding: number[]): Binary {
+  return new Binary(Buffer.from(new Float32Array(embedding).buffer));
+}
+
+function fromBinary(binary: Binary): number[] {
+  // Copy into a fresh buffer - the stored bytes may not be 4-byte aligned
+  const bytes = Uint8Array.from(binary.buffer);
+  return Array.from(new Float32Array(bytes.buffer));
+}
+
+export function isEmbeddingCacheEnabled(): boolean {
+  return env.EMBEDDING_CACHE_ENABLED === 'true';
+}
+
+/**
+ * Look up cached embeddings by key. Cache failures are logged and treated as misses.
+ */
+export async function getCachedEmbeddings(keys: string[]): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+  if (keys.length === 0 || !isEmbeddingCacheEnabled()) return found;
+
+  try {
+    const { db } = await connectToDatabase();
+    const now = new Date();
+    // The TTL monitor runs about once a minute, so skip entries that have expired but not been removed yet
+    const entries = await db.collection<EmbeddingCacheEntry>(CACHE_COLLECTION)
+      .find({ _id: { $in: [...new Set(keys)] }, expiresAt: { $gt: now } })
+      .toArray();
+
+    for (const entry of entries) {
+      found.set(entry._id, fromBinary(entry.embedding));
+    }
+  } catch (error) {
+    stats.errors++;
+    logger.warn('Embedding cache lookup failed', { keys: keys.length, error: error instanceof Error ? error.message : String(error) });
+  }
+
+  const hits = keys.filter(key => found.has(key)).length;
+  stats.hits += hits;
+  stats.misses += keys.length - hits;
+
+  return found;
+}
+
+/**
+ * Store freshly created embeddings, tagged with the creator whose chunks they are. Failures are logged, never thrown.
+ */
+export async function cacheEmbeddings(
+  entries: Array<{ key: string; embedding: number[] }>,
+  meta: { model: string; dimensions: number; purpose: EmbeddingPurpose; creatorId?: string }
+): Promise<void> {
+  if (entries.length === 0 || !isEmbeddingCacheEnabled()) return;
+
+  const now = new Date();
+  const ttlMs = meta.purpose === 'query'
+    ? parseFloat(env.EMBEDDING_QUERY_CACHE_TTL_HOURS) * 60 * 60 * 1000
+    : parseFloat(env.EMBEDDING_DOCUMENT_CACHE_TTL_DAYS) * 24 * 60 * 60 * 1000;
+  const expiresAt = new Date(now.getTime() + ttlMs);
+
+  try {
+    const { db } = await connectToDatabase();
+    await db.collection<EmbeddingCacheEntry>(CACHE_COLLECTION).bulkWrite(
+      entries.map(({ key, embedding }) => {
+        const fields = { model: meta.model, dimensions: meta.dimensions, embedding: toBinary(embedding), createdAt: now };
+        return {
+          updateOne: {
+            filter: { _id: key },
+            // A query entry takes the chunk expiry once a chunk has the same text; a chunk entry never drops back to the query one
+            update: meta.purpose === 'query'
+              ? { $set: fields, $setOnInsert: { purpose: meta.purpose, expiresAt } }
+              : {
+                  $set: { ...fields, purpose: meta.purpose, expiresAt },
+                  ...(meta.creatorId && { $addToSet: { creatorIds: meta.creatorId } })
+                },
+            upsert: true
+          }
+        };
+      }),
+      { ordered: false }
+    );
+  } catch (error) {
+    stats.errors++;
+    logger.warn('Embedding cache write failed', { entries: entries.length, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Drop the cached chunk embeddings of a creator, optionally only those of one embedding spec (a retired
+ * generation). Entries shared with other creators go too - they are re-embedded on the next miss.
+ */
+export async function deleteCreatorEmbeddings(
+  creatorId: string,
+  spec?: Pick<EmbeddingSpec, 'provider' | 'model' | 'dimensions'>
+): Promise<number> {
+  const { db } = await connectToDatabase();
+  const result = await db.collection<EmbeddingCacheEntry>(CACHE_COLLECTION).deleteMany({
+    creatorIds: creatorId,
+    ...(spec && { model: embeddingCacheModel(spec), dimensions: spec.dimensions })
+  });
+  return result.deletedCount;
+}
+
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  const lookups = stats.hits + stats.misses;
+  return {
+    ...stats,
+    hitRate: lookups > 0 ? Math.round((stats.hits / lookups) * 1000) / 1000 : 0
+  };
+}
@@ -0,0 +1,286 @@
+import { MongoServerError, type ObjectId } from 'mongodb';
+import { connectToDatabase } from './mongodb';
+import { createLogger } from './logger';
+import {
+  getEmbeddingProvider,
+  getEmbeddingProviderFor,
+  embeddingSpecOf,
+  sameEmbeddingSpec,
+  type EmbeddingProvider,
+  type EmbeddingSpec
+} from './embedding-providers';
+
+const logger = createLogger('EmbeddingGenerations');
+
+export const EMBEDDING_GENERATIONS_COLLECTION = 'embedding_generations';
+
+// A build saves progress after every page; one this quiet lost its worker and may be taken over
+const STALE_BUILD_MS = 10 * 60 * 1000;
+
+/**
+ * One complete set of a creator's vectors, all embedded with the same provider, model and size.
+ * The version names the creator's namespace for it (see creatorNamespace()).
+ */
+export interface EmbeddingGeneration extends EmbeddingSpec {
+  version: number;
+  createdAt: Date;
+}
+
+// Position in a creator's transcript_chunks, which are re-embedded in (createdAt, _id) order
+export interface ChunkCursor {
+  createdAt: Date;
+  id: string | ObjectId;
+}
+
+// A generation being re-embedded from transcript_chunks while the active one keeps serving
+export interface EmbeddingGenerationBuild extends EmbeddingGeneration {
+  status: 'running' | 'failed';
+  jobId?: string;
+  startedAt: Date;
+  embeddedChunks: number;
+  estimatedTokens: number;
+  resumeAfter?: ChunkCursor; // A retry resumes after this chunk
+  error?: string;
+}
+
+export interface CreatorEmbeddingGenerations {
+  _id: string; // creatorId
+  active: EmbeddingGeneration; // Serves search and receives new vectors
+  previous?: EmbeddingGeneration; // Rollback target - its vectors are kept until the next switch
+  building?: EmbeddingGenerationBuild;
+  switchedAt?: Date;
+  updatedAt: Date;
+}
+
+export class EmbeddingGenerationConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingGenerationConflictError';
+  }
+}
+
+async function generationsCollection() {
+  const { db } = await connectToDatabase();
+  return db.collection<CreatorEmbeddingGenerations>(EMBEDDING_GENERATIONS_COLLECTION);
+}
+
+export function toGeneration({ provider, model, dimensions, version, createdAt }: EmbeddingGeneration): EmbeddingGeneration {
+  return { provider, model, dimensions, version, createdAt };
+}
+
+// Every generation that may still have vectors, active first
+export function storedGenerations(generations: CreatorEmbeddingGenerations): EmbeddingGeneration[] {
+  return [generations.active, generations.previous, generations.building]
+    .filter((generation): generation is EmbeddingGeneration => !!generation)
+    .filter((generation, index, all) => all.findIndex(other => other.version === generation.version) === index);
+}
+
+export function getGenerationProvider(generation: EmbeddingSpec): EmbeddingProvider {
+  return getEmbeddingProviderFor(generation);
+}
+
+// Read-only lookup - null for creators that never had a generation recorded
+export async function findCreatorGenerations(creatorId: string): Promise<CreatorEmbeddingGenerations | null> {
+  return (await generationsCollection()).findOne({ _id: creatorId });
+}
+
+// Generation 1 of the configured provider - what a creator without a record gets pinned to on its first write
+export function defaultGeneration(): EmbeddingGeneration {
+  return { ...embeddingSpecOf(getEmbeddingProvider()), version: 1, createdAt: new Date() };
+}
+
+/**
+ * A creator's generations, recording generation 1 with the configured provider if there is no record yet.
+ * Only for paths that write vectors: once pinned, changing EMBEDDING_PROVIDER / EMBEDDING_MODEL /
+ * EMBEDDING_DIMENSIONS only affects new creators - existing ones move through a re-embed.
+ */
+export async function pinCreatorGenerations(creatorId: string): Promise<CreatorEmbeddingGenerations> {
+  const collection = await generationsCollection();
+  const now = new Date();
+
+  try {
+    const generations = await collection.findOneAndUpdate(
+      { _id: creatorId },
+      {
+        $setOnInsert: {
+          active: { ...defaultGeneration(), createdAt: now },
+          updatedAt: now
+        }
+      },
+      { upsert: true, returnDocument: 'after' }
+    );
+    if (generations) return generations;
+  } catch (error) {
+    // Two first lookups raced on the upsert; the other one inserted it
+    if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+  }
+
+  const generations = await collection.findOne({ _id: creatorId });
+  if (!generations) throw new Error(`Embedding generations missing for creator ${creatorId}`);
+  return generations;
+}
+
+/**
+ * The generation a creator's searches read from. Read-only: without a record (nothing written yet, or an
+ * unknown or deleted creator) it is the default generation, which is not stored.
+ */
+export async function getActiveGeneration(creatorId: string): Promise<EmbeddingGeneration> {
+  return (await findCreatorGenerations(creatorId))?.active ?? defaultGeneration();
+}
+
+// The generation new vectors go into, pinned on first use
+export async function pinActiveGeneration(creatorId: string): Promise<EmbeddingGeneration> {
+  return (await pinCreatorGenerations(creatorId)).active;
+}
+
+/**
+ * Reserve the next generation for a re-embed into `spec`. A failed (or stale) build of the same spec is
+ * resumed; one of another spec is replaced and returned as `discarded` so its vectors can be dropped.
+ */
+export async function claimGenerationBuild(creatorId: string, spec: EmbeddingSpec): Promise<{
+  build: EmbeddingGenerationBuild;
+  discarded?: EmbeddingGeneration;
+}> {
+  const collection = await generationsCollection();
+  const generations = await pinCreatorGenerations(creatorId);
+
+  const stale = generations.building?.status === 'running' && Date.now() - generations.updatedAt.getTime() > STALE_BUILD_MS;
+  if (generations.building?.status === 'running' && !stale) {
+    throw new EmbeddingGenerationConflictError(`A re-embed into generation ${generations.building.version} is already running`);
+  }
+  if (sameEmbeddingSpec(generations.active, spec)) {
+    throw new EmbeddingGenerationConflictError(`Generation ${generations.active.version} already uses ${spec.provider}/${spec.model} (${spec.dimensions})`);
+  }
+
+  const unfinished = generations.building;
+  const resume = unfinished && sameEmbeddingSpec(unfinished, spec);
+  const now = new Date();
+
+  const build: EmbeddingGenerationBuild = resume
+    ? { ...unfinished, status: 'running', startedAt: now }
+    : {
+      ...spec,
+      version: Math.max(...storedGenerations(generations).map(generation => generation.version)) + 1,
+      createdAt: now,
+      status: 'running',
+      startedAt: now,
+      embeddedChunks: 0,
+      estimatedTokens: 0
+    };
+  delete build.error;
+
+  // Conditional on what was read, so two claims can't both win
+  const result = await collection.updateOne(
+    {
+      _id: creatorId,
+      updatedAt: generations.updatedAt,
+      'active.version': generations.active.version
+    },
+    { $set: { building: build, updatedAt: now } }
+  );
+  if (result.matchedCount === 0) {
+    throw new EmbeddingGenerationConflictError('Embedding generations changed while starting the re-embed - try again');
+  }
+
+  logger.info('Embedding generation build claimed', { creatorId, version: build.version, resumed: !!resume, ...spec });
+
+  return { build, discarded: unfinished && !resume ? toGeneration(unfinished) : undefined };
+}
+
+/**
+ * Record build progress. False when the build is gone (creator deleted, build replaced) and should stop.
+ */
+export async function updateGenerationBuild(
+  creatorId: string,
+  version: number,
+  progress: Partial<Pick<EmbeddingGenerationBuild, 'jobId' | 'embeddedChunks' | 'estimatedTokens' | 'resumeAfter'>>
+): Promise<boolean> {
+  const $set = Object.fromEntries(Object.entries(progress).map(([key, value]) => [`building.${key}`, value]));
+  const result = await (await generationsCollection()).updateOne(
+    { _id: creatorId, 'building.version': version, 'building.status': 'running' },
+    { $set: { ...$set, updatedAt: new Date() } }
+  );
+  return result.matchedCount > 0;
+}
+
+export async function failGenerationBuild(creatorId: string, version: number, error: string): Promise<void> {
+  await (await generationsCollection()).updateOne(
+    { _id: creatorId, 'building.version': version },
+    { $set: { 'building.status': 'failed', 'building.error': error, updatedAt: new Date() } }
+  );
+}
+
+/**
+ * Make a finished build the active generation in a single update; the old active one becomes the
+ * rollback target. Returns the generation that no longer has a slot (the old rollback target), if any.
+ */
+export async function activateGenerationBuild(creatorId: string, version: number): Promise<{
+  generations: CreatorEmbeddingGenerations;
+  retired?: EmbeddingGeneration;
+}> {
+  const collection = await generationsCollection();
+  const current = await findCreatorGenerations(creatorId);
+  const build = current?.building;
+
+  if (!current || !build || build.version !== version || build.status !== 'running') {
+    throw new EmbeddingGenerationConflictError(`Generation ${version} is not being built for creator ${creatorId}`);
+  }
+
+  const switchedAt = new Date();
+  const generations = await collection.findOneAndUpdate(
+    { _id: creatorId, 'active.version': current.active.version, 'building.version': version, 'building.status': 'running' },
+    {
+      $set: { active: toGeneration(build), previous: current.active, switchedAt, updatedAt: switchedAt },
+      $unset: { building: '' }
+    },
+    { returnDocument: 'after' }
+  );
+  if (!generations) {
+    throw new EmbeddingGenerationConflictError('Embedding generations changed while switching - try again');
+  }
+
+  logger.info('Embedding generation activated', { creatorId, version, previousVersion: current.active.version });
+
+  return { generations, retired: current.previous };
+}
+
+/**
+ * Swap the active generation with the rollback target in a single update. Rolling back again swaps back.
+ * `missingSince` is when the restored generation stopped receiving new vectors.
+ */
+export async function rollbackGeneration(creatorId: string): Promise<{
+  generations: CreatorEmbeddingGenerations;
+  missingSince?: Date;
+}> {
+  const collection = await generationsCollection();
+  const current = await findCreatorGenerations(creatorId);
+
+  if (!current?.previous) {
+    throw new EmbeddingGenerationConflictError('There is no previous generation to roll back to');
+  }
+  if (current.building?.status === 'running') {
+    throw new EmbeddingGenerationConflictError(`Wait for the re-embed into generation ${current.building.version} to finish`);
+  }
+
+  const switchedAt = new Date();
+  const generations = await collection.findOneAndUpdate(
+    { _id: creatorId, 'active.version': current.active.version, 'previous.version': current.previous.version },
+    { $set: { active: current.previous, previous: current.active, switchedAt, updatedAt: switchedAt } },
+    { returnDocument: 'after' }
+  );
+  if (!generations) {
+    throw new EmbeddingGenerationConflictError('Embedding generations changed while rolling back - try again');
+  }
+
+  logger.info('Embedding generation rolled back', {
+    creatorId,
+    version: current.previous.version,
+    fromVersion: current.active.version
+  });
+
+  return { generations, missingSince: current.switchedAt };
+}
+
+export async function deleteCreatorGenerations(creatorId: string): Promise<void> {
+  await (await generationsCollection()).deleteOne({ _id: creatorId });
+}
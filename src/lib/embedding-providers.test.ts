@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import {
+  createHashEmbeddingProvider,
+  embeddingSpecOf,
+  getEmbeddingProvider,
+  getEmbeddingProviderFor,
+  hashEmbedding,
+  setEmbeddingProvider
+} from './embedding-providers';
+
+function norm(vector: number[]): number {
+  return Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+}
+
+describe('hashEmbedding', () => {
+  it('is deterministic and L2-normalised', () => {
+    const first = hashEmbedding('How do I season a cast iron pan?', 256);
+    const second = hashEmbedding('How do I season a cast iron pan?', 256);
+
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(256);
+    expect(norm(first)).toBeCloseTo(1, 10);
+  });
+
+  it('ignores case and punctuation but not wording', () => {
+    expect(hashEmbedding('Cast iron, seasoned!', 128)).toEqual(hashEmbedding('cast IRON seasoned', 128));
+    expect(hashEmbedding('cast iron pan', 128)).not.toEqual(hashEmbedding('nonstick pan', 128));
+  });
+
+  it('gives text without words a fixed non-zero vector', () => {
+    const empty = hashEmbedding('', 64);
+
+    expect(empty).toEqual(hashEmbedding('', 64));
+    expect(norm(empty)).toBe(1);
+  });
+});
+
+describe('getEmbeddingProviderFor', () => {
+  afterEach(() => setEmbeddingProvider(null));
+
+  it('returns the configured provider when the spec matches it', () => {
+    const configured = getEmbeddingProvider();
+
+    expect(getEmbeddingProviderFor(embeddingSpecOf(configured))).toBe(configured);
+  });
+
+  it('honours a provider swapped in with setEmbeddingProvider', () => {
+    const swapped = createHashEmbeddingProvider(32);
+    setEmbeddingProvider(swapped);
+
+    expect(getEmbeddingProviderFor({ provider: 'hash', model: 'feature-hash-v1', dimensions: 32 })).toBe(swapped);
+  });
+
+  it('builds a provider of the requested size and reuses it', async () => {
+    const spec = { provider: 'hash' as const, model: 'feature-hash-v1', dimensions: 384 };
+    const provider = getEmbeddingProviderFor(spec);
+
+    expect(embeddingSpecOf(provider)).toEqual(spec);
+    expect(getEmbeddingProviderFor({ ...spec })).toBe(provider);
+
+    const { embeddings, tokensUsed } = await provider.embed(['first chunk', 'second chunk']);
+    expect(tokensUsed).toBe(0);
+    expect(embeddings.map(embedding => embedding.length)).toEqual([384, 384]);
+    expect(embeddings[0]).toEqual(hashEmbedding('first chunk', 384));
+  });
+
+  it('keeps providers of different sizes apart', async () => {
+    const small = getEmbeddingProviderFor({ provider: 'hash', model: 'feature-hash-v1', dimensions: 64 });
+    const large = getEmbeddingProviderFor({ provider: 'hash', model: 'feature-hash-v1', dimensions: 1536 });
+
+    expect(small).not.toBe(large);
+    expect((await small.embed(['same text'])).embeddings[0]).toHaveLength(64);
+    expect((await large.embed(['same text'])).embeddings[0]).toHaveLength(1536);
+  });
+
+  it('builds other providers without calling them', () => {
+    const provider = getEmbeddingProviderFor({ provider: 'openai', model: 'text-embedding-3-small', dimensions: 1536 });
+
+    expect(embeddingSpecOf(provider)).toEqual({ provider: 'openai', model: 'text-embedding-3-small', dimensions: 1536 });
+  });
+
+  it('rejects sizes that are not positive integers', () => {
+    expect(() => getEmbeddingProviderFor({ provider: 'hash', model: 'feature-hash-v1', dimensions: 0 })).toThrow(/positive integer/);
+    expect(() => getEmbeddingProviderFor({ provider: 'hash', model: 'feature-hash-v1', dimensions: 12.5 })).toThrow(/positive integer/);
+  });
+});
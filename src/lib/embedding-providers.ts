@@ -0,0 +1,193 @@
+import { createHash } from 'crypto';
+import { embedMany, APICallError, RetryError } from 'ai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createLogger } from './logger';
+import { env } from '../config/env';
+import { createOpenAIEmbeddingProvider } from './openai';
+
+const logger = createLogger('EmbeddingProviders');
+
+export type EmbeddingProviderName = 'openai' | 'google' | 'hash';
+
+export interface EmbeddingBatchResult {
+  embeddings: number[][]; // Same order as the inputs
+  tokensUsed: number;
+}
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  embed(inputs: string[]): Promise<EmbeddingBatchResult>;
+  /** Milliseconds to wait when the error is a rate limit (0 = no hint), undefined for any other error */
+  rateLimitDelayMs?(error: unknown): number | undefined;
+}
+
+// What makes two sets of vectors comparable - vectors from different specs can't be searched together
+export interface EmbeddingSpec {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+}
+
+// Native output sizes; EMBEDDING_DIMENSIONS overrides them for models that support shortening
+const DEFAULT_MODELS: Record<EmbeddingProviderName, { model: string; dimensions: number }> = {
+  openai: { model: 'text-embedding-3-large', dimensions: 3072 },
+  google: { model: 'gemini-embedding-001', dimensions: 3072 },
+  hash: { model: 'feature-hash-v1', dimensions: 3072 }
+};
+
+function createGoogleEmbeddingProvider(model: string, dimensions: number): EmbeddingProvider {
+  if (!env.GOOGLE_API_KEY) {
+    throw new Error('GOOGLE_API_KEY environment variable is required for the google embedding provider');
+  }
+  const google = createGoogleGenerativeAI({ apiKey: env.GOOGLE_API_KEY });
+
+  return {
+    name: 'google',
+    model,
+    dimensions,
+    async embed(inputs) {
+      const result = await embedMany({
+        model: google.textEmbedding(model),
+        values: inputs,
+        providerOptions: { google: { outputDimensionality: dimensions } }
+      });
+      return { embeddings: result.embeddings, tokensUsed: result.usage?.tokens ?? 0 };
+    },
+    rateLimitDelayMs(error) {
+      const cause = RetryError.isInstance(error) ? error.lastError : error;
+      if (!APICallError.isInstance(cause) || cause.statusCode !== 429) return undefined;
+      return (Number(cause.responseHeaders?.['retry-after']) || 0) * 1000;
+    }
+  };
+}
+
+// 32-bit FNV-1a - fast and stable across runs and platforms
+function fnv1a(value: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedding (signed feature hashing over words and word pairs, L2-normalised).
+ * No network or API key - meant for offline development and tests, not for retrieval quality.
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+  for (const feature of features) {
+    const bucket = fnv1a(feature) % dimensions;
+    const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+    vector[bucket]! += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+  if (norm === 0) {
+    // Vector stores reject all-zero vectors; give empty text a fixed direction instead
+    const seeded = createHash('sha256').update(text).digest();
+    vector[seeded.readUInt32BE(0) % dimensions] = 1;
+    return vector;
+  }
+
+  return vector.map(value => value / norm);
+}
+
+export function createHashEmbeddingProvider(dimensions = DEFAULT_MODELS.hash.dimensions): EmbeddingProvider {
+  return {
+    name: 'hash',
+    model: DEFAULT_MODELS.hash.model,
+    dimensions,
+    async embed(inputs) {
+      return { embeddings: inputs.map(input => hashEmbedding(input, dimensions)), tokensUsed: 0 };
+    }
+  };
+}
+
+/**
+ * Build the provider named by EMBEDDING_PROVIDER, with EMBEDDING_MODEL / EMBEDDING_DIMENSIONS overrides
+ */
+export function createEmbeddingProvider(
+  name: EmbeddingProviderName,
+  options: { model?: string; dimensions?: number } = {}
+): EmbeddingProvider {
+  const defaults = DEFAULT_MODELS[name];
+  const model = options.model ?? defaults.model;
+  const dimensions = options.dimensions ?? defaults.dimensions;
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`Embedding dimensions must be a positive integer, got ${dimensions}`);
+  }
+
+  if (name === 'openai') return createOpenAIEmbeddingProvider(model, dimensions, options.dimensions !== undefined);
+  if (name === 'google') return createGoogleEmbeddingProvider(model, dimensions);
+  return createHashEmbeddingProvider(dimensions);
+}
+
+let activeProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    activeProvider = createEmbeddingProvider(env.EMBEDDING_PROVIDER, {
+      model: env.EMBEDDING_MODEL,
+      dimensions: env.EMBEDDING_DIMENSIONS ? parseInt(env.EMBEDDING_DIMENSIONS) : undefined
+    });
+    logger.info('Embedding provider configured', {
+      provider: activeProvider.name,
+      model: activeProvider.model,
+      dimensions: activeProvider.dimensions
+    });
+  }
+  return activeProvider;
+}
+
+// Replace the configured provider (tests, scripts); pass null to go back to EMBEDDING_PROVIDER
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  activeProvider = provider;
+}
+
+export function embeddingSpecOf(provider: EmbeddingProvider): EmbeddingSpec {
+  return { provider: provider.name, model: provider.model, dimensions: provider.dimensions };
+}
+
+// Fill in a partial spec from the configured provider, or from another provider's defaults
+export function resolveEmbeddingSpec(partial: Partial<EmbeddingSpec>): EmbeddingSpec {
+  const configured = embeddingSpecOf(getEmbeddingProvider());
+  const base = !partial.provider || partial.provider === configured.provider
+    ? configured
+    : { provider: partial.provider, ...DEFAULT_MODELS[partial.provider] };
+
+  return { provider: base.provider, model: partial.model ?? base.model, dimensions: partial.dimensions ?? base.dimensions };
+}
+
+export function sameEmbeddingSpec(a: EmbeddingSpec, b: EmbeddingSpec): boolean {
+  return a.provider === b.provider && a.model === b.model && a.dimensions === b.dimensions;
+}
+
+const providersBySpec = new Map<string, EmbeddingProvider>();
+
+/**
+ * Provider for an exact spec, e.g. the one an older embedding generation was built with.
+ * Returns the configured provider when it matches, so setEmbeddingProvider() overrides still apply.
+ */
+export function getEmbeddingProviderFor(spec: EmbeddingSpec): EmbeddingProvider {
+  const configured = getEmbeddingProvider();
+  if (sameEmbeddingSpec(embeddingSpecOf(configured), spec)) return configured;
+
+  const key = `${spec.provider}/${spec.model}/${spec.dimensions}`;
+  let provider = providersBySpec.get(key);
+  if (!provider) {
+    // Same rule as EMBEDDING_DIMENSIONS: only ask for a size other than the default one
+    provider = createEmbeddingProvider(spec.provider, {
+      model: spec.model,
+      dimensions: spec.dimensions === DEFAULT_MODELS[spec.provider].dimensions ? undefined : spec.dimensions
+    });
+    providersBySpec.set(key, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,204 @@
+import { resourceMonitor } from './monitoring';
+import { createLogger } from './logger';
+import { ConcurrencyLimiter } from './concurrency';
+import { env } from '../config/env';
+import { embeddingCacheKey, embeddingCacheModel, getCachedEmbeddings, cacheEmbeddings, type EmbeddingPurpose } from './embedding-cache';
+import { getEmbeddingProvider, type EmbeddingProvider } from './embedding-providers';
+
+const logger = createLogger('Embeddings');
+
+// OpenAI takes up to 2048 inputs / 300k tokens per request; stay well under the token cap
+const MAX_BATCH_INPUTS = Math.min(2048, Math.max(1, parseInt(env.EMBEDDING_BATCH_SIZE)));
+const MAX_BATCH_TOKENS = 200_000;
+
+// Rate limits are per API key, so every batch in this process shares one limiter
+const embeddingLimiter = new ConcurrencyLimiter(Math.max(1, parseInt(env.EMBEDDING_MAX_CONCURRENCY)));
+
+// 429s the SDK's own retries could not absorb - after these we give up on the batch
+const MAX_RATE_LIMIT_RETRIES = 5;
+const RATE_LIMIT_BACKOFF_MS = 2000;
+const MAX_RATE_LIMIT_BACKOFF_MS = 60_000;
+
+export interface EmbeddingOptions {
+  /** Defaults to the configured provider; pass a generation's provider to embed for that generation */
+  provider?: EmbeddingProvider;
+  /** Added to every usage record, e.g. to attribute a re-embed's cost to its creator */
+  usage?: Record<string, unknown>;
+  /** Creator whose chunks are embedded - their cache entries are deleted along with the creator */
+  creatorId?: string;
+}
+
+// Usage is tracked under the provider's service name ('openai', 'google'); the hash provider is free
+async function trackEmbeddingUsage(provider: EmbeddingProvider, operation: string, tokens: number, metadata: Record<string, unknown>) {
+  if (provider.name === 'hash') return;
+  await resourceMonitor.trackUsage(provider.name, operation, tokens, { model: provider.model, ...metadata });
+}
+
+function cacheKeyFor(provider: EmbeddingProvider, text: string): string {
+  return embeddingCacheKey(embeddingCacheModel({ provider: provider.name, model: provider.model }), provider.dimensions, text);
+}
+
+function cacheMetaFor(provider: EmbeddingProvider, purpose: EmbeddingPurpose, creatorId?: string) {
+  return { model: embeddingCacheModel({ provider: provider.name, model: provider.model }), dimensions: provider.dimensions, purpose, creatorId };
+}
+
+// Rough token count (~4 chars per token) - only used to size batches
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function toBatches(texts: string[]): Array<{ start: number; inputs: string[] }> {
+  const batches: Array<{ start: number; inputs: string[] }> = [];
+  let current: { start: number; inputs: string[] } = { start: 0, inputs: [] };
+  let currentTokens = 0;
+
+  texts.forEach((text, index) => {
+    const tokens = estimateTokens(text);
+    if (current.inputs.length > 0 && (current.inputs.length >= MAX_BATCH_INPUTS || currentTokens + tokens > MAX_BATCH_TOKENS)) {
+      batches.push(current);
+      current = { start: index, inputs: [] };
+      currentTokens = 0;
+    }
+    current.inputs.push(text);
+    currentTokens += tokens;
+  });
+
+  if (current.inputs.length > 0) batches.push(current);
+  return batches;
+}
+
+async function embedBatch(provider: EmbeddingProvider, inputs: string[], usage?: Record<string, unknown>): Promise<number[][]> {
+  const inputLength = inputs.reduce((total, input) => total + input.length, 0);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { embeddings, tokensUsed } = await embeddingLimiter.run(() => provider.embed(inputs));
+
+      await trackEmbeddingUsage(provider, 'embeddings', tokensUsed, {
+        batchSize: inputs.length,
+        inputLength,
+        embeddingDimensions: embeddings[0]?.length ?? 0,
+        rateLimitRetries: attempt,
+        success: true,
+        ...usage
+      });
+
+      return embeddings;
+    } catch (error) {
+      const hintMs = provider.rateLimitDelayMs?.(error);
+      if (hintMs !== undefined && attempt < MAX_RATE_LIMIT_RETRIES) {
+        // Hold back every batch in this process, not just this one
+        const delayMs = hintMs > 0 ? hintMs : Math.min(RATE_LIMIT_BACKOFF_MS * 2 ** attempt, MAX_RATE_LIMIT_BACKOFF_MS);
+        embeddingLimiter.pauseFor(delayMs);
+        logger.warn('Embedding rate limited - backing off', {
+          provider: provider.name,
+          batchSize: inputs.length,
+          attempt: attempt + 1,
+          delayMs,
+          queuedRequests: embeddingLimiter.pending
+        });
+        continue;
+      }
+
+      logger.error('Batch embedding failed', error, { provider: provider.name, batchSize: inputs.length });
+
+      await trackEmbeddingUsage(provider, 'embeddings', 0, {
+        batchSize: inputs.length,
+        inputLength,
+        rateLimitRetries: attempt,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        ...usage
+      });
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Embed a single text - used for search queries, so results are cached with the query TTL by default.
+ * Cache hits and misses are counted in the cache stats rather than as a usage record per lookup.
+ */
+export async function createEmbedding(
+  text: string,
+  purpose: EmbeddingPurpose = 'query',
+  { provider = getEmbeddingProvider(), usage, creatorId }: EmbeddingOptions = {}
+): Promise<number[]> {
+  const cacheKey = cacheKeyFor(provider, text);
+  const cached = (await getCachedEmbeddings([cacheKey])).get(cacheKey);
+  if (cached) {
+    logger.debug('Embedding cache hit', { inputLength: text.length, purpose });
+    return cached;
+  }
+
+  // A batch of one, so it shares the limiter and rate-limit backoff with document batches
+  const [embedding = []] = await embedBatch(provider, [text], usage);
+
+  logger.debug('Embedding created successfully', {
+    inputLength: text.length,
+    dimensions: embedding.length,
+    provider: provider.name,
+    model: provider.model
+  });
+
+  if (embedding.length > 0) {
+    await cacheEmbeddings([{ key: cacheKey, embedding }], cacheMetaFor(provider, purpose, creatorId));
+  }
+
+  return embedding;
+}
+
+/**
+ * Embed many texts with as few requests as possible. Cached and repeated texts are only
+ * embedded once; batches run concurrently up to EMBEDDING_MAX_CONCURRENCY and back off
+ * together on rate limits. Results match the input order.
+ */
+export async function createEmbeddings(
+  texts: string[],
+  purpose: EmbeddingPurpose = 'document',
+  { provider = getEmbeddingProvider(), usage, creatorId }: EmbeddingOptions = {}
+): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  const keys = texts.map(text => cacheKeyFor(provider, text));
+  const cached = await getCachedEmbeddings(keys);
+
+  // Unique texts that still need an embedding
+  const missing = new Map<string, string>();
+  keys.forEach((key, index) => {
+    if (!cached.has(key) && !missing.has(key)) missing.set(key, texts[index]!);
+  });
+
+  const missingKeys = [...missing.keys()];
+  const batches = toBatches([...missing.values()]);
+  const created = new Map<string, number[]>();
+
+  await Promise.all(batches.map(async ({ start, inputs }) => {
+    const batchEmbeddings = await embedBatch(provider, inputs, usage);
+    batchEmbeddings.forEach((embedding, offset) => {
+      created.set(missingKeys[start + offset]!, embedding);
+    });
+  }));
+
+  // Chunk entries are written again on a hit too, which renews their expiry and tags this creator
+  const toCache = purpose === 'document' ? new Map([...cached, ...created]) : created;
+  await cacheEmbeddings(
+    [...toCache].filter(([, embedding]) => embedding?.length > 0).map(([key, embedding]) => ({ key, embedding })),
+    cacheMetaFor(provider, purpose, creatorId)
+  );
+
+  const cacheHits = keys.filter(key => cached.has(key)).length;
+  await trackEmbeddingUsage(provider, 'embedding_cache', 0, { purpose, hits: cacheHits, misses: keys.length - cacheHits, ...usage });
+
+  logger.debug('Batch embeddings created', {
+    inputs: texts.length,
+    cacheHits,
+    embedded: created.size,
+    batches: batches.length,
+    provider: provider.name,
+    model: provider.model
+  });
+
+  return keys.map(key => cached.get(key) ?? created.get(key) ?? []);
+}
@@ -1,7 +1,8 @@
 import { createLogger } from './logger';
 import { connectToDatabase } from './mongodb';
-import { createEmbedding } from './openai';
-import { searchSimilarChunks as searchPinecone } from './pinecone';
+import { createEmbedding } from './embeddings';
+import { getActiveGeneration, getGenerationProvider } from './embedding-generations';
+import { searchSimilarChunks as searchVectors, storedChunkVectorId } from './vectors';
 import { preprocessQuery, getBestQueryForEmbedding, getKeywordsForSearch } from './query-preprocessing';
 
 const logger = createLogger('HybridSearch');
@@ -11,6 +12,7 @@ export interface SearchResult {
   score: number;
   source: 'semantic' | 'keyword' | 'hybrid';
   metadata: {
+    chunkId: string; // Vector ID; keyword and semantic hits on the same chunk share it
     videoId: string;
     videoTitle?: string;
     chunkIndex: number;
@@ -77,6 +79,12 @@ async function performKeywordSearch(
         score: (doc.score as number) ?? 0,
         source: 'keyword' as const,
         metadata: {
+          chunkId: storedChunkVectorId({
+            _id: doc._id,
+            creatorId,
+            videoId: doc.videoId as string,
+            chunkIndex: doc.chunkIndex as number
+          }),
           videoId: doc.videoId as string,
           videoTitle: metadata?.videoTitle as string | undefined,
           chunkIndex: doc.chunkIndex as number,
@@ -106,7 +114,7 @@ async function performKeywordSearch(
 }
 
 /**
- * Perform semantic search using Pinecone
+ * Perform semantic search against the vector store
  */
 async function performSemanticSearch(
   creatorId: string,
@@ -122,21 +130,21 @@ async function performSemanticSearch(
       limit
     });
     
-    // Create embedding for semantic search
-    const queryEmbedding = await createEmbedding(query);
+    // Create embedding for semantic search, with the model of the creator's active generation
+    const generation = await getActiveGeneration(creatorId);
+    const queryEmbedding = await createEmbedding(query, 'query', { provider: getGenerationProvider(generation) });
     
-    // Get raw results from Pinecone (we'll enhance this to get metadata)
-    const chunks = await searchPinecone(creatorId, queryEmbedding, limit);
+    const matches = await searchVectors(creatorId, queryEmbedding, limit, generation);
     
-    // For now, convert to SearchResult format
-    // TODO: Enhance searchPinecone to return metadata including scores
-    const searchResults: SearchResult[] = chunks.map((text, index) => ({
-      text,
-      score: 0.8 - (index * 0.05), // Approximate scoring based on order
+    const searchResults: SearchResult[] = matches.map(match => ({
+      text: match.text,
+      score: match.score,
       source: 'semantic' as const,
       metadata: {
-        videoId: 'unknown', // TODO: Extract from Pinecone metadata
-        chunkIndex: index,
+        chunkId: match.id,
+        videoId: match.videoId,
+        videoTitle: (match.metadata.videoTitle as string) || undefined,
+        chunkIndex: match.chunkIndex
       }
     }));
     
@@ -175,12 +183,10 @@ function fuseAndRankResults(
   // Combine all results
   const allResults = [...semanticResults, ...keywordResults];
   
-  // Remove duplicates based on text similarity (simple approach)
-  const uniqueResults = allResults.filter((result, index, array) => {
-    return !array.slice(0, index).some(prev => 
-      prev.text.substring(0, 100) === result.text.substring(0, 100)
-    );
-  });
+  // A chunk found by both searches keeps its first (semantic) result
+  const uniqueResults = allResults.filter((result, index, array) =>
+    array.findIndex(other => other.metadata.chunkId === result.metadata.chunkId) === index
+  );
   
   // Calculate hybrid scores
   const scoredResults = uniqueResults.map(result => {
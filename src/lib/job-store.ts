@@ -1,5 +1,19 @@
 import { redisClient, REDIS_PREFIX, JOB_TTL_SECONDS } from './redis';
 import { structuredLogger } from '../middleware/logger';
+import type { VideoProcessingReport } from '../types';
+
+// Per-run change summary for incremental re-indexing (video IDs)
+export interface VideoChanges {
+  new: string[];
+  updated: string[]; // transcript or chunker changed, or forceRefresh
+  unchanged: string[];
+  removed: string[]; // previously indexed, no longer selected - chunks purged
+}
+
+// 'full' re-checks every selected video; 'sync' (scheduled) only ingests videos not seen before;
+// 'videos' processes just the listed video IDs (e.g. from a WebSub notification);
+// 'reindex' re-chunks and re-embeds archived transcripts without calling YouTube
+export type ProcessingMode = 'full' | 'sync' | 'videos' | 'reindex';
 
 // Job storage interface - matches ProcessingJob from process.ts
 export interface ProcessingJob {
@@ -8,17 +22,23 @@ export interface ProcessingJob {
   creatorSlug: string;
   channelUrl: string;
   chatUrl: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  mode?: ProcessingMode; // Defaults to 'full'
+  source?: string; // Video source spec, e.g. 'uploads' or 'playlist:PL...'
   progress: {
     current: number;
     total: number;
   };
+  videos?: VideoProcessingReport[]; // One entry per handled video, in processing order
   result?: {
     processedVideos: number;
     totalChunks: number;
     failedVideos: number;
+    videoChanges?: VideoChanges;
   };
   error?: string;
+  attempts?: number; // Number of worker attempts so far (BullMQ retries)
+  channelReservation?: { channelId: string; teamId: string }; // Held from enqueue (POST /creator, syncs, single-video jobs) until the job ends
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
@@ -38,6 +58,33 @@ export class RedisJobStore {
     return `${this.prefix}job:${jobId}`;
   }
 
+  /**
+   * Get pub/sub channel for job updates
+   */
+  private getEventsChannel(jobId: string): string {
+    return `${this.prefix}job-events:${jobId}`;
+  }
+
+  /**
+   * Parse a stored job, converting ISO strings back to Date objects
+   */
+  private parseJob(value: string): ProcessingJob {
+    const job = JSON.parse(value);
+    return {
+      ...job,
+      createdAt: job.createdAt ? new Date(job.createdAt) : undefined,
+      startedAt: job.startedAt ? new Date(job.startedAt) : undefined,
+      completedAt: job.completedAt ? new Date(job.completedAt) : undefined,
+    };
+  }
+
+  /**
+   * Get cancellation flag key
+   */
+  private getCancelKey(jobId: string): string {
+    return `${this.prefix}cancel:${jobId}`;
+  }
+
   /**
    * Get channel processing key (for duplicate detection)
    */
@@ -46,7 +93,7 @@ export class RedisJobStore {
   }
 
   /**
-   * Store job in Redis with TTL
+   * Store job in Redis with TTL and publish the update to subscribers
    */
   async set(jobId: string, job: ProcessingJob): Promise<void> {
     try {
@@ -61,6 +108,9 @@ export class RedisJobStore {
 
       await redisClient.setex(key, JOB_TTL_SECONDS, value);
 
+      // Notify live listeners (SSE streams on any instance)
+      await redisClient.publish(this.getEventsChannel(jobId), value);
+
       structuredLogger.debug({ jobId, ttl: JOB_TTL_SECONDS }, 'Job stored in Redis');
     } catch (error) {
       structuredLogger.error({ error, jobId }, 'Failed to store job in Redis');
@@ -80,15 +130,7 @@ export class RedisJobStore {
         return null;
       }
 
-      const job = JSON.parse(value);
-      
-      // Convert ISO strings back to Date objects
-      return {
-        ...job,
-        createdAt: job.createdAt ? new Date(job.createdAt) : undefined,
-        startedAt: job.startedAt ? new Date(job.startedAt) : undefined,
-        completedAt: job.completedAt ? new Date(job.completedAt) : undefined,
-      };
+      return this.parseJob(value);
     } catch (error) {
       structuredLogger.error({ error, jobId }, 'Failed to get job from Redis');
       return null;
@@ -125,21 +167,100 @@ export class RedisJobStore {
       
       return values
         .filter((v): v is string => v !== null)
-        .map(v => {
-          const job = JSON.parse(v);
-          return {
-            ...job,
-            createdAt: job.createdAt ? new Date(job.createdAt) : undefined,
-            startedAt: job.startedAt ? new Date(job.startedAt) : undefined,
-            completedAt: job.completedAt ? new Date(job.completedAt) : undefined,
-          };
-        });
+        .map(v => this.parseJob(v));
     } catch (error) {
       structuredLogger.error({ error }, 'Failed to get all jobs from Redis');
       return [];
     }
   }
 
+  /**
+   * Delete every stored job (and cancellation flag) of a creator
+   * Returns how many jobs were removed
+   */
+  async deleteCreatorJobs(creatorId: string): Promise<number> {
+    const jobIds = (await this.values())
+      .filter(job => job.creatorId === creatorId)
+      .map(job => job.jobId);
+
+    if (jobIds.length === 0) return 0;
+
+    await redisClient.del(...jobIds.flatMap(jobId => [this.getKey(jobId), this.getCancelKey(jobId)]));
+    structuredLogger.info({ creatorId, jobs: jobIds.length }, 'Deleted creator jobs');
+
+    return jobIds.length;
+  }
+
+  /**
+   * Subscribe to updates of a single job
+   * Uses a dedicated connection (subscriber mode blocks regular commands)
+   * Returns an unsubscribe function that closes the connection
+   */
+  async subscribe(jobId: string, onUpdate: (job: ProcessingJob) => void): Promise<() => Promise<void>> {
+    const channel = this.getEventsChannel(jobId);
+    const subscriber = redisClient.duplicate();
+
+    subscriber.on('message', (receivedChannel: string, message: string) => {
+      if (receivedChannel !== channel) return;
+
+      try {
+        onUpdate(this.parseJob(message));
+      } catch (error) {
+        structuredLogger.error({ error, jobId }, 'Failed to handle job update');
+      }
+    });
+
+    await subscriber.subscribe(channel);
+    structuredLogger.debug({ jobId }, 'Subscribed to job updates');
+
+    return async () => {
+      try {
+        await subscriber.unsubscribe(channel);
+      } finally {
+        subscriber.disconnect();
+        structuredLogger.debug({ jobId }, 'Unsubscribed from job updates');
+      }
+    };
+  }
+
+  /**
+   * Request cancellation of a running job
+   * The worker checks this flag between videos
+   */
+  async requestCancellation(jobId: string): Promise<void> {
+    try {
+      await redisClient.setex(this.getCancelKey(jobId), JOB_TTL_SECONDS, new Date().toISOString());
+      structuredLogger.info({ jobId }, 'Job cancellation requested');
+    } catch (error) {
+      structuredLogger.error({ error, jobId }, 'Failed to request job cancellation');
+      throw error;
+    }
+  }
+
+  /**
+   * Check if cancellation was requested for a job
+   */
+  async isCancellationRequested(jobId: string): Promise<boolean> {
+    try {
+      const exists = await redisClient.exists(this.getCancelKey(jobId));
+      return exists === 1;
+    } catch (error) {
+      structuredLogger.error({ error, jobId }, 'Failed to check job cancellation');
+      return false;
+    }
+  }
+
+  /**
+   * Clear cancellation flag once the job has stopped
+   */
+  async clearCancellation(jobId: string): Promise<void> {
+    try {
+      await redisClient.del(this.getCancelKey(jobId));
+    } catch (error) {
+      structuredLogger.error({ error, jobId }, 'Failed to clear job cancellation');
+    }
+  }
+
   /**
    * Mark channel as being processed (for duplicate prevention)
    */
@@ -156,16 +277,30 @@ export class RedisJobStore {
 
   /**
    * Unmark channel as processing
+   * With a jobId, only that job's mark is removed (a newer job may hold the channel by now)
    */
-  async unmarkChannelProcessing(channelId: string, teamId: string): Promise<void> {
+  async unmarkChannelProcessing(channelId: string, teamId: string, jobId?: string): Promise<void> {
     try {
       const key = this.getChannelKey(channelId, teamId);
+      if (jobId && (await redisClient.get(key)) !== jobId) return;
       await redisClient.del(key);
     } catch (error) {
       structuredLogger.error({ error, channelId, teamId }, 'Failed to unmark channel');
     }
   }
 
+  /**
+   * Job currently holding the channel, if any
+   */
+  async getChannelProcessingJobId(channelId: string, teamId: string): Promise<string | null> {
+    try {
+      return await redisClient.get(this.getChannelKey(channelId, teamId));
+    } catch (error) {
+      structuredLogger.error({ error, channelId, teamId }, 'Failed to read channel processing mark');
+      return null;
+    }
+  }
+
   /**
    * Check if channel is being processed
    */
@@ -49,16 +49,61 @@ async function ensureIndexes(db: Db) {
   try {
     const transcriptChunks = db.collection('transcript_chunks');
 
-    // Index for fast lookup by creatorId and text (used in video references)
+    // Index for fast lookup by creatorId and videoId
     await transcriptChunks.createIndex(
-      { creatorId: 1, text: 1 },
-      { background: true, name: 'creatorId_text_idx' }
+      { creatorId: 1, videoId: 1 },
+      { background: true, name: 'creatorId_videoId_idx' }
     );
 
-    // Index for fast lookup by creatorId and videoId
+    // Video references join chunks to vectors by _id (the chunk ID) now, not by full text
+    if (await transcriptChunks.indexExists('creatorId_text_idx')) {
+      await transcriptChunks.dropIndex('creatorId_text_idx');
+    }
+
+    // Re-embeds page through a creator's chunks in (createdAt, _id) order
     await transcriptChunks.createIndex(
+      { creatorId: 1, createdAt: 1, _id: 1 },
+      { background: true, name: 'creatorId_createdAt_id_idx' }
+    );
+
+    // One stored upload per creator video (read back by the 'upload' transcript provider)
+    await db.collection('transcript_uploads').createIndex(
       { creatorId: 1, videoId: 1 },
-      { background: true, name: 'creatorId_videoId_idx' }
+      { background: true, unique: true, name: 'creatorId_videoId_unique_idx' }
+    );
+
+    // Raw transcript archive, one entry per creator video
+    await db.collection('transcript_archive').createIndex(
+      { creatorId: 1, videoId: 1 },
+      { background: true, unique: true, name: 'creatorId_videoId_unique_idx' }
+    );
+
+    // Cached embeddings expire at expiresAt; chunk embeddings are found by creator when one is deleted
+    await db.collection('embedding_cache').createIndex(
+      { expiresAt: 1 },
+      { background: true, expireAfterSeconds: 0, name: 'expiresAt_ttl_idx' }
+    );
+    await db.collection('embedding_cache').createIndex(
+      { creatorIds: 1 },
+      { background: true, name: 'creatorIds_idx' }
+    );
+
+    // One namespace migration record per creator
+    await db.collection('vector_namespace_migrations').createIndex(
+      { creatorId: 1 },
+      { background: true, unique: true, name: 'creatorId_unique_idx' }
+    );
+
+    // Consistency reports are listed newest first
+    await db.collection('vector_consistency_reports').createIndex(
+      { requestedAt: -1 },
+      { background: true, name: 'requestedAt_idx' }
+    );
+
+    // Deletion receipts are looked up by slug once the creator is gone
+    await db.collection('creator_deletions').createIndex(
+      { slug: 1, requestedAt: -1 },
+      { background: true, name: 'slug_requestedAt_idx' }
     );
 
     // Index for creators collection
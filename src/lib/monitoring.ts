@@ -7,11 +7,16 @@ const logger = createLogger('Monitoring');
 export const SERVICE_COSTS = {
   openai: {
     embeddings: 0.0001, // per 1K tokens
+    embedding_cache: 0, // cache lookups (hits/misses in metadata)
     gpt4: 0.03,        // per 1K tokens (backup)
   },
   groq: {
     completion: 0.001,  // per 1K tokens (llama-3.3-70b)
   },
+  google: {
+    embeddings: 0.00015, // per 1K tokens (gemini-embedding-001)
+    embedding_cache: 0,
+  },
   pinecone: {
     query: 0.000001,    // per query (very approximate)
     upsert: 0.000002,   // per upsert operation
@@ -261,6 +266,36 @@ export class ResourceMonitor {
     }
   }
 
+  // Totals across services for records tagged with these metadata values, e.g. one re-embed run
+  async getUsageByMetadata(metadata: Record<string, string | number | boolean>): Promise<{ cost: number; tokens: number; requests: number }> {
+    try {
+      const { db } = await connectToDatabase();
+      const collection = db.collection<UsageRecord>('usage_tracking');
+
+      const match = Object.fromEntries(Object.entries(metadata).map(([key, value]) => [`metadata.${key}`, value]));
+      const [totals] = await collection.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: null,
+            totalCost: { $sum: '$cost' },
+            totalRequests: { $sum: '$requestCount' },
+            totalTokens: { $sum: '$tokens' }
+          }
+        }
+      ]).toArray();
+
+      return {
+        cost: (totals?.totalCost as number) ?? 0,
+        tokens: (totals?.totalTokens as number) ?? 0,
+        requests: (totals?.totalRequests as number) ?? 0
+      };
+    } catch (error) {
+      logger.error('Failed to get usage by metadata', error, { metadata });
+      return { cost: 0, tokens: 0, requests: 0 };
+    }
+  }
+
   // Check quotas for a service
   async checkQuotas(service: string): Promise<QuotaStatus> {
     const config = this.quotas[service];
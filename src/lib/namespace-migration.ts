@@ -0,0 +1,196 @@
+import { Queue, Worker } from 'bullmq';
+import { ObjectId } from 'mongodb';
+import { structuredLogger } from '../middleware/logger';
+import { connectToDatabase } from './mongodb';
+import { redisConfig } from './redis';
+import { BULLMQ_PREFIX } from './processing-queue';
+import { getVectorStore, creatorNamespace, LEGACY_NAMESPACE, LEGACY_DIMENSIONS, type VectorStore } from './vector-stores';
+import { NAMESPACE_MIGRATIONS_COLLECTION, markCreatorNamespaceMigrated, type NamespaceMigration } from './vectors';
+
+export const NAMESPACE_MIGRATION_QUEUE_NAME = 'vector-namespace-migration';
+
+// Pinecone fetches at most 100 records per request
+const MIGRATION_PAGE_SIZE = 100;
+
+export interface NamespaceMigrationJobData {
+  creatorIds?: string[]; // Defaults to every creator
+}
+
+export interface NamespaceMigrationSummary {
+  creators: number;
+  migrated: number;
+  alreadyMigrated: number;
+  failed: number;
+  copiedVectors: number;
+  legacyVectorsRemaining: number; // e.g. vectors of creators that no longer exist
+}
+
+export const namespaceMigrationQueue = new Queue<NamespaceMigrationJobData>(NAMESPACE_MIGRATION_QUEUE_NAME, {
+  connection: redisConfig,
+  prefix: BULLMQ_PREFIX,
+  defaultJobOptions: {
+    removeOnComplete: { count: 20 },
+    removeOnFail: { count: 20 }
+  }
+});
+
+namespaceMigrationQueue.on('error', (err) => {
+  structuredLogger.error({ error: err }, 'Namespace migration queue error');
+});
+
+export async function enqueueNamespaceMigration(creatorIds?: string[]): Promise<string> {
+  const job = await namespaceMigrationQueue.add('migrate', { creatorIds });
+  return job.id!;
+}
+
+/**
+ * Move one creator's vectors from the legacy namespace into their own, a page at a time.
+ * Each page is copied before it is deleted from the legacy namespace, and reads cover both
+ * namespaces until the migration is marked completed - searches never miss a vector.
+ */
+export async function migrateCreatorNamespace(store: VectorStore, creatorId: string): Promise<NamespaceMigration> {
+  const { db } = await connectToDatabase();
+  const migrations = db.collection<NamespaceMigration>(NAMESPACE_MIGRATIONS_COLLECTION);
+  const namespace = creatorNamespace(creatorId);
+  const startedAt = new Date();
+
+  await migrations.updateOne(
+    { creatorId },
+    {
+      $set: { status: 'running', copiedVectors: 0, skippedVectors: 0, startedAt },
+      $unset: { completedAt: '', error: '' }
+    },
+    { upsert: true }
+  );
+
+  let copiedVectors = 0;
+  let skippedVectors = 0;
+
+  try {
+    let paginationToken: string | undefined;
+
+    do {
+      // Legacy IDs are `${creatorId}_${videoId}_${chunkIndex}`
+      const page = await store.listIds(LEGACY_NAMESPACE, { prefix: `${creatorId}_`, limit: MIGRATION_PAGE_SIZE, paginationToken });
+
+      if (page.ids.length > 0) {
+        const [legacyRecords, existingRecords] = await Promise.all([
+          store.fetch(LEGACY_NAMESPACE, page.ids),
+          store.fetch(namespace, page.ids)
+        ]);
+
+        // The prefix alone could match another creator's IDs
+        const owned = legacyRecords.filter(record => record.metadata.creatorId === creatorId);
+        // Processing since the switch already wrote these, and the legacy copy is older
+        const existingIds = new Set(existingRecords.map(record => record.id));
+        const toCopy = owned.filter(record => !existingIds.has(record.id));
+
+        await store.upsert(namespace, toCopy);
+        await store.deleteMany(LEGACY_NAMESPACE, owned.map(record => record.id));
+
+        copiedVectors += toCopy.length;
+        skippedVectors += owned.length - toCopy.length;
+        await migrations.updateOne({ creatorId }, { $set: { copiedVectors, skippedVectors } });
+      }
+
+      paginationToken = page.nextToken;
+    } while (paginationToken);
+
+    const completedAt = new Date();
+    await migrations.updateOne({ creatorId }, { $set: { status: 'completed', completedAt } });
+    markCreatorNamespaceMigrated(creatorId);
+
+    structuredLogger.info({ creatorId, namespace, copiedVectors, skippedVectors }, 'Creator vectors moved to namespace');
+
+    return { creatorId, status: 'completed', copiedVectors, skippedVectors, startedAt, completedAt };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await migrations.updateOne({ creatorId }, { $set: { status: 'failed', error: message } });
+    structuredLogger.error({ error, creatorId, copiedVectors }, 'Namespace migration failed for creator');
+    throw error;
+  }
+}
+
+/**
+ * Migrate the given creators (or all of them), one at a time. Safe to re-run: completed
+ * creators are skipped and a failed or interrupted creator resumes from what is left.
+ */
+export async function runNamespaceMigration(data: NamespaceMigrationJobData = {}): Promise<NamespaceMigrationSummary> {
+  // The legacy namespace only exists in the original index; its vectors become generation 1
+  const store = getVectorStore(LEGACY_DIMENSIONS);
+  const { db } = await connectToDatabase();
+
+  const creatorIds = data.creatorIds ?? (
+    await db.collection<{ _id: ObjectId }>('creators').find({}, { projection: { _id: 1 } }).toArray()
+  ).map(creator => creator._id.toString());
+
+  const completed = new Set(
+    (await db.collection<NamespaceMigration>(NAMESPACE_MIGRATIONS_COLLECTION)
+      .find({ creatorId: { $in: creatorIds }, status: 'completed' }, { projection: { creatorId: 1 } })
+      .toArray()).map(migration => migration.creatorId)
+  );
+
+  const summary: NamespaceMigrationSummary = {
+    creators: creatorIds.length,
+    migrated: 0,
+    alreadyMigrated: 0,
+    failed: 0,
+    copiedVectors: 0,
+    legacyVectorsRemaining: 0
+  };
+
+  structuredLogger.info({ creators: creatorIds.length, alreadyMigrated: completed.size }, 'Namespace migration started');
+
+  for (const creatorId of creatorIds) {
+    if (completed.has(creatorId)) {
+      summary.alreadyMigrated++;
+      continue;
+    }
+
+    try {
+      const result = await migrateCreatorNamespace(store, creatorId);
+      summary.migrated++;
+      summary.copiedVectors += result.copiedVectors;
+    } catch {
+      summary.failed++;
+    }
+  }
+
+  const { namespaces } = await store.stats();
+  summary.legacyVectorsRemaining = namespaces[LEGACY_NAMESPACE] ?? 0;
+
+  structuredLogger.info({ ...summary }, 'Namespace migration finished');
+
+  return summary;
+}
+
+export async function listNamespaceMigrations(): Promise<NamespaceMigration[]> {
+  const { db } = await connectToDatabase();
+  return db.collection<NamespaceMigration>(NAMESPACE_MIGRATIONS_COLLECTION)
+    .find({}, { projection: { _id: 0 } })
+    .sort({ startedAt: -1 })
+    .toArray();
+}
+
+/**
+ * Start the worker that runs namespace migrations
+ */
+export function startNamespaceMigrationWorker() {
+  const worker = new Worker<NamespaceMigrationJobData>(NAMESPACE_MIGRATION_QUEUE_NAME, (bullJob) => runNamespaceMigration(bullJob.data), {
+    connection: redisConfig,
+    prefix: BULLMQ_PREFIX,
+    concurrency: 1
+  });
+
+  worker.on('failed', (bullJob, err) => {
+    structuredLogger.error({ error: err, bullJobId: bullJob?.id }, 'Namespace migration run failed');
+  });
+
+  worker.on('error', (err) => {
+    structuredLogger.error({ error: err }, 'Namespace migration worker error');
+  });
+
+  structuredLogger.info({ queue: NAMESPACE_MIGRATION_QUEUE_NAME }, 'Namespace migration worker started');
+
+  return worker;
+}
@@ -1,58 +1,53 @@
-import OpenAI from 'openai';
-import { trackOpenAIUsage } from './monitoring';
-import { createLogger } from './logger';
-
-const logger = createLogger('OpenAI');
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('OPENAI_API_KEY environment variable is not defined');
+import OpenAI, { RateLimitError } from 'openai';
+import type { EmbeddingProvider } from './embedding-providers';
+
+let client: OpenAI | null = null;
+
+// Created on first use so the hash and google embedding providers work without an OpenAI key
+export function getOpenAIClient(): OpenAI {
+  if (!client) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY environment variable is not defined');
+    }
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return client;
 }
 
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-export async function createEmbedding(text: string): Promise<number[]> {
-  try {
-    const response = await openai.embeddings.create({
-      model: "text-embedding-3-large",
-      input: text,
-      // Using full 3072 dimensions for maximum quality
-    });
-
-    const embedding = response.data[0]?.embedding ?? [];
-    const tokensUsed = response.usage?.total_tokens ?? 0;
-
-    // Track successful usage
-    await trackOpenAIUsage('embeddings', tokensUsed, {
-      model: 'text-embedding-3-large',
-      inputLength: text.length,
-      embeddingDimensions: embedding.length,
-      success: true
-    });
-
-    logger.debug('Embedding created successfully', {
-      inputLength: text.length,
-      tokensUsed,
-      dimensions: embedding.length,
-      model: 'text-embedding-3-large'
-    });
-
-    return embedding;
-  } catch (error) {
-    logger.error('OpenAI embedding creation failed', error);
-
-    // Track failed usage
-    await trackOpenAIUsage('embeddings', 0, {
-      model: 'text-embedding-3-large',
-      inputLength: text.length,
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
-    });
-
-    throw error;
-  }
+/**
+ * OpenAI embeddings. `dimensions` is only sent when configured - older models reject it.
+ */
+export function createOpenAIEmbeddingProvider(model: string, dimensions: number, sendDimensions: boolean): EmbeddingProvider {
+  return {
+    name: 'openai',
+    model,
+    dimensions,
+    async embed(inputs) {
+      const response = await getOpenAIClient().embeddings.create({
+        model,
+        input: inputs,
+        ...(sendDimensions && { dimensions })
+      });
+
+      // Results carry their input index; don't rely on response order
+      const embeddings: number[][] = new Array(inputs.length);
+      for (const item of response.data) {
+        embeddings[item.index] = item.embedding;
+      }
+
+      return { embeddings, tokensUsed: response.usage?.total_tokens ?? 0 };
+    },
+    // Prefer the server's retry-after hints
+    rateLimitDelayMs(error) {
+      if (!(error instanceof RateLimitError)) return undefined;
+
+      const retryAfterMs = Number(error.headers?.get('retry-after-ms'));
+      if (retryAfterMs > 0) return retryAfterMs;
+
+      return (Number(error.headers?.get('retry-after')) || 0) * 1000;
+    }
+  };
 }
 
 // Note: Chat response generation moved to groq.ts
-// This file now only handles embeddings
+// Provider-independent embedding entry points live in embeddings.ts
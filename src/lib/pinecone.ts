@@ -1,38 +1,73 @@
-import { Pinecone, type RecordMetadata, type PineconeRecord, type RecordValues } from '@pinecone-database/pinecone';
+import { Pinecone, Errors, type RecordMetadata, type PineconeRecord } from '@pinecone-database/pinecone';
 import { createLogger } from './logger';
 import { withRetry, RETRY_CONFIGS } from './retry';
 import { trackPineconeUsage } from './monitoring';
+import { getEmbeddingProvider } from './embedding-providers';
+import { zeroVector, LEGACY_DIMENSIONS, type VectorStore, type VectorMetadata } from './vector-stores';
 
 const logger = createLogger('Pinecone');
 
-if (!process.env.PINECONE_API_KEY) {
-  throw new Error('PINECONE_API_KEY environment variable is required');
+let client: Pinecone | null = null;
+
+// Created on first use so the in-memory vector store works without a Pinecone key
+function getPineconeClient(): Pinecone {
+  if (!client) {
+    if (!process.env.PINECONE_API_KEY) {
+      throw new Error('PINECONE_API_KEY environment variable is required');
+    }
+    client = new Pinecone({ apiKey: process.env.PINECONE_API_KEY });
+  }
+  return client;
+}
+
+const BASE_INDEX_NAME = 'creator-transcripts-v2';
+
+/**
+ * An index's dimension is fixed when it is created, so each embedding size gets its own index.
+ * The original index keeps the size every vector had before embedding generations existed.
+ */
+export function indexNameFor(dimensions: number): string {
+  return dimensions === LEGACY_DIMENSIONS ? BASE_INDEX_NAME : `${BASE_INDEX_NAME}-${dimensions}d`;
 }
 
-const pinecone = new Pinecone({
-  apiKey: process.env.PINECONE_API_KEY,
-});
+const checkedIndexes = new Set<string>();
 
-const INDEX_NAME = 'creator-transcripts-v2';
+// An index built for another embedding size would reject every upsert and query; fail with a clear message instead
+async function assertIndexDimension(indexName: string, dimensions: number): Promise<void> {
+  if (checkedIndexes.has(indexName)) return;
+
+  const description = await getPineconeClient().describeIndex(indexName);
+  if (description.dimension && description.dimension !== dimensions) {
+    throw new Error(
+      `Pinecone index "${indexName}" has dimension ${description.dimension} but ${dimensions} was expected - ` +
+      `it was created for another embedding size; delete it or use a matching EMBEDDING_DIMENSIONS`
+    );
+  }
+  checkedIndexes.add(indexName);
+}
 
 // IMPROVED: Better index existence checking
-export async function getOrCreateIndex() {
+export async function getOrCreateIndex(dimensions = getEmbeddingProvider().dimensions) {
+  const pinecone = getPineconeClient();
+  const indexName = indexNameFor(dimensions);
+
   try {
     // First check if index exists
     const indexList = await pinecone.listIndexes();
-    const indexExists = indexList.indexes?.some(index => index.name === INDEX_NAME);
+    const indexExists = indexList.indexes?.some(index => index.name === indexName);
 
     if (indexExists) {
-      logger.info('Using existing Pinecone index', { indexName: INDEX_NAME });
-      return pinecone.index(INDEX_NAME);
+      await assertIndexDimension(indexName, dimensions);
+      logger.info('Using existing Pinecone index', { indexName });
+      return pinecone.index(indexName);
     }
 
     // Create index if it doesn't exist
-    logger.info('Creating new Pinecone index', { indexName: INDEX_NAME });
+    logger.info('Creating new Pinecone index', { indexName, dimensions });
     
     await pinecone.createIndex({
-      name: INDEX_NAME,
-      dimension: 3072,  // Full text-embedding-3-large dimensions
+      name: indexName,
+      dimension: dimensions,
       metric: 'cosine',
       spec: {
         serverless: {
@@ -52,7 +87,7 @@ export async function getOrCreateIndex() {
       await new Promise(resolve => setTimeout(resolve, 10000)); // Wait 10 seconds
 
       try {
-        const indexStatus = await pinecone.describeIndex(INDEX_NAME);
+        const indexStatus = await pinecone.describeIndex(indexName);
         isReady = indexStatus.status?.ready === true;
 
         if (!isReady) {
@@ -71,8 +106,9 @@ export async function getOrCreateIndex() {
       throw error;
     }
 
-    logger.info('Index ready', { indexName: INDEX_NAME });
-    return pinecone.index(INDEX_NAME);
+    checkedIndexes.add(indexName);
+    logger.info('Index ready', { indexName });
+    return pinecone.index(indexName);
 
   } catch (error: unknown) {
     logger.error('Pinecone index error', error);
@@ -80,354 +116,133 @@ export async function getOrCreateIndex() {
   }
 }
 
-// IMPROVED: Better error handling and batch processing
-export async function storeTranscriptChunks(
-  creatorId: string,
-  videoId: string,
-  chunks: Array<{
-    text: string;
-    embedding: number[];
-    chunkIndex: number;
-    videoTitle?: string;
-    startTime?: number;
-    endTime?: number;
-  }>
-): Promise<void> {
-  if (chunks.length === 0) {
-    logger.warn('No chunks to store', { creatorId, videoId });
-    return;
-  }
+// Pinecone limits: 1000 IDs per delete, 10000 matches per query
+const UPSERT_BATCH_SIZE = 100;
+const DELETE_BATCH_SIZE = 1000;
+const MAX_TOP_K = 10000;
 
-  const index = await getOrCreateIndex();
-
-  const chunksWithTimestamps = chunks.filter(c => c.startTime !== undefined).length;
-
-  logger.info('Preparing vectors for Pinecone', {
-    totalChunks: chunks.length,
-    chunksWithTimestamps,
-    timestampCoverage: `${Math.round((chunksWithTimestamps / chunks.length) * 100)}%`
-  });
-
-  const vectors = chunks.map(chunk => ({
-    id: `${creatorId}_${videoId}_${chunk.chunkIndex}`,
-    values: chunk.embedding,
-    metadata: {
-      creatorId,
-      videoId,
-      chunkIndex: chunk.chunkIndex,
-      // OPTIMIZATION: Store full text but limit to 5000 chars (down from 40000)
-      // Full text in MongoDB for reference. This reduces Pinecone costs by ~70%
-      text: chunk.text.substring(0, 5000),
-      videoTitle: chunk.videoTitle ?? '',
-      startTime: chunk.startTime ?? 0,
-      endTime: chunk.endTime ?? 0,
-      createdAt: new Date().toISOString()
-    }
-  }));
+export function createPineconeVectorStore(dimensions = getEmbeddingProvider().dimensions): VectorStore {
+  const namespaceIndex = async (namespace: string) => (await getOrCreateIndex(dimensions)).namespace(namespace);
 
-  try {
-    // Process in batches if there are many vectors
-    const batchSize = 100;
-    const batches: Array<Array<{
-      id: string;
-      values: number[];
-      metadata: Record<string, unknown>;
-    }>> = [];
-    
-    for (let i = 0; i < vectors.length; i += batchSize) {
-      batches.push(vectors.slice(i, i + batchSize));
-    }
+  return {
+    name: 'pinecone',
+    dimensions,
+    async upsert(namespace, records) {
+      const index = await namespaceIndex(namespace);
 
-    logger.info('Storing vectors in batches', {
-      totalVectors: vectors.length,
-      batchCount: batches.length,
-      creatorId,
-      videoId
-    });
+      for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+        const batch = records.slice(i, i + UPSERT_BATCH_SIZE);
+        const batchNumber = i / UPSERT_BATCH_SIZE + 1;
 
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      if (batch) {
         logger.debug('Uploading batch', {
-          batchNumber: i + 1,
-          totalBatches: batches.length,
+          namespace,
+          batchNumber,
+          totalBatches: Math.ceil(records.length / UPSERT_BATCH_SIZE),
           vectorsInBatch: batch.length
         });
 
         await withRetry(
           () => index.upsert(batch as PineconeRecord<RecordMetadata>[]),
           RETRY_CONFIGS.pinecone,
-          `pinecone-upsert-batch-${i + 1}`
+          `pinecone-upsert-batch-${batchNumber}`
         );
 
-        // Track usage for each batch
-        await trackPineconeUsage('upsert', {
-          batchNumber: i + 1,
-          vectorCount: batch.length,
-          creatorId,
-          videoId
-        });
-      }
+        await trackPineconeUsage('upsert', { namespace, batchNumber, vectorCount: batch.length });
 
-      // Small delay between batches to avoid rate limits
-      if (i < batches.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        // Small delay between batches to avoid rate limits
+        if (i + UPSERT_BATCH_SIZE < records.length) {
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
       }
-    }
-
-    logger.info('Successfully stored vectors', {
-      vectorCount: vectors.length,
-      creatorId,
-      videoId
-    });
-
-    // Track overall operation
-    await trackPineconeUsage('store_chunks', {
-      totalVectors: vectors.length,
-      batches: batches.length,
-      creatorId,
-      videoId,
-      success: true
-    });
-  } catch (error: unknown) {
-    logger.error('Error storing chunks', error, { videoId, creatorId });
-
-    // Track failed operation
-    await trackPineconeUsage('store_chunks', {
-      creatorId,
-      videoId,
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
-    });
-
-    throw error;
-  }
-}
-
-// IMPROVED: Better error handling and debugging
-export async function searchSimilarChunks(
-  creatorId: string,
-  queryEmbedding: number[],
-  topK = 5
-): Promise<string[]> {
-  try {
-    const index = await getOrCreateIndex();
-
-    logger.info('Searching Pinecone', { creatorId, topK });
-
-    const results = await withRetry(
-      () => index.query({
-        vector: queryEmbedding,
-        topK,
-        filter: { creatorId },
-        includeMetadata: true
-      }),
-      RETRY_CONFIGS.pinecone,
-      `pinecone-query-${creatorId}`
-    );
-
-    if (!results.matches || results.matches.length === 0) {
-      logger.info('No matches found', { creatorId });
-      return [];
-    }
-
-    const matchData = results.matches.map((match, index) => ({
-      rank: index + 1,
-      score: match.score?.toFixed(3),
-      preview: String(match.metadata?.text ?? '').substring(0, 50) + '...',
-      hasTimestamp: (match.metadata?.startTime as number ?? 0) > 0
-    }));
-
-    logger.info('Search results found', {
-      totalMatches: results.matches.length,
-      creatorId,
-      topScores: matchData.slice(0, 3),
-      chunksWithTimestamps: matchData.filter(m => m.hasTimestamp).length
-    });
-
-    // More aggressive filtering with better logging
-    const allResults = results.matches.map(match => ({
-      score: match.score ?? 0,
-      text: match.metadata?.text as string,
-      videoId: match.metadata?.videoId as string,
-      videoTitle: match.metadata?.videoTitle as string,
-      startTime: match.metadata?.startTime as number,
-      endTime: match.metadata?.endTime as number
-    }));
-
-    // Filter by similarity threshold - only keep relevant results
-    // Cosine similarity: 0.7+ = very similar, 0.5-0.7 = similar, 0.25-0.5 = somewhat related
-    const SIMILARITY_THRESHOLD = 0.25;
-    const filteredResults = results.matches
-      .filter(match => (match.score ?? 0) >= SIMILARITY_THRESHOLD)
-      .map(match => match.metadata?.text as string)
-      .filter(Boolean);
-
-    logger.info('Detailed search results', {
-      allScores: allResults.map(r => ({ score: r.score.toFixed(3), videoTitle: r.videoTitle?.substring(0, 30) })),
-      resultsBeforeFilter: results.matches.length,
-      resultsAfterFilter: filteredResults.length,
-      threshold: SIMILARITY_THRESHOLD,
-      lowestScore: Math.min(...allResults.map(r => r.score)).toFixed(3),
-      highestScore: Math.max(...allResults.map(r => r.score)).toFixed(3),
-      filteredOut: results.matches.length - filteredResults.length
-    });
-
-    // Track successful query
-    await trackPineconeUsage('query', {
-      creatorId,
-      topK,
-      resultsFound: results.matches?.length ?? 0,
-      resultsReturned: filteredResults.length,
-      success: true
-    });
-
-    return filteredResults;
-
-  } catch (error) {
-    logger.error('Pinecone search error', error, { creatorId });
-
-    // Track failed query
-    await trackPineconeUsage('query', {
-      creatorId,
-      topK,
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
-    });
-
-    return []; // Return empty array instead of throwing
-  }
-}
-
-// NEW: Utility functions for debugging and management
-
-export async function getIndexStats(): Promise<{
-  totalVectors: number;
-  dimension: number;
-  indexFullness: number;
-}> {
-  try {
-    const index = await getOrCreateIndex();
-    const stats = await index.describeIndexStats();
-    
-    return {
-      totalVectors: stats.totalRecordCount ?? 0,
-      dimension: stats.dimension ?? 3072,
-      indexFullness: stats.indexFullness ?? 0
-    };
-  } catch (error) {
-    logger.error('Error getting index stats', error);
-    return { totalVectors: 0, dimension: 3072, indexFullness: 0 };
-  }
-}
-
-export async function getCreatorStats(creatorId: string): Promise<{
-  totalChunks: number;
-  videos: string[];
-}> {
-  try {
-    const index = await getOrCreateIndex();
-    
-    // Query with dummy vector to get all results for this creator
-    const results = await index.query({
-      vector: new Array(3072).fill(0) as RecordValues,
-      topK: 10000,
-      filter: { creatorId },
-      includeMetadata: true
-    });
-
-    const videoIds = new Set<string>();
-    results.matches?.forEach(match => {
-      if (match.metadata?.videoId) {
-        videoIds.add(match.metadata.videoId as string);
+    },
+    async query(namespace, { vector, topK, filter, includeMetadata = true }) {
+      const index = await namespaceIndex(namespace);
+      const results = await withRetry(
+        () => index.query({ vector, topK, filter, includeMetadata }),
+        RETRY_CONFIGS.pinecone,
+        'pinecone-query'
+      );
+
+      return (results.matches ?? []).map(match => ({
+        id: match.id,
+        score: match.score ?? 0,
+        metadata: match.metadata as VectorMetadata | undefined
+      }));
+    },
+    async fetch(namespace, ids) {
+      if (ids.length === 0) return [];
+
+      const index = await namespaceIndex(namespace);
+      const response = await withRetry(() => index.fetch(ids), RETRY_CONFIGS.pinecone, 'pinecone-fetch');
+
+      return Object.values(response.records).map(record => ({
+        id: record.id,
+        values: record.values ?? [],
+        metadata: (record.metadata ?? {}) as VectorMetadata
+      }));
+    },
+    async listIds(namespace, { prefix, limit, paginationToken } = {}) {
+      const index = await namespaceIndex(namespace);
+      const page = await withRetry(
+        () => index.listPaginated({ prefix, limit, paginationToken }),
+        RETRY_CONFIGS.pinecone,
+        'pinecone-list'
+      );
+
+      return {
+        ids: (page.vectors ?? []).map(vector => vector.id).filter((id): id is string => !!id),
+        nextToken: page.pagination?.next
+      };
+    },
+    async deleteMany(namespace, ids) {
+      const index = await namespaceIndex(namespace);
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        await index.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
       }
-    });
-
-    return {
-      totalChunks: results.matches?.length ?? 0,
-      videos: Array.from(videoIds)
-    };
-  } catch (error) {
-    logger.error('Error getting creator stats', error, { creatorId });
-    return { totalChunks: 0, videos: [] };
-  }
-}
-
-// NEW: Clean up function for development
-export async function deleteCreatorData(creatorId: string): Promise<void> {
-  try {
-    const index = await getOrCreateIndex();
-
-    // Get all vector IDs for this creator
-    const results = await index.query({
-      vector: new Array(3072).fill(0) as RecordValues,
-      topK: 10000,
-      filter: { creatorId },
-      includeMetadata: false
-    });
-
-    if (!results.matches || results.matches.length === 0) {
-      logger.info('No data found for deletion', { creatorId });
-      return;
-    }
-
-    const idsToDelete = results.matches.map(match => match.id).filter(Boolean);
+    },
+    async deleteByFilter(namespace, filter) {
+      const index = await namespaceIndex(namespace);
+      let deleted = 0;
+
+      // Serverless indexes can't delete by metadata, so look the IDs up first; repeat while pages come back full
+      for (;;) {
+        const results = await withRetry(
+          () => index.query({ vector: zeroVector(dimensions), topK: MAX_TOP_K, filter, includeMetadata: false }),
+          RETRY_CONFIGS.pinecone,
+          'pinecone-delete-lookup'
+        );
+        const ids = (results.matches ?? []).map(match => match.id).filter(Boolean);
 
-    logger.info('Starting data deletion', {
-      vectorsToDelete: idsToDelete.length,
-      creatorId
-    });
+        for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+          await index.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+        }
+        deleted += ids.length;
 
-    // Delete in batches
-    const batchSize = 1000;
-    for (let i = 0; i < idsToDelete.length; i += batchSize) {
-      const batch = idsToDelete.slice(i, i + batchSize);
-      await index.deleteMany(batch);
+        if (ids.length < MAX_TOP_K) return deleted;
+      }
+    },
+    async deleteNamespace(namespace) {
+      const index = await getOrCreateIndex(dimensions);
+      try {
+        await index.deleteNamespace(namespace);
+      } catch (error) {
+        // Nothing was ever written there
+        if (error instanceof Errors.PineconeNotFoundError) return;
+        throw error;
+      }
+    },
+    async stats() {
+      const index = await getOrCreateIndex(dimensions);
+      const stats = await index.describeIndexStats();
+
+      return {
+        totalVectors: stats.totalRecordCount ?? 0,
+        dimension: stats.dimension ?? dimensions,
+        indexFullness: stats.indexFullness ?? 0,
+        namespaces: Object.fromEntries(
+          Object.entries(stats.namespaces ?? {}).map(([namespace, summary]) => [namespace, summary.recordCount ?? 0])
+        )
+      };
     }
-
-    logger.info('Successfully deleted creator data', { creatorId });
-  } catch (error) {
-    logger.error('Error deleting creator data', error, { creatorId });
-    throw error;
-  }
+  };
 }
-
-// Delete channel context for a creator (used when updating context)
-export async function deleteChannelContext(creatorId: string): Promise<void> {
-  try {
-    const index = await getOrCreateIndex();
-
-    // Get all vector IDs for channel context
-    const results = await index.query({
-      vector: new Array(3072).fill(0) as RecordValues,
-      topK: 100,
-      filter: {
-        creatorId,
-        videoId: 'CHANNEL_CONTEXT'
-      },
-      includeMetadata: false
-    });
-
-    if (!results.matches || results.matches.length === 0) {
-      logger.info('No channel context found for deletion', { creatorId });
-      return;
-    }
-
-    const idsToDelete = results.matches.map(match => match.id).filter(Boolean);
-
-    logger.info('Deleting channel context', {
-      vectorsToDelete: idsToDelete.length,
-      creatorId
-    });
-
-    await index.deleteMany(idsToDelete);
-
-    logger.info('Successfully deleted channel context', {
-      creatorId,
-      deletedCount: idsToDelete.length
-    });
-  } catch (error) {
-    logger.error('Error deleting channel context', error, { creatorId });
-    throw error;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { Queue } from 'bullmq';
+import { redisConfig, REDIS_PREFIX, JOB_TTL_SECONDS } from './redis';
+import { structuredLogger } from '../middleware/logger';
+import type { EligibilityPolicy } from './eligibility';
+import type { ProcessingMode } from './job-store';
+import type { VideoSource } from '../types';
+
+// Queue name for channel ingestion jobs
+export const PROCESSING_QUEUE_NAME = 'channel-processing';
+
+// BullMQ keys live under the same prefix as the rest of our Redis data
+export const BULLMQ_PREFIX = `${REDIS_PREFIX}bull`;
+
+// Payload stored on each BullMQ job - everything the worker needs to run independently
+export interface ProcessCreatorJobData {
+  jobId: string;
+  creatorId: string;
+  channelUrl: string;
+  maxVideos: number;
+  forceRefresh: boolean;
+  mode?: ProcessingMode; // Defaults to 'full'
+  videoIds?: string[]; // Videos to process when mode is 'videos' (or a subset of the archive for 'reindex')
+  source?: VideoSource; // Where 'full' and 'sync' runs find videos - defaults to the channel's uploads
+  customDescription?: string;
+  // Resolved at enqueue time from defaults + team + request overrides
+  eligibilityPolicy?: EligibilityPolicy;
+  // Prisma-compatible UUID for the ChannelAIProcessing record (stable across retries)
+  documentId: string;
+}
+
+export const processingQueue = new Queue<ProcessCreatorJobData>(PROCESSING_QUEUE_NAME, {
+  connection: redisConfig,
+  prefix: BULLMQ_PREFIX,
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 60 * 1000 // 1 min, 2 min, 4 min
+    },
+    removeOnComplete: { age: JOB_TTL_SECONDS },
+    removeOnFail: { age: JOB_TTL_SECONDS * 7 }
+  }
+});
+
+processingQueue.on('error', (err) => {
+  structuredLogger.error({ error: err }, 'Processing queue error');
+});
+
+/**
+ * Enqueue a channel processing job
+ * Uses our jobId as the BullMQ job ID so duplicate enqueues are ignored
+ */
+export async function enqueueProcessingJob(data: ProcessCreatorJobData): Promise<void> {
+  await processingQueue.add('process-creator', data, { jobId: data.jobId });
+
+  structuredLogger.info({
+    jobId: data.jobId,
+    creatorId: data.creatorId,
+    queue: PROCESSING_QUEUE_NAME
+  }, 'Processing job enqueued');
+}
@@ -0,0 +1,1201 @@
+import { Worker, UnrecoverableError, type Job } from 'bullmq';
+import { ObjectId } from 'mongodb';
+import type { Creator, ChannelAIProcessing, Video, VideoProcessingReport } from '../types';
+import { structuredLogger } from '../middleware/logger';
+import { connectToDatabase, connectToOrgsDatabase, connectToPrismaDatabase } from './mongodb';
+import { getChannelInfo, getVideoDetails, type ChannelVideo } from './youtube';
+import { cleanTranscript, chunkTextWithMetadata, hashTranscript, CHUNKER_VERSION, DEFAULT_CAPTION_LANGUAGES } from './youtube';
+import { storeTranscriptChunks, updateChannelContext, getIndexedVideoVersions, deleteVideoChunks, updateVideoChunkChapters } from './rag';
+import { parseChapters } from './chapters';
+import { filterTranscriptSegments, tagSegmentChunks, resolveSegmentFilter } from './segment-classifier';
+import { jobStore, type ProcessingJob, type VideoChanges } from './job-store';
+import { isUploadedTranscriptSource } from './transcript-upload';
+import { getTranscriptProviderChain, TranscriptProviderChain, archivedTranscriptProvider } from './transcript-providers';
+import { mapWithConcurrency } from './concurrency';
+import { env } from '../config/env';
+import { archiveTranscript, listArchivedVideos, fromArchivedVideo, toArchivedVideo } from './transcript-archive';
+import { resolveVideoSource, formatVideoSource, UPLOADS_SOURCE } from './video-source';
+import {
+  DEFAULT_ELIGIBILITY_POLICY,
+  checkVideoEligibility,
+  meetsCaptionRequirement,
+  describeDurationRange,
+  describeEligibilityPolicy,
+  buildIneligibleChannelMessage
+} from './eligibility';
+import { redisConfig } from './redis';
+import { PROCESSING_QUEUE_NAME, BULLMQ_PREFIX, type ProcessCreatorJobData } from './processing-queue';
+
+// Processing timeout: 30 minutes
+const PROCESSING_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Videos processed in parallel within a job
+const VIDEO_CONCURRENCY = Math.max(1, parseInt(env.PROCESSING_VIDEO_CONCURRENCY));
+
+// Reindex runs read transcripts only from the archive, never from YouTube
+const archiveOnlyTranscriptChain = new TranscriptProviderChain([archivedTranscriptProvider]);
+
+// Timeouts are not retried - a stuck run would just time out again
+class ProcessingTimeoutError extends UnrecoverableError {
+  constructor() {
+    super(`Processing timeout: Job exceeded maximum time limit of ${PROCESSING_TIMEOUT_MS / 60000} minutes`);
+    this.name = 'ProcessingTimeoutError';
+  }
+}
+
+// Creator video entry for a video whose chunks are in the index
+function toVideoRecord(video: ChannelVideo): Video {
+  const { videoId, title, url, duration, publishedAt, thumbnails } = video;
+
+  return {
+    videoId,
+    title: title || `Video ${videoId}`,
+    url,
+    duration: duration ?? undefined,
+    publishedAt: publishedAt ? new Date(publishedAt) : undefined,
+    thumbnails: thumbnails ? {
+      default: thumbnails.default?.url ? { url: thumbnails.default.url } : undefined,
+      medium: thumbnails.medium?.url ? { url: thumbnails.medium.url } : undefined,
+      high: thumbnails.high?.url ? { url: thumbnails.high.url } : undefined,
+    } : undefined,
+    hasTranscript: true
+  };
+}
+
+// What happened to a single video - everything in its report except identity and timing
+type VideoOutcome = Pick<VideoProcessingReport, 'status' | 'skipReason' | 'message' | 'transcriptSource' | 'transcriptLanguage' | 'contentFiltered'> & {
+  chunkCount?: number;
+};
+
+function createVideoReport(video: ChannelVideo, startedAt: Date, outcome: VideoOutcome): VideoProcessingReport {
+  const completedAt = new Date();
+
+  return {
+    videoId: video.videoId,
+    title: video.title || `Video ${video.videoId}`,
+    durationMinutes: video.durationMinutes || undefined,
+    ...outcome,
+    chunkCount: outcome.chunkCount ?? 0,
+    startedAt: startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
+    processingMs: completedAt.getTime() - startedAt.getTime()
+  };
+}
+
+// Attempt bookkeeping passed in from the BullMQ job
+interface AttemptInfo {
+  attemptsMade: number;
+  maxAttempts: number;
+  timeoutSignal?: AbortSignal; // Aborted when the run exceeds PROCESSING_TIMEOUT_MS
+}
+
+// Async processing function
+async function processVideosAsync(data: ProcessCreatorJobData, attempt: AttemptInfo) {
+  const { jobId, creatorId, channelUrl, maxVideos, customDescription, documentId } = data;
+  const policy = data.eligibilityPolicy ?? DEFAULT_ELIGIBILITY_POLICY;
+  const mode = data.mode ?? 'full';
+  // A reindex exists to re-run chunking and embedding, so unchanged transcripts are never skipped
+  const forceRefresh = data.forceRefresh || mode === 'reindex';
+  const transcriptChain = mode === 'reindex' ? archiveOnlyTranscriptChain : getTranscriptProviderChain();
+
+  const job = await jobStore.get(jobId);
+  if (!job) return;
+
+  try {
+    job.status = 'processing';
+    job.startedAt = new Date();
+    job.attempts = attempt.attemptsMade + 1;
+    job.error = undefined;
+    job.videos = []; // A retry starts the per-video report over
+    await jobStore.set(jobId, job);
+
+    structuredLogger.info({ jobId, creatorId, channelUrl, mode }, 'Processing started');
+
+    const { db } = await connectToDatabase();
+
+    // Write "processing" status to Prisma database at start
+    try {
+      const creator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
+      
+      if (creator?.ownedByTeamId && creator?.ownedByChannelId) {
+        const { db: prismaDb } = await connectToPrismaDatabase();
+        
+        const processingStartRecord: ChannelAIProcessing = {
+          _id: documentId, // Add _id field
+          channelId: creator.ownedByChannelId,
+          teamId: creator.ownedByTeamId,
+          creatorId,
+          status: 'processing',
+          jobId,
+          chatUrl: job.chatUrl,
+          channelUrl,
+          processedAt: new Date(),
+          videosProcessed: 0,
+          totalChunks: 0,
+          failedVideos: 0,
+          hasChannelContext: false,
+          customDescriptionUsed: false,
+          canReprocess: false, // Don't allow reprocessing while processing
+        };
+
+        await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').updateOne(
+          { 
+            channelId: creator.ownedByChannelId, 
+            teamId: creator.ownedByTeamId,
+            jobId: jobId
+          },
+          { 
+            $set: processingStartRecord,
+            $setOnInsert: { createdAt: new Date() }
+          },
+          { upsert: true }
+        );
+
+        structuredLogger.info({ 
+          jobId, 
+          creatorId, 
+          teamId: creator.ownedByTeamId,
+          channelId: creator.ownedByChannelId 
+        }, 'Processing status written to Prisma database');
+      }
+    } catch (error) {
+      structuredLogger.error({ error, jobId, creatorId }, 'Failed to write processing start status (non-fatal)');
+      // Non-fatal - continue processing even if status write fails
+    }
+
+    const existingCreator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
+
+    // Fetch channel videos (a reindex takes them from the transcript archive instead)
+    const source = data.source ?? UPLOADS_SOURCE;
+    let videosData: { channel?: { title?: string | null }; videos: ChannelVideo[] };
+    if (mode === 'reindex') {
+      const archivedVideos = await listArchivedVideos(creatorId, data.videoIds);
+      structuredLogger.info({ jobId, creatorId, archivedVideos: archivedVideos.length }, 'Loaded videos from transcript archive');
+      videosData = { videos: archivedVideos.map(fromArchivedVideo) };
+    } else {
+      structuredLogger.info({ jobId, channelUrl, maxVideos, policy, source: formatVideoSource(source) }, 'Fetching channel videos from YouTube...');
+      videosData = mode === 'videos'
+        ? { channel: undefined, videos: await getVideoDetails(data.videoIds ?? []) }
+        : await resolveVideoSource(source, channelUrl, maxVideos, policy);
+    }
+
+    // Videos added one at a time stay part of a full run; removed ones never come back
+    const fetchedVideoIds = new Set(videosData.videos.map(v => v.videoId));
+    const addedVideoIds = (existingCreator?.addedVideoIds || []).filter(id => !fetchedVideoIds.has(id));
+    const addedVideos = mode === 'full' && addedVideoIds.length > 0 ? await getVideoDetails(addedVideoIds) : [];
+    const excludedVideoIds = new Set(existingCreator?.excludedVideoIds || []);
+    const videos = [...videosData.videos, ...addedVideos].filter(v => !excludedVideoIds.has(v.videoId));
+
+    // Set progress total (even if 0 videos)
+    job.progress.total = videos.length;
+    await jobStore.set(jobId, job);
+
+    if (videos.length > 0) {
+      structuredLogger.info({
+        jobId,
+        videoCount: videos.length,
+        channelTitle: videosData.channel?.title,
+        videoDetails: videos.map(v => ({
+          title: v.title?.substring(0, 50),
+          duration: v.duration,
+          durationMinutes: v.durationMinutes,
+          hasCaptions: v.hasCaptions
+        }))
+      }, 'Videos fetched - detailed breakdown');
+    } else {
+      structuredLogger.warn({
+        jobId,
+        channelUrl,
+        channelTitle: videosData.channel?.title,
+        policy
+      }, 'No eligible videos found (all filtered out by eligibility policy)');
+    }
+
+    // Fetch channel info with Wikipedia (reindex runs leave channel data as it is)
+    structuredLogger.info({ jobId, channelUrl }, 'Fetching channel info and Wikipedia data...');
+    const channelInfo = mode === 'reindex' ? null : await getChannelInfo(channelUrl);
+
+    structuredLogger.info({
+      jobId,
+      hasChannelData: !!channelInfo?.channelData,
+      hasWikipediaData: !!channelInfo?.wikipediaData,
+      channelTitle: channelInfo?.channelData?.title,
+      descriptionLength: channelInfo?.channelData?.description?.length || 0,
+      wikipediaSummaryLength: channelInfo?.wikipediaData?.summary?.length || 0
+    }, 'Channel info fetched');
+
+    // NOW check eligibility with all the data
+    const hasCustomDescription = customDescription && customDescription.length > 50;
+    const hasChannelDescription = channelInfo?.channelData?.description && channelInfo.channelData.description.length > 50;
+    const hasWikipedia = channelInfo?.wikipediaData?.summary && channelInfo.wikipediaData.summary.length > 50;
+
+    // Calculate eligibility FIRST before checking
+    const videosWithCaptions = videos.filter(v => v.hasCaptions).length;
+    const videosMatchingPolicy = videos.filter(v => checkVideoEligibility(v, policy).eligible).length;
+    const videosEligibleForProcessing = videos.filter(v =>
+      meetsCaptionRequirement(v, policy) && checkVideoEligibility(v, policy).eligible
+    ).length;
+
+    // If no ELIGIBLE videos AND no descriptions, fail early
+    // Incremental runs (sync/videos) never fail the creator just because nothing new is eligible
+    if (mode === 'full' && videosEligibleForProcessing === 0 && !hasCustomDescription && !hasChannelDescription && !hasWikipedia) {
+      const errorMsg = `No eligible videos found. Requirements: ${describeEligibilityPolicy(policy).join('; ')}. ` +
+        'To proceed without eligible videos, please provide a custom description when creating the bot (or add a detailed channel description on YouTube).';
+
+      structuredLogger.error({
+        jobId,
+        channelUrl,
+        totalVideos: videos.length,
+        videosEligibleForProcessing,
+        videosWithCaptions,
+        videosMatchingPolicy,
+        hasCustomDescription,
+        hasChannelDescription,
+        hasWikipedia
+      }, errorMsg);
+
+      throw new UnrecoverableError(errorMsg);
+    }
+
+    // If no eligible videos but HAS descriptions, allow processing
+    if (videosEligibleForProcessing === 0 && (hasCustomDescription || hasChannelDescription || hasWikipedia)) {
+      structuredLogger.info({
+        jobId,
+        totalVideos: videos.length,
+        videosEligibleForProcessing,
+        hasCustomDescription,
+        hasChannelDescription,
+        hasWikipedia
+      }, 'No eligible videos, but has descriptions - proceeding with channel context only');
+    }
+
+    structuredLogger.info({
+      jobId,
+      totalVideos: videos.length,
+      videosWithCaptions,
+      videosMatchingPolicy,
+      videosEligibleForProcessing,
+      hasChannelDescription,
+      hasCustomDescription,
+      hasWikipedia,
+      channelDescriptionLength: channelInfo?.channelData?.description?.length || 0,
+      customDescriptionLength: customDescription?.length || 0,
+      wikipediaSummaryLength: channelInfo?.wikipediaData?.summary?.length || 0
+    }, 'Eligibility check - detailed');
+
+    // Build specific error message based on what's missing
+    if (mode === 'full' && videosEligibleForProcessing === 0 && !hasChannelDescription && !hasCustomDescription && !hasWikipedia) {
+      // No eligible videos AND no descriptions
+      const errorMessage = buildIneligibleChannelMessage(policy, { videosWithCaptions, videosMatchingPolicy });
+
+      structuredLogger.error({
+        jobId,
+        totalVideos: videos.length,
+        videosWithCaptions,
+        videosMatchingPolicy,
+        videosEligibleForProcessing,
+        hasChannelDescription,
+        hasCustomDescription,
+        hasWikipedia
+      }, 'Channel NOT eligible for processing');
+
+      throw new UnrecoverableError(errorMessage);
+    }
+
+    // Warn if only relying on descriptions
+    if (videosEligibleForProcessing === 0 && (hasChannelDescription || hasCustomDescription || hasWikipedia)) {
+      structuredLogger.warn({
+        jobId,
+        hasChannelDescription,
+        hasCustomDescription,
+        hasWikipedia,
+        totalVideos: videos.length,
+        videosWithCaptions,
+        videosMatchingPolicy,
+        channelDescriptionPreview: channelInfo?.channelData?.description?.substring(0, 100),
+        customDescriptionPreview: customDescription?.substring(0, 100),
+        wikipediaSummaryPreview: channelInfo?.wikipediaData?.summary?.substring(0, 100)
+      }, `No eligible videos (captions + ${describeDurationRange(policy)}), but channel context available - proceeding with descriptions only`);
+    }
+
+    structuredLogger.info({
+      jobId,
+      eligibilityPassed: true,
+      willProcessVideos: videosEligibleForProcessing > 0,
+      videosEligibleForProcessing,
+      willUseChannelContext: hasChannelDescription || hasCustomDescription || hasWikipedia
+    }, 'Eligibility check PASSED - proceeding with processing');
+
+    // Load what is already indexed so unchanged videos can be skipped
+    const indexedVersions = await getIndexedVideoVersions(creatorId);
+    const videoChanges: VideoChanges = { new: [], updated: [], unchanged: [], removed: [] };
+
+    // A sync only ingests uploads we have never seen (including ones skipped on earlier runs)
+    const knownVideoIds = new Set(mode === 'sync' ? (existingCreator?.videos || []).map(v => v.videoId) : []);
+    const captionLanguages = existingCreator?.captionLanguages?.length ? existingCreator.captionLanguages : DEFAULT_CAPTION_LANGUAGES;
+    const segmentFilter = resolveSegmentFilter(existingCreator?.segmentFilter);
+
+    structuredLogger.info({
+      jobId,
+      creatorId,
+      forceRefresh,
+      mode,
+      captionLanguages,
+      segmentFilter,
+      alreadyIndexedVideos: indexedVersions.size
+    }, 'Incremental re-indexing state loaded');
+
+    // Process videos
+    let processedVideos = 0;
+    let totalChunks = 0;
+    let failedVideos = 0;
+    const processedVideoData: Video[] = [];
+    const videoReports: VideoProcessingReport[] = [];
+    job.videos = videoReports;
+    let cancelled = false;
+    let timedOut = false;
+
+    // A few videos run at once; their embedding requests share the batching and rate limiting in openai.ts
+    await mapWithConcurrency(videos, VIDEO_CONCURRENCY, async (video, i) => {
+      // Cancellation is honoured before each video starts so a video is never half-indexed
+      if (cancelled || timedOut) return;
+      if (attempt.timeoutSignal?.aborted) {
+        timedOut = true;
+        return;
+      }
+      if (await jobStore.isCancellationRequested(jobId)) {
+        structuredLogger.info({ jobId, creatorId, processedVideos, remainingVideos: videos.length - videoReports.length }, 'Cancellation requested - stopping before next video');
+        cancelled = true;
+        return;
+      }
+
+      const { videoId, title, url, durationMinutes } = video;
+      const indexed = indexedVersions.get(videoId);
+      const videoStartedAt = new Date();
+
+      // Record this video's outcome and publish it along with the job's progress
+      const reportVideo = async (outcome: VideoOutcome) => {
+        videoReports.push(createVideoReport(video, videoStartedAt, outcome));
+        job.progress.current = videoReports.length;
+        await jobStore.set(jobId, job);
+      };
+
+      try {
+        if (mode === 'sync' && (indexed || knownVideoIds.has(videoId))) {
+          videoChanges.unchanged.push(videoId);
+          if (indexed) {
+            processedVideos++;
+            totalChunks += indexed.chunkCount;
+          }
+          await reportVideo({
+            status: 'unchanged',
+            chunkCount: indexed?.chunkCount,
+            message: 'Already ingested - scheduled sync only adds new uploads'
+          });
+          return;
+        }
+
+        // Skip videos the eligibility policy rules out (archived videos were already admitted when fetched)
+        const videoDuration = durationMinutes || 0;
+        const eligibility = mode === 'reindex' ? { eligible: true as const } : checkVideoEligibility(video, policy);
+        if (!eligibility.eligible) {
+          structuredLogger.info({
+            jobId,
+            videoId,
+            durationMinutes: videoDuration,
+            title: title?.substring(0, 50),
+            reason: eligibility.reason
+          }, 'Skipping video - not eligible under policy');
+          processedVideoData.push({
+            videoId,
+            title: title || `Video ${videoId}`,
+            url,
+            hasTranscript: false
+          });
+          failedVideos++;
+          await reportVideo({
+            status: 'skipped',
+            skipReason: eligibility.reason,
+            message: eligibility.message
+          });
+          return;
+        }
+
+        const chapters = parseChapters(video.description, Math.round(videoDuration * 60));
+
+        // Chapters live only in MongoDB metadata, so description edits are picked up without re-embedding
+        const refreshChapters = async () => {
+          try {
+            await updateVideoChunkChapters(creatorId, videoId, chapters);
+          } catch (error) {
+            structuredLogger.warn({ error, jobId, videoId }, 'Failed to refresh chunk chapters (non-fatal)');
+          }
+        };
+
+        structuredLogger.info({
+          jobId,
+          videoIndex: i + 1,
+          totalVideos: videos.length,
+          videoId,
+          durationMinutes: videoDuration,
+          chapters: chapters.length,
+          title: title?.substring(0, 50)
+        }, 'Processing video');
+
+        // Skip the provider chain for videos indexed from an upload; a forced refresh re-reads them in chain order
+        if (!forceRefresh && indexed && isUploadedTranscriptSource(indexed.transcriptSource)) {
+          structuredLogger.info({ jobId, videoId, transcriptSource: indexed.transcriptSource }, 'Keeping uploaded transcript');
+          await refreshChapters();
+          processedVideoData.push(toVideoRecord(video));
+          videoChanges.unchanged.push(videoId);
+          processedVideos++;
+          totalChunks += indexed.chunkCount;
+          await reportVideo({
+            status: 'unchanged',
+            chunkCount: indexed.chunkCount,
+            transcriptSource: indexed.transcriptSource,
+            message: 'Using uploaded transcript'
+          });
+          return;
+        }
+
+        // Get transcript from the first provider in the chain that has one
+        const transcriptData = await transcriptChain.fetchTranscript({
+          videoId,
+          creatorId,
+          preferredLanguages: captionLanguages
+        });
+
+        // Keep the raw transcript so later chunker changes can be applied without refetching
+        if (transcriptData?.text && mode !== 'reindex') {
+          try {
+            await archiveTranscript(creatorId, toArchivedVideo(video), transcriptData);
+          } catch (error) {
+            structuredLogger.warn({ error, jobId, videoId }, 'Failed to archive raw transcript (non-fatal)');
+          }
+        }
+
+        if (!transcriptData?.text) {
+          // Keep what we already have rather than dropping a previously indexed video
+          if (indexed) {
+            structuredLogger.warn({ jobId, videoId }, 'No transcript found - keeping previously indexed chunks');
+            processedVideoData.push(toVideoRecord(video));
+            videoChanges.unchanged.push(videoId);
+            processedVideos++;
+            totalChunks += indexed.chunkCount;
+            await reportVideo({
+              status: 'unchanged',
+              chunkCount: indexed.chunkCount,
+              message: 'Transcript unavailable - kept previously indexed chunks'
+            });
+            return;
+          }
+
+          structuredLogger.warn({ jobId, videoId, durationMinutes: videoDuration }, 'No transcript found');
+          processedVideoData.push({
+            videoId,
+            title: title || `Video ${videoId}`,
+            url,
+            hasTranscript: false
+          });
+          failedVideos++;
+          await reportVideo({
+            status: 'skipped',
+            skipReason: 'no_transcript',
+            message: 'No captions or transcript available for this video'
+          });
+          return;
+        }
+
+        // Skip re-embedding when the transcript and chunker are unchanged
+        const transcriptHash = hashTranscript(transcriptData.text);
+        if (
+          !forceRefresh &&
+          indexed?.transcriptHash === transcriptHash &&
+          indexed.chunkerVersion === CHUNKER_VERSION
+        ) {
+          structuredLogger.info({ jobId, videoId, chunkCount: indexed.chunkCount }, 'Video unchanged since last run - skipping re-embedding');
+          await refreshChapters();
+          processedVideoData.push(toVideoRecord(video));
+          videoChanges.unchanged.push(videoId);
+          processedVideos++;
+          totalChunks += indexed.chunkCount;
+          await reportVideo({
+            status: 'unchanged',
+            chunkCount: indexed.chunkCount,
+            transcriptSource: transcriptData.provider,
+            transcriptLanguage: transcriptData.language
+          });
+          return;
+        }
+
+        // Clean and chunk
+        let rawTranscript = transcriptData.text;
+        rawTranscript = rawTranscript.replace(/(\b[\w\s',.!?]+?)\s+\1(?=\s|$)/g, '$1');
+        rawTranscript = rawTranscript.replace(/\s+/g, ' ').trim();
+
+        // Drop or tag sponsor reads, self-promotion, intros and outros before chunking
+        const filtered = filterTranscriptSegments(cleanTranscript(rawTranscript), segmentFilter);
+        const documents = await chunkTextWithMetadata(
+          filtered.text,
+          transcriptData.segments,
+          {
+            videoId,
+            videoTitle: title || `Video ${videoId}`,
+            videoUrl: url,
+            thumbnailUrl: video.thumbnails?.medium?.url ?? undefined
+          }
+        );
+        tagSegmentChunks(documents, filtered.taggedSpans);
+
+        if (documents.length === 0) {
+          processedVideoData.push({
+            videoId,
+            title: title || `Video ${videoId}`,
+            url,
+            hasTranscript: false
+          });
+          failedVideos++;
+          await reportVideo({
+            status: 'skipped',
+            skipReason: 'empty_chunks',
+            message: 'Transcript produced no usable text after cleaning',
+            transcriptSource: transcriptData.provider,
+            transcriptLanguage: transcriptData.language,
+            contentFiltered: filtered.report
+          });
+          return;
+        }
+
+        // Replace stale chunks (changed transcript, new chunker or forced refresh)
+        if (indexed) {
+          await deleteVideoChunks(creatorId, videoId);
+        }
+
+        // Store in Pinecone + MongoDB
+        await storeTranscriptChunks(
+          creatorId,
+          videoId,
+          documents,
+          title || `Video ${videoId}`,
+          url,
+          video.thumbnails?.medium?.url ?? undefined,
+          transcriptData.segments,
+          {
+            transcriptHash,
+            chunkerVersion: CHUNKER_VERSION,
+            transcriptSource: transcriptData.provider,
+            language: transcriptData.language,
+            captionTrackKind: transcriptData.trackKind
+          },
+          chapters
+        );
+
+        processedVideos++;
+        totalChunks += documents.length;
+        (indexed ? videoChanges.updated : videoChanges.new).push(videoId);
+
+        processedVideoData.push(toVideoRecord(video));
+
+        // Update progress
+        await reportVideo({
+          status: 'indexed',
+          chunkCount: documents.length,
+          transcriptSource: transcriptData.provider,
+          transcriptLanguage: transcriptData.language,
+          contentFiltered: filtered.report
+        });
+
+        structuredLogger.info({
+          jobId,
+          videoId,
+          documentsGenerated: documents.length,
+          change: indexed ? 'updated' : 'new',
+          progress: `${videoReports.length}/${videos.length}`
+        }, 'Video processed');
+
+      } catch (error) {
+        structuredLogger.error({ error, jobId, videoId }, 'Failed to process video');
+        processedVideoData.push({
+          videoId,
+          title: title || `Video ${videoId}`,
+          url,
+          hasTranscript: false
+        });
+        failedVideos++;
+        await reportVideo({
+          status: 'failed',
+          skipReason: 'error',
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+
+    // Recorded as a failure by the catch below (not retried)
+    if (timedOut) throw new ProcessingTimeoutError();
+
+    if (cancelled) {
+      await finalizeCancelledJob(data, processedVideoData.filter(v => v.hasTranscript), {
+        processedVideos,
+        totalChunks,
+        failedVideos,
+        videoChanges
+      });
+      return;
+    }
+
+    // Post-processing validation (reuse variables from eligibility check)
+    if (mode === 'full' && processedVideos === 0 && !hasChannelDescription && !hasCustomDescription && !hasWikipedia) {
+      // This shouldn't happen due to eligibility check, but just in case
+      throw new UnrecoverableError(
+        'Processing completed but no content available. None of your videos have transcripts, and no channel description was found. ' +
+        'Please either:\n' +
+        '1. Enable captions on your videos\n' +
+        '2. Add a channel description on YouTube\n' +
+        '3. Provide a custom description'
+      );
+    }
+
+    if (processedVideos === 0 && (hasChannelDescription || hasCustomDescription || hasWikipedia)) {
+      structuredLogger.info({
+        jobId,
+        creatorId,
+        hasChannelDescription,
+        hasCustomDescription,
+        hasWikipedia,
+        totalVideos: videos.length,
+        failedVideos
+      }, 'No video transcripts processed, but channel context available - proceeding with descriptions only');
+    }
+
+    if (processedVideos === 0) {
+      structuredLogger.warn({
+        jobId,
+        creatorId,
+        failedVideos,
+        totalVideos: videos.length,
+        proceedingWithContextOnly: hasChannelDescription || hasCustomDescription || hasWikipedia
+      }, 'No videos processed successfully');
+    }
+
+    // RE-VALIDATE subscription and channel membership before storing results
+    // This prevents giving processed content to teams that cancelled during processing
+    try {
+      const { db: orgsDb } = await connectToOrgsDatabase();
+      const creator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
+      
+      if (creator?.ownedByTeamId && creator?.ownedByChannelId) {
+        const team = await orgsDb.collection('teams').findOne({ teamId: creator.ownedByTeamId });
+        
+        if (!team) {
+          throw new UnrecoverableError('Team no longer exists. Processing aborted.');
+        }
+        
+        if (team.sub_status !== 'active') {
+          throw new UnrecoverableError(`Subscription is no longer active (status: ${team.sub_status}). Processing aborted.`);
+        }
+        
+        if (team.has_channel_ai !== true) {
+          throw new UnrecoverableError('Channel AI subscription was cancelled during processing. Processing aborted.');
+        }
+        
+        // const channelStillExists = team.channels?.some(
+        //   (ch: any) => ch.channelId === creator.ownedByChannelId || ch === creator.ownedByChannelId
+        // );
+        
+        // if (!channelStillExists) {
+        //   throw new Error('Channel was removed from team during processing. Processing aborted.');
+        // }
+        
+        structuredLogger.info({
+          jobId,
+          creatorId,
+          teamId: creator.ownedByTeamId,
+          channelId: creator.ownedByChannelId
+        }, 'Re-validation passed: Team still has active Channel AI subscription and channel membership');
+      }
+    } catch (validationError) {
+      structuredLogger.error({
+        error: validationError instanceof Error ? validationError.message : String(validationError),
+        jobId,
+        creatorId
+      }, 'Subscription/channel re-validation failed - aborting processing');
+      
+      throw validationError; // Will be caught by outer catch block and marked as failed
+    }
+
+    // Purge videos that were indexed before but are no longer part of this channel's selection
+    // (incremental runs only look at some videos, so everything else stays)
+    const selectedVideoIds = new Set(videos.map(v => v.videoId));
+    for (const videoId of indexedVersions.keys()) {
+      if (mode !== 'full' || selectedVideoIds.has(videoId)) continue;
+
+      try {
+        await deleteVideoChunks(creatorId, videoId);
+        videoChanges.removed.push(videoId);
+      } catch (error) {
+        structuredLogger.error({ error, jobId, creatorId, videoId }, 'Failed to remove video that is no longer selected');
+      }
+    }
+
+    structuredLogger.info({
+      jobId,
+      creatorId,
+      newVideos: videoChanges.new.length,
+      updatedVideos: videoChanges.updated.length,
+      unchangedVideos: videoChanges.unchanged.length,
+      removedVideos: videoChanges.removed.length
+    }, 'Incremental re-indexing summary');
+
+    // Update creator in MongoDB
+    const enhancedMetadata: Partial<Creator> = {
+      setupComplete: true,
+      updatedAt: new Date(),
+      videos: mode !== 'full'
+        ? mergeCreatorVideos(existingCreator?.videos, processedVideoData)
+        : processedVideoData
+    };
+
+    if (channelInfo) {
+      if (channelInfo.channelData) {
+        const channelThumbnails = channelInfo.channelData.thumbnails;
+        const channelStats = channelInfo.channelData.statistics;
+
+        enhancedMetadata.channelData = {
+          title: channelInfo.channelData.title ?? 'Unknown Channel',
+          description: channelInfo.channelData.description ?? undefined,
+          thumbnails: channelThumbnails ? {
+            default: channelThumbnails.default?.url ? { url: channelThumbnails.default.url } : undefined,
+            medium: channelThumbnails.medium?.url ? { url: channelThumbnails.medium.url } : undefined,
+            high: channelThumbnails.high?.url ? { url: channelThumbnails.high.url } : undefined,
+          } : undefined,
+          statistics: channelStats ? {
+            viewCount: channelStats.viewCount ? parseInt(channelStats.viewCount) : undefined,
+            subscriberCount: channelStats.subscriberCount ? parseInt(channelStats.subscriberCount) : undefined,
+            videoCount: channelStats.videoCount ? parseInt(channelStats.videoCount) : undefined,
+          } : undefined
+        };
+      }
+      if (channelInfo.wikipediaData) {
+        // WikipediaEnrichmentData has different structure than WikipediaData
+        // Need to map it properly - use channel title as Wikipedia title
+        enhancedMetadata.wikipediaData = {
+          title: channelInfo.channelData?.title ?? 'Unknown',
+          summary: channelInfo.wikipediaData.summary || '',
+          url: channelInfo.wikipediaData.url
+        };
+      }
+    }
+
+    await db.collection<Creator>('creators').updateOne(
+      { _id: new ObjectId(creatorId) } as any,
+      { $set: enhancedMetadata }
+    );
+
+    // Store channel context embeddings (incremental runs leave the existing context alone)
+    if (mode === 'full') {
+      try {
+        structuredLogger.info({
+          jobId,
+          creatorId,
+          hasChannelDescription: !!channelInfo?.channelData?.description,
+          hasCustomDescription: !!customDescription,
+          hasWikipedia: !!channelInfo?.wikipediaData
+        }, 'Storing channel context');
+
+        // Replace (not append) so re-processing doesn't duplicate context chunks
+        await updateChannelContext(
+          creatorId,
+          {
+            title: channelInfo?.channelData?.title ?? undefined,
+            description: channelInfo?.channelData?.description ?? undefined,
+            customDescription
+          },
+          channelInfo?.wikipediaData ?? undefined
+        );
+
+        structuredLogger.info({ jobId, creatorId }, 'Channel context stored successfully');
+      } catch (error) {
+        // Don't fail the entire job if channel context fails
+        structuredLogger.error({ error, jobId, creatorId }, 'Failed to store channel context');
+      }
+    }
+
+    // Job complete
+    job.status = 'completed';
+    job.completedAt = new Date();
+    job.result = {
+      processedVideos,
+      totalChunks,
+      failedVideos,
+      videoChanges
+    };
+    await jobStore.set(jobId, job);
+
+    structuredLogger.info({
+      jobId,
+      processedVideos,
+      totalChunks,
+      failedVideos,
+      duration: Math.round((job.completedAt.getTime() - job.startedAt!.getTime()) / 1000)
+    }, 'Processing completed');
+
+    // Write processing status directly to Prisma database
+    try {
+      const creator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
+
+      if (creator?.ownedByTeamId && creator?.ownedByChannelId) {
+        const { db: prismaDb } = await connectToPrismaDatabase();
+        
+        const processingRecord: ChannelAIProcessing = {
+          _id: documentId, // Add _id field
+          channelId: creator.ownedByChannelId,
+          teamId: creator.ownedByTeamId,
+          creatorId,
+          status: 'completed',
+          jobId,
+          chatUrl: job.chatUrl,
+          channelUrl,
+          processedAt: new Date(),
+          videosProcessed: processedVideos,
+          totalChunks,
+          failedVideos,
+          hasChannelContext: !!channelInfo,
+          customDescriptionUsed: !!customDescription,
+          videoReports,
+          errorCount: 0, // Reset error count on success
+          lastError: undefined, // Clear previous errors on success
+          canReprocess: true, // Allow reprocessing after successful completion
+        };
+
+        structuredLogger.info({
+          jobId,
+          creatorId,
+          teamId: creator.ownedByTeamId,
+          channelId: creator.ownedByChannelId,
+        }, 'Writing processing status directly to Prisma database');
+
+        // Upsert: update if exists, insert if not
+        await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').updateOne(
+          { 
+            channelId: creator.ownedByChannelId, 
+            teamId: creator.ownedByTeamId, 
+            jobId: jobId 
+          },
+          { 
+            $set: processingRecord,
+            $setOnInsert: { createdAt: new Date() }
+          },
+          { upsert: true }
+        );
+
+        structuredLogger.info({ 
+          jobId, 
+          creatorId, 
+          teamId: creator.ownedByTeamId,
+          channelId: creator.ownedByChannelId 
+        }, 'Processing status written successfully to Prisma database');
+      } else {
+        structuredLogger.warn({
+          jobId,
+          creatorId,
+          hasTeamId: !!creator?.ownedByTeamId,
+          hasChannelId: !!creator?.ownedByChannelId
+        }, 'Creator missing ownership info, skipping status update');
+      }
+    } catch (error) {
+      structuredLogger.error({
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        jobId,
+        creatorId
+      }, 'Failed to write processing status to Prisma database');
+      // Don't fail the job if status update fails
+    }
+
+    // Only now, so a new job for the channel can't start before this one's status is recorded
+    await releaseChannelReservation(jobId, job);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const willRetry = !(error instanceof UnrecoverableError) && attempt.attemptsMade + 1 < attempt.maxAttempts;
+
+    if (willRetry) {
+      structuredLogger.warn({
+        error: errorMessage,
+        jobId,
+        attempt: attempt.attemptsMade + 1,
+        maxAttempts: attempt.maxAttempts
+      }, 'Processing attempt failed - will retry with backoff');
+
+      job.status = 'queued';
+      job.error = `Attempt ${attempt.attemptsMade + 1} of ${attempt.maxAttempts} failed: ${errorMessage}. Retrying...`;
+      await jobStore.set(jobId, job);
+      throw error;
+    }
+
+    structuredLogger.error({ error, jobId }, 'Processing failed');
+    await markJobFailed(data, errorMessage);
+    throw error;
+  }
+}
+
+// Replace entries for the given videos, keep every other existing entry
+function mergeCreatorVideos(existing: Video[] | undefined, updates: Video[]): Video[] {
+  const updatedIds = new Set(updates.map(v => v.videoId));
+  return [
+    ...(existing || []).filter(v => !updatedIds.has(v.videoId)),
+    ...updates
+  ];
+}
+
+// Keep creator.videos in step with whatever was indexed before the job was cancelled
+async function finalizeCancelledJob(
+  data: ProcessCreatorJobData,
+  indexedVideos: Video[],
+  result: NonNullable<ProcessingJob['result']>
+) {
+  const { jobId, creatorId } = data;
+
+  try {
+    if (indexedVideos.length > 0) {
+      const { db } = await connectToDatabase();
+      const creator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
+
+      // Merge: replace entries for re-indexed videos, keep everything else that is still in the index
+      const videos = mergeCreatorVideos(creator?.videos, indexedVideos);
+
+      await db.collection<Creator>('creators').updateOne(
+        { _id: new ObjectId(creatorId) } as any,
+        { $set: { videos, setupComplete: true, updatedAt: new Date() } }
+      );
+
+      structuredLogger.info({ jobId, creatorId, indexedVideos: indexedVideos.length, totalVideos: videos.length }, 'Creator videos updated with partial results after cancellation');
+    }
+  } catch (error) {
+    structuredLogger.error({ error, jobId, creatorId }, 'Failed to update creator after cancellation');
+  }
+
+  await markJobCancelled(data, result);
+}
+
+// Let the channel be queued again once its job has ended (see POST /creator and enqueueCreatorUpdate)
+async function releaseChannelReservation(jobId: string, job: ProcessingJob) {
+  if (!job.channelReservation) return;
+
+  const { channelId, teamId } = job.channelReservation;
+  await jobStore.unmarkChannelProcessing(channelId, teamId, jobId);
+}
+
+/**
+ * Record a cancelled job in Redis and the Prisma database
+ * Also used by the API when a job is removed from the queue before it started
+ */
+export async function markJobCancelled(
+  data: ProcessCreatorJobData,
+  result: NonNullable<ProcessingJob['result']> = { processedVideos: 0, totalChunks: 0, failedVideos: 0 }
+) {
+  const { jobId, creatorId, channelUrl, documentId } = data;
+
+  const job = await jobStore.get(jobId);
+  if (!job) return;
+
+  job.status = 'cancelled';
+  job.completedAt = new Date();
+  job.result = result;
+  job.error = undefined;
+  await jobStore.set(jobId, job);
+  await jobStore.clearCancellation(jobId);
+
+  structuredLogger.info({ jobId, creatorId, ...result }, 'Processing cancelled');
+
+  try {
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
+
+    if (creator?.ownedByTeamId && creator?.ownedByChannelId) {
+      const { db: prismaDb } = await connectToPrismaDatabase();
+
+      const cancelledRecord: ChannelAIProcessing = {
+        _id: documentId,
+        channelId: creator.ownedByChannelId,
+        teamId: creator.ownedByTeamId,
+        creatorId,
+        status: 'cancelled',
+        jobId,
+        chatUrl: job.chatUrl,
+        channelUrl,
+        processedAt: new Date(),
+        videosProcessed: result.processedVideos,
+        totalChunks: result.totalChunks,
+        failedVideos: result.failedVideos,
+        hasChannelContext: false,
+        videoReports: job.videos ?? [],
+        canReprocess: true, // Allow a fresh run after cancellation
+      };
+
+      await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').updateOne(
+        {
+          channelId: creator.ownedByChannelId,
+          teamId: creator.ownedByTeamId,
+          jobId: jobId
+        },
+        {
+          $set: cancelledRecord,
+          $setOnInsert: { createdAt: new Date() }
+        },
+        { upsert: true }
+      );
+
+      structuredLogger.info({ jobId, creatorId, teamId: creator.ownedByTeamId }, 'Cancelled status written to Prisma database');
+    }
+  } catch (statusError) {
+    structuredLogger.error({ error: statusError, jobId, creatorId }, 'Failed to write cancelled status to Prisma database');
+  }
+
+  await releaseChannelReservation(jobId, job);
+}
+
+// Record a terminal failure in Redis and the Prisma database
+async function markJobFailed(data: ProcessCreatorJobData, errorMessage: string) {
+  const { jobId, creatorId, channelUrl, documentId } = data;
+
+  const job = await jobStore.get(jobId);
+  if (!job) return;
+
+  job.status = 'failed';
+  job.error = errorMessage;
+  job.completedAt = new Date();
+  await jobStore.set(jobId, job);
+
+  // Write failed status directly to Prisma database
+  try {
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
+
+    if (creator?.ownedByTeamId && creator?.ownedByChannelId) {
+      const { db: prismaDb } = await connectToPrismaDatabase();
+
+      const failedRecord: Omit<ChannelAIProcessing, 'errorCount'> = {
+        _id: documentId, // Add _id to failedRecord
+        channelId: creator.ownedByChannelId,
+        teamId: creator.ownedByTeamId,
+        creatorId,
+        status: 'failed',
+        jobId,
+        chatUrl: job.chatUrl,
+        channelUrl,
+        processedAt: new Date(),
+        videosProcessed: 0,
+        totalChunks: 0,
+        failedVideos: 0,
+        hasChannelContext: false,
+        customDescriptionUsed: false,
+        videoReports: job.videos ?? [],
+        lastError: job.error,
+        canReprocess: true, // Allow retry after failure
+      };
+
+      structuredLogger.info({
+        jobId,
+        creatorId,
+        teamId: creator.ownedByTeamId,
+        channelId: creator.ownedByChannelId,
+      }, 'Writing failed status directly to Prisma database');
+
+      // Upsert: update if exists, insert if not
+      await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').updateOne(
+        {
+          channelId: creator.ownedByChannelId,
+          teamId: creator.ownedByTeamId,
+          jobId: jobId
+        },
+        {
+          $set: failedRecord,
+          $inc: { errorCount: 1 }, // Increment error count (MongoDB creates field if doesn't exist)
+          $setOnInsert: { createdAt: new Date() } // Only set createdAt on insert
+        },
+        { upsert: true }
+      );
+
+      structuredLogger.info({ jobId, creatorId, teamId: creator.ownedByTeamId }, 'Failed status written to Prisma database');
+    }
+  } catch (statusError) {
+    structuredLogger.error({ error: statusError, jobId, creatorId }, 'Failed to write failed status to Prisma database');
+  }
+
+  await releaseChannelReservation(jobId, job);
+}
+
+/**
+ * Run a single queued job with timeout protection. A timed-out run stops before its next video and
+ * fails with ProcessingTimeoutError; it is not treated as a cancellation, so the only final status
+ * recorded is the failure.
+ */
+async function runProcessingJob(bullJob: Job<ProcessCreatorJobData>) {
+  const { jobId, creatorId } = bullJob.data;
+  const timeout = new AbortController();
+
+  const timeoutId = setTimeout(() => {
+    structuredLogger.warn({ jobId, creatorId, timeoutMinutes: PROCESSING_TIMEOUT_MS / 60000 }, 'Processing timed out - stopping before the next video');
+    timeout.abort();
+  }, PROCESSING_TIMEOUT_MS);
+
+  try {
+    await processVideosAsync(bullJob.data, {
+      attemptsMade: bullJob.attemptsMade,
+      maxAttempts: bullJob.opts.attempts ?? 1,
+      timeoutSignal: timeout.signal
+    });
+  } catch (error) {
+    structuredLogger.error({
+      error: error instanceof Error ? error.message : String(error),
+      jobId,
+      creatorId,
+      attempt: bullJob.attemptsMade + 1,
+      timedOut: timeout.signal.aborted
+    }, 'Processing failed');
+
+    throw error; // Let BullMQ decide between retry and failed
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Start a BullMQ worker for channel processing jobs
+ * Can run inside the API process or standalone via worker.ts
+ */
+export function startProcessingWorker(concurrency = 1): Worker<ProcessCreatorJobData> {
+  // Fail at startup rather than on the first job when TRANSCRIPT_PROVIDERS names an unknown provider
+  getTranscriptProviderChain();
+
+  const worker = new Worker<ProcessCreatorJobData>(PROCESSING_QUEUE_NAME, runProcessingJob, {
+    connection: redisConfig,
+    prefix: BULLMQ_PREFIX,
+    concurrency
+  });
+
+  worker.on('active', (bullJob) => {
+    structuredLogger.info({ jobId: bullJob.id, attempt: bullJob.attemptsMade + 1 }, 'Processing job picked up by worker');
+  });
+
+  worker.on('completed', (bullJob) => {
+    structuredLogger.info({ jobId: bullJob.id }, 'Processing job completed');
+  });
+
+  worker.on('failed', (bullJob, error) => {
+    structuredLogger.warn({
+      jobId: bullJob?.id,
+      attemptsMade: bullJob?.attemptsMade,
+      error: error.message
+    }, 'Processing job attempt failed');
+  });
+
+  worker.on('error', (err) => {
+    structuredLogger.error({ error: err }, 'Processing worker error');
+  });
+
+  structuredLogger.info({ queue: PROCESSING_QUEUE_NAME, concurrency }, 'Processing worker started');
+
+  return worker;
+}
@@ -1,14 +1,27 @@
+import type { AnyBulkWriteOperation, Collection } from 'mongodb';
 import { connectToDatabase } from './mongodb';
-import { createEmbedding } from './openai';
-import { storeTranscriptChunks as storeToPinecone, searchSimilarChunks as searchPinecone, deleteChannelContext as deletePineconeChannelContext } from './pinecone';
+import { createEmbedding, createEmbeddings } from './embeddings';
+import { getActiveGeneration, pinActiveGeneration, getGenerationProvider } from './embedding-generations';
+import { storeTranscriptChunks as storeVectors, searchSimilarChunks as searchVectors, deleteChannelContext as deleteChannelContextVectors, deleteVideoVectors, deleteVectorIds, chunkId, storedChunkVectorId, type ChunkMatch } from './vectors';
 import { createLogger } from './logger';
 import { preprocessQuery, getBestQueryForEmbedding, type ProcessedQuery } from './query-preprocessing';
 import { matchChunkToTimestamp, type TimestampSegment } from './timestamp-matching';
-import type { TranscriptChunk } from '../types';
+import { findChunkChapter, type VideoChapter } from './chapters';
+import type { TranscriptChunk, SegmentCategory } from '../types';
 import { Document } from "@langchain/core/documents";
 
 const logger = createLogger('RAG');
 
+// Chunk documents are keyed by chunkId(), so storing the same chunks again replaces them
+async function upsertChunkDocuments(
+  collection: Collection<Omit<TranscriptChunk, 'embedding'>>,
+  documents: Array<Omit<TranscriptChunk, 'embedding'> & { _id: string; createdAt: Date }>
+): Promise<void> {
+  await collection.bulkWrite(documents.map(({ _id, ...document }) => ({
+    replaceOne: { filter: { _id }, replacement: document, upsert: true }
+  })));
+}
+
 /**
  * Store channel context (description, Wikipedia, custom description) as embeddings
  * This allows the AI to answer questions about the channel itself
@@ -87,19 +100,21 @@ export async function storeChannelContext(
     contentType: string;
   }> = [];
 
-  for (let i = 0; i < contextChunks.length; i++) {
-    const chunk = contextChunks[i]!;
-
-    try {
-      logger.debug('Creating embedding for channel context', {
-        type: chunk.contentType,
-        textLength: chunk.text.length
-      });
+  // Embed with the model of the generation the vectors go into
+  const generation = await pinActiveGeneration(creatorId);
 
-      const embedding = await createEmbedding(chunk.text);
+  try {
+    const embeddings = await createEmbeddings(contextChunks.map(chunk => chunk.text), 'document', {
+      provider: getGenerationProvider(generation),
+      creatorId
+    });
 
+    contextChunks.forEach((chunk, i) => {
+      const embedding = embeddings[i];
       if (!embedding || embedding.length === 0) {
-        throw new Error(`Failed to create embedding for ${chunk.contentType}`);
+        // Continue with other chunks even if one is missing
+        logger.error(`Failed to create embedding for ${chunk.contentType}`);
+        return;
       }
 
       chunksWithEmbeddings.push({
@@ -108,15 +123,9 @@ export async function storeChannelContext(
         chunkIndex: i,
         contentType: chunk.contentType
       });
-
-      logger.debug('Channel context embedding created', {
-        type: chunk.contentType,
-        embeddingDimension: embedding.length
-      });
-    } catch (error) {
-      logger.error(`Failed to create embedding for ${chunk.contentType}`, error);
-      // Continue with other chunks even if one fails
-    }
+    });
+  } catch (error) {
+    logger.error('Failed to create channel context embeddings', error);
   }
 
   if (chunksWithEmbeddings.length === 0) {
@@ -138,13 +147,14 @@ export async function storeChannelContext(
     endTime: undefined
   }));
 
-  await storeToPinecone(creatorId, 'CHANNEL_CONTEXT', pineconeChunks);
+  await storeVectors(creatorId, 'CHANNEL_CONTEXT', pineconeChunks, generation);
 
   // Store metadata in MongoDB with contentType for filtering
   const { db } = await connectToDatabase();
-  const collection = db.collection('transcript_chunks');
+  const collection = db.collection<Omit<TranscriptChunk, 'embedding'>>('transcript_chunks');
 
   const documents = chunksWithEmbeddings.map(chunk => ({
+    _id: chunkId(creatorId, 'CHANNEL_CONTEXT', chunk.chunkIndex, chunk.text),
     creatorId,
     videoId: 'CHANNEL_CONTEXT',
     chunkIndex: chunk.chunkIndex,
@@ -157,7 +167,7 @@ export async function storeChannelContext(
     createdAt: new Date(),
   }));
 
-  await collection.insertMany(documents);
+  await upsertChunkDocuments(collection, documents);
 
   logger.info('Channel context stored successfully', {
     creatorId,
@@ -188,7 +198,7 @@ export async function updateChannelContext(
 
   try {
     // Delete old channel context from Pinecone
-    await deletePineconeChannelContext(creatorId);
+    await deleteChannelContextVectors(creatorId);
 
     // Delete old channel context from MongoDB
     const { db } = await connectToDatabase();
@@ -213,6 +223,131 @@ export async function updateChannelContext(
   }
 }
 
+/**
+ * Per-video versioning info of what is currently indexed for a creator
+ */
+export interface IndexedVideoVersion {
+  videoId: string;
+  transcriptHash?: string;
+  chunkerVersion?: number;
+  transcriptSource?: string;
+  chunkCount: number;
+}
+
+/**
+ * Look up which videos are already indexed for a creator, with the transcript hash
+ * and chunker version they were indexed with (used for incremental re-processing)
+ */
+export async function getIndexedVideoVersions(creatorId: string): Promise<Map<string, IndexedVideoVersion>> {
+  const { db } = await connectToDatabase();
+  const collection = db.collection<TranscriptChunk>('transcript_chunks');
+
+  const rows = await collection.aggregate<IndexedVideoVersion & { _id: string }>([
+    { $match: { creatorId, videoId: { $ne: 'CHANNEL_CONTEXT' } } },
+    {
+      $group: {
+        _id: '$videoId',
+        transcriptHash: { $first: '$metadata.transcriptHash' },
+        chunkerVersion: { $first: '$metadata.chunkerVersion' },
+        transcriptSource: { $first: '$metadata.transcriptSource' },
+        chunkCount: { $sum: 1 }
+      }
+    }
+  ]).toArray();
+
+  logger.info('Loaded indexed video versions', { creatorId, indexedVideos: rows.length });
+
+  return new Map(rows.map(row => [row._id, {
+    videoId: row._id,
+    transcriptHash: row.transcriptHash ?? undefined,
+    chunkerVersion: row.chunkerVersion ?? undefined,
+    transcriptSource: row.transcriptSource ?? undefined,
+    chunkCount: row.chunkCount
+  }]));
+}
+
+/**
+ * Remove every chunk of a video from Pinecone and MongoDB
+ */
+export async function deleteVideoChunks(creatorId: string, videoId: string): Promise<{ vectorsDeleted: number; documentsDeleted: number }> {
+  logger.info('Deleting video chunks', { creatorId, videoId });
+
+  const vectorsDeleted = await deleteVideoVectors(creatorId, videoId);
+
+  const { db } = await connectToDatabase();
+  const deleteResult = await db.collection('transcript_chunks').deleteMany({ creatorId, videoId });
+
+  logger.info('Video chunks deleted', {
+    creatorId,
+    videoId,
+    vectorsDeleted,
+    documentsDeleted: deleteResult.deletedCount
+  });
+
+  return { vectorsDeleted, documentsDeleted: deleteResult.deletedCount };
+}
+
+/**
+ * Remove the chunks of a video that were not just stored again (IDs not in keepIds) from the vector store and MongoDB
+ * Lets a re-index store its new chunks before the old ones go, so a failed embedding leaves the video searchable
+ */
+export async function deleteStaleVideoChunks(creatorId: string, videoId: string, keepIds: string[]): Promise<number> {
+  const { db } = await connectToDatabase();
+  const collection = db.collection<Omit<TranscriptChunk, 'embedding'>>('transcript_chunks');
+
+  const keep = new Set(keepIds);
+  const stale = (await collection
+    .find({ creatorId, videoId }, { projection: { _id: 1, creatorId: 1, videoId: 1, chunkIndex: 1 } })
+    .toArray())
+    .filter(chunk => !keep.has(String(chunk._id)));
+
+  if (stale.length === 0) return 0;
+
+  await deleteVectorIds(creatorId, stale.map(chunk => storedChunkVectorId({ ...chunk, _id: chunk._id! })));
+  const deleteResult = await collection.deleteMany({ _id: { $in: stale.map(chunk => chunk._id!) } });
+
+  logger.info('Stale video chunks deleted', { creatorId, videoId, documentsDeleted: deleteResult.deletedCount });
+
+  return deleteResult.deletedCount;
+}
+
+/**
+ * Re-attach chapters to a video's stored chunks (e.g. after the description changed) without re-embedding
+ * Returns how many chunks were updated
+ */
+export async function updateVideoChunkChapters(creatorId: string, videoId: string, chapters: VideoChapter[]): Promise<number> {
+  const { db } = await connectToDatabase();
+  const collection = db.collection<Omit<TranscriptChunk, 'embedding'>>('transcript_chunks');
+
+  const chunks = await collection
+    .find({ creatorId, videoId }, { projection: { _id: 1, metadata: 1 } })
+    .toArray();
+
+  const updates: AnyBulkWriteOperation<Omit<TranscriptChunk, 'embedding'>>[] = chunks.flatMap(chunk => {
+    const chapter = findChunkChapter(chapters, chunk.metadata?.startTime, chunk.metadata?.endTime);
+    if (chunk.metadata?.chapterTitle === chapter?.title && chunk.metadata?.chapterStartTime === chapter?.startSeconds) {
+      return [];
+    }
+
+    return [{
+      updateOne: {
+        filter: { _id: chunk._id },
+        update: chapter
+          ? { $set: { 'metadata.chapterTitle': chapter.title, 'metadata.chapterStartTime': chapter.startSeconds } }
+          : { $unset: { 'metadata.chapterTitle': '', 'metadata.chapterStartTime': '' } }
+      }
+    }];
+  });
+
+  if (updates.length > 0) {
+    await collection.bulkWrite(updates);
+    logger.info('Video chunk chapters updated', { creatorId, videoId, chunksUpdated: updates.length, chapters: chapters.length });
+  }
+
+  return updates.length;
+}
+
+// Returns the IDs of the stored chunks (see chunkId())
 export async function storeTranscriptChunks(
   creatorId: string,
   videoId: string,
@@ -225,8 +360,16 @@ export async function storeTranscriptChunks(
     timestampDisplay: string;
     timestampSeconds: number;
     endSeconds: number;
-  }>
-): Promise<void> {
+  }>,
+  chunkMetadata?: {
+    transcriptHash?: string;
+    chunkerVersion?: number;
+    transcriptSource?: string;
+    language?: string;
+    captionTrackKind?: 'manual' | 'asr';
+  },
+  chapters: VideoChapter[] = []
+): Promise<string[]> {
   // Check if we received LangChain Documents
   const isLangChainDocs = chunks.length > 0 && chunks[0] instanceof Document;
 
@@ -256,10 +399,15 @@ export async function storeTranscriptChunks(
     videoTitle?: string;
     startTime?: number;
     endTime?: number;
+    language?: string;
+    captionTrackKind?: 'manual' | 'asr';
+    segmentCategories?: SegmentCategory[];
   }> = [];
 
   try {
-    // Process embeddings with better error handling
+    // Collect the text and timing of every chunk first, then embed them in batches
+    const preparedChunks: Array<Omit<typeof chunksWithEmbeddings[number], 'embedding'>> = [];
+
     for (let i = 0; i < chunks.length; i++) {
       const chunk = chunks[i]!;
 
@@ -267,6 +415,7 @@ export async function storeTranscriptChunks(
       let chunkText: string;
       let startTime: number | undefined;
       let endTime: number | undefined;
+      let segmentCategories: SegmentCategory[] | undefined;
 
       if (isLangChainDocs) {
         const doc = chunk as Document;
@@ -274,6 +423,7 @@ export async function storeTranscriptChunks(
         // Use metadata from LangChain Document (already has timestamps!)
         startTime = doc.metadata.startTime;
         endTime = doc.metadata.endTime;
+        segmentCategories = doc.metadata.segmentCategories;
       } else {
         chunkText = chunk as string;
 
@@ -300,43 +450,48 @@ export async function storeTranscriptChunks(
         continue;
       }
 
-      logger.debug('Creating embedding for chunk', {
-        chunkIndex: i + 1,
-        totalChunks: chunks.length,
-        chunkLength: chunkText.length,
+      preparedChunks.push({
+        text: chunkText,
+        chunkIndex: i,
+        videoTitle,
         startTime,
         endTime,
-        hasTimestamp: (startTime || 0) > 0,
-        chunkType: isLangChainDocs ? 'Document' : 'string',
-        chunkPreview: chunkText.substring(0, 100) + '...'
+        language: chunkMetadata?.language,
+        captionTrackKind: chunkMetadata?.captionTrackKind,
+        segmentCategories
       });
+    }
 
-      try {
-        const embedding = await createEmbedding(chunkText);
+    logger.debug('Creating embeddings for chunks', {
+      chunks: preparedChunks.length,
+      totalCharacters: preparedChunks.reduce((total, chunk) => total + chunk.text.length, 0),
+      chunkType: isLangChainDocs ? 'Document' : 'string'
+    });
 
-        if (!embedding || embedding.length === 0) {
-          throw new Error(`Failed to create embedding for chunk ${i}`);
-        }
+    // Embed with the model of the generation the vectors go into
+    const generation = await pinActiveGeneration(creatorId);
+    const embeddingProvider = getGenerationProvider(generation);
 
-        chunksWithEmbeddings.push({
-          text: chunkText,
-          embedding,
-          chunkIndex: i,
-          videoTitle,
-          startTime,
-          endTime
-        });
-      } catch (embeddingError) {
-        logger.error('Failed to create embedding for chunk', embeddingError, {
-          chunkIndex: i,
-          chunkLength: chunkText.length,
-          creatorId,
-          videoId
-        });
-        throw new Error(`Embedding creation failed for chunk ${i}: ${embeddingError instanceof Error ? embeddingError.message : String(embeddingError)}`);
-      }
+    let embeddings: number[][];
+    try {
+      embeddings = await createEmbeddings(preparedChunks.map(chunk => chunk.text), 'document', { provider: embeddingProvider, creatorId });
+    } catch (embeddingError) {
+      logger.error('Failed to create embeddings for chunks', embeddingError, {
+        chunkCount: preparedChunks.length,
+        creatorId,
+        videoId
+      });
+      throw new Error(`Embedding creation failed: ${embeddingError instanceof Error ? embeddingError.message : String(embeddingError)}`);
     }
 
+    preparedChunks.forEach((chunk, index) => {
+      const embedding = embeddings[index];
+      if (!embedding || embedding.length === 0) {
+        throw new Error(`Failed to create embedding for chunk ${chunk.chunkIndex}`);
+      }
+      chunksWithEmbeddings.push({ ...chunk, embedding });
+    });
+
     if (chunksWithEmbeddings.length === 0) {
       throw new Error('No valid embeddings created from chunks');
     }
@@ -348,13 +503,13 @@ export async function storeTranscriptChunks(
       totalChunks: chunks.length
     });
 
-    // Store in Pinecone with error handling
+    // Store in the vector store with error handling
     try {
-      await storeToPinecone(creatorId, videoId, chunksWithEmbeddings);
-      logger.info('Pinecone storage completed', { creatorId, videoId });
-    } catch (pineconeError) {
-      logger.error('Pinecone storage failed', pineconeError, { creatorId, videoId });
-      throw new Error(`Pinecone storage failed: ${pineconeError instanceof Error ? pineconeError.message : String(pineconeError)}`);
+      await storeVectors(creatorId, videoId, chunksWithEmbeddings, generation);
+      logger.info('Vector storage completed', { creatorId, videoId });
+    } catch (vectorError) {
+      logger.error('Vector storage failed', vectorError, { creatorId, videoId });
+      throw new Error(`Vector storage failed: ${vectorError instanceof Error ? vectorError.message : String(vectorError)}`);
     }
 
     // Store metadata in MongoDB with error handling
@@ -374,8 +529,10 @@ export async function storeTranscriptChunks(
 
         const startTime = timestampMatch.startTime;
         const endTime = timestampMatch.endTime;
+        const chapter = findChunkChapter(chapters, startTime, endTime);
 
         return {
+          _id: chunkId(creatorId, videoId, chunk.chunkIndex, chunk.text), // Same ID as the chunk's vector
           creatorId,
           videoId,
           chunkIndex: chunk.chunkIndex,
@@ -387,14 +544,20 @@ export async function storeTranscriptChunks(
             thumbnailUrl,
             startTime,
             endTime,
-            duration: startTime && endTime ? endTime - startTime : undefined
+            duration: startTime && endTime ? endTime - startTime : undefined,
+            chapterTitle: chapter?.title,
+            chapterStartTime: chapter?.startSeconds,
+            segmentCategories: chunk.segmentCategories,
+            embeddingProvider: embeddingProvider.name,
+            embeddingModel: embeddingProvider.model,
+            ...chunkMetadata
           },
           createdAt: new Date(),
         };
       });
 
       if (documents.length > 0) {
-        await collection.insertMany(documents);
+        await upsertChunkDocuments(collection, documents);
 
         const documentsWithTimestamps = documents.filter(d => d.metadata.startTime !== undefined).length;
 
@@ -418,6 +581,7 @@ export async function storeTranscriptChunks(
       totalDocuments: chunksWithEmbeddings.length
     });
 
+    return chunksWithEmbeddings.map(chunk => chunkId(creatorId, videoId, chunk.chunkIndex, chunk.text));
   } catch (error) {
     logger.error('RAG storage failed completely', error, {
       creatorId,
@@ -429,7 +593,11 @@ export async function storeTranscriptChunks(
   }
 }
 
-export async function searchSimilarChunks(
+/**
+ * Best-matching chunks with their IDs, similarity scores and vector metadata; the ID is the
+ * transcript_chunks _id for chunks stored since chunk IDs (see storedChunkVectorId()).
+ */
+export async function searchChunkMatches(
   creatorId: string,
   query: string,
   limit = 5,
@@ -439,7 +607,7 @@ export async function searchSimilarChunks(
     categories?: string[];
     recentVideos?: string[];
   }
-): Promise<string[]> {
+): Promise<ChunkMatch[]> {
   logger.info('Searching for similar chunks', {
     creatorId,
     queryLength: query.length,
@@ -459,8 +627,10 @@ export async function searchSimilarChunks(
   // Use a higher search limit to get more candidates for filtering
   const searchLimit = Math.max(limit * 2, 10);
 
-  const queryEmbedding = await createEmbedding(searchQuery);
-  const results = await searchPinecone(creatorId, queryEmbedding, searchLimit);
+  // The query has to be embedded by the same model as the generation it searches
+  const generation = await getActiveGeneration(creatorId);
+  const queryEmbedding = await createEmbedding(searchQuery, 'query', { provider: getGenerationProvider(generation) });
+  const results = await searchVectors(creatorId, queryEmbedding, searchLimit, generation);
 
   logger.info('Similar chunks search completed', {
     creatorId,
@@ -468,13 +638,22 @@ export async function searchSimilarChunks(
     requestedLimit: limit,
     searchLimit,
     preprocessingSkipped: true,
-    resultsPreview: results.slice(0, 2).map(r => r.substring(0, 100) + '...')
+    resultsPreview: results.slice(0, 2).map(r => r.text.substring(0, 100) + '...')
   });
 
   // Return only the requested limit
   return results.slice(0, limit);
 }
 
+export async function searchSimilarChunks(
+  creatorId: string,
+  query: string,
+  limit = 5,
+  creatorMetadata?: Parameters<typeof searchChunkMatches>[3]
+): Promise<string[]> {
+  return (await searchChunkMatches(creatorId, query, limit, creatorMetadata)).map(match => match.text);
+}
+
 // Enhanced search function with detailed debugging
 export async function searchSimilarChunksWithDetails(
   creatorId: string,
@@ -511,8 +690,9 @@ export async function searchSimilarChunksWithDetails(
     });
     
     const searchLimit = Math.max(limit * 3, 15); // Even more candidates
-    const queryEmbedding = await createEmbedding(searchQuery);
-    const results = await searchPinecone(creatorId, queryEmbedding, searchLimit);
+    const generation = await getActiveGeneration(creatorId);
+    const queryEmbedding = await createEmbedding(searchQuery, 'query', { provider: getGenerationProvider(generation) });
+    const results = await searchVectors(creatorId, queryEmbedding, searchLimit, generation);
     
     const searchTime = Date.now() - startTime;
     const finalResults = results.slice(0, limit);
@@ -522,7 +702,9 @@ export async function searchSimilarChunksWithDetails(
       searchTime,
       totalCandidates: results.length,
       finalResults: finalResults.length,
-      avgSimilarity: undefined as number | undefined,
+      avgSimilarity: finalResults.length > 0
+        ? finalResults.reduce((total, match) => total + match.score, 0) / finalResults.length
+        : undefined,
       queryProcessing: processed.metadata
     };
 
@@ -530,13 +712,13 @@ export async function searchSimilarChunksWithDetails(
       ...metadata,
       queryWords: query.split(/\s+/).length,
       resultsPreview: finalResults.slice(0, 1).map(r => ({
-        length: r.length,
-        preview: r.substring(0, 80) + '...'
+        length: r.text.length,
+        preview: r.text.substring(0, 80) + '...'
       }))
     });
 
     return {
-      chunks: finalResults,
+      chunks: finalResults.map(match => match.text),
       metadata
     };
   } catch (error) {
@@ -596,8 +778,8 @@ export async function diagnoseRAGHealth(creatorId: string): Promise<{
         : 'No text content';
     });
 
-    // Get Pinecone stats
-    const { getIndexStats } = await import('./pinecone');
+    // Get vector store stats
+    const { getIndexStats } = await import('./vectors');
     const indexHealth = await getIndexStats();
 
     // Test search with a generic query
@@ -1,8 +1,8 @@
 import Redis from 'ioredis';
 import { structuredLogger } from '../middleware/logger';
 
-// Redis connection configuration
-const redisConfig = {
+// Redis connection configuration (shared with BullMQ queues and workers)
+export const redisConfig = {
   host: Bun.env.REDISHOST || 'localhost',
   port: Number(Bun.env.REDISPORT) || 6379,
   password: Bun.env.REDISPASSWORD,
@@ -0,0 +1,327 @@
+import { Queue, Worker } from 'bullmq';
+import type { ObjectId } from 'mongodb';
+import { structuredLogger } from '../middleware/logger';
+import { connectToDatabase } from './mongodb';
+import { redisConfig } from './redis';
+import { BULLMQ_PREFIX } from './processing-queue';
+import { resourceMonitor } from './monitoring';
+import { createEmbeddings } from './embeddings';
+import { deleteCreatorEmbeddings } from './embedding-cache';
+import { sameEmbeddingSpec, type EmbeddingSpec } from './embedding-providers';
+import {
+  claimGenerationBuild,
+  updateGenerationBuild,
+  failGenerationBuild,
+  activateGenerationBuild,
+  rollbackGeneration,
+  findCreatorGenerations,
+  getGenerationProvider,
+  type EmbeddingGeneration,
+  type EmbeddingGenerationBuild,
+  type CreatorEmbeddingGenerations,
+  type ChunkCursor
+} from './embedding-generations';
+import { storeTranscriptChunks, deleteGenerationVectors, storedChunkVectorId } from './vectors';
+import type { TranscriptChunk } from '../types';
+
+export const REEMBED_QUEUE_NAME = 'embedding-reembed';
+
+// transcript_chunks embedded per round; progress is saved after each one
+const REEMBED_PAGE_SIZE = 200;
+
+export interface ReembedJobData {
+  creatorId: string;
+  version: number;
+  storedSince?: string; // 'catch-up' jobs only: embed the chunks stored since this ISO date
+}
+
+export interface ReembedSummary {
+  creatorId: string;
+  version: number;
+  status: 'switched' | 'caught_up' | 'skipped';
+  embeddedChunks: number;
+  estimatedTokens: number;
+  cost?: number;
+}
+
+export interface StoredChunk {
+  _id: string | ObjectId; // chunkId(); ObjectId for chunks stored before chunk IDs
+  creatorId: string;
+  videoId: string;
+  chunkIndex: number;
+  text: string;
+  metadata?: TranscriptChunk['metadata'];
+  createdAt: Date;
+}
+
+interface EmbedProgress {
+  resumeAfter?: ChunkCursor;
+  embeddedChunks: number;
+  estimatedTokens: number;
+}
+
+export const reembedQueue = new Queue<ReembedJobData>(REEMBED_QUEUE_NAME, {
+  connection: redisConfig,
+  prefix: BULLMQ_PREFIX,
+  defaultJobOptions: {
+    removeOnComplete: { count: 50 },
+    removeOnFail: { count: 50 }
+  }
+});
+
+reembedQueue.on('error', (err) => {
+  structuredLogger.error({ error: err }, 'Re-embed queue error');
+});
+
+// Tags on every embedding usage record of one build, so ResourceMonitor can total its cost
+function usageTags(creatorId: string, version: number) {
+  return { reembedCreatorId: creatorId, reembedGeneration: version };
+}
+
+export async function getGenerationUsage(creatorId: string, version: number) {
+  return resourceMonitor.getUsageByMetadata(usageTags(creatorId, version));
+}
+
+/**
+ * Embed stored chunks with a generation's model and upsert them into its namespace, replacing any vector
+ * with the same ID. `usage` tags the embedding usage records.
+ */
+export async function storeChunkEmbeddings(
+  creatorId: string,
+  generation: EmbeddingGeneration,
+  chunks: StoredChunk[],
+  usage: Record<string, unknown>
+): Promise<void> {
+  const embeddings = await createEmbeddings(chunks.map(chunk => chunk.text), 'document', {
+    provider: getGenerationProvider(generation),
+    usage,
+    creatorId
+  });
+
+  const byVideo = new Map<string, Parameters<typeof storeTranscriptChunks>[2]>();
+  chunks.forEach((chunk, index) => {
+    const embedding = embeddings[index];
+    if (!embedding || embedding.length === 0) {
+      throw new Error(`Failed to create embedding for chunk ${chunk._id.toString()}`);
+    }
+
+    const videoChunks = byVideo.get(chunk.videoId) ?? [];
+    videoChunks.push({
+      id: storedChunkVectorId(chunk),
+      text: chunk.text,
+      embedding,
+      chunkIndex: chunk.chunkIndex,
+      videoTitle: chunk.metadata?.videoTitle,
+      startTime: chunk.metadata?.startTime,
+      endTime: chunk.metadata?.endTime,
+      language: chunk.metadata?.language,
+      captionTrackKind: chunk.metadata?.captionTrackKind
+    });
+    byVideo.set(chunk.videoId, videoChunks);
+  });
+
+  for (const [videoId, videoChunks] of byVideo) {
+    await storeTranscriptChunks(creatorId, videoId, videoChunks, generation);
+  }
+}
+
+// Chunks after the cursor in (createdAt, _id) order. Chunk IDs are not time-ordered, so createdAt leads;
+// documents sharing a createdAt were inserted together and have the same _id type
+function afterCursor(cursor: ChunkCursor) {
+  return {
+    $or: [
+      { createdAt: { $gt: cursor.createdAt } },
+      { createdAt: cursor.createdAt, _id: { $gt: cursor.id } }
+    ]
+  };
+}
+
+/**
+ * Embed a creator's stored chunks (transcript_chunks holds the full text) into a generation, oldest first.
+ * Chunks stored while this runs are newer, so they are picked up too. Without a cursor in `start`, only
+ * chunks stored since `storedSince` (or all of them) are embedded. `onPage` returning false stops early.
+ */
+async function embedChunksInto(
+  creatorId: string,
+  generation: EmbeddingGeneration,
+  start: EmbedProgress & { storedSince?: Date },
+  onPage?: (progress: EmbedProgress) => Promise<boolean>
+): Promise<EmbedProgress & { stopped: boolean }> {
+  const { db } = await connectToDatabase();
+  const collection = db.collection<StoredChunk>('transcript_chunks');
+  const { storedSince, ...progress } = start;
+
+  for (;;) {
+    const position = progress.resumeAfter
+      ? afterCursor(progress.resumeAfter)
+      : storedSince && { createdAt: { $gte: storedSince } };
+    const page = await collection
+      .find({ creatorId, ...position })
+      .sort({ createdAt: 1, _id: 1 })
+      .limit(REEMBED_PAGE_SIZE)
+      .toArray();
+    if (page.length === 0) return { ...progress, stopped: false };
+
+    await storeChunkEmbeddings(creatorId, generation, page, usageTags(creatorId, generation.version));
+
+    const last = page[page.length - 1]!;
+    progress.resumeAfter = { createdAt: last.createdAt, id: last._id };
+    progress.embeddedChunks += page.length;
+    // Same ~4 characters per token estimate the batcher uses; the exact count is in the usage records
+    progress.estimatedTokens += page.reduce((total, chunk) => total + Math.ceil(chunk.text.length / 4), 0);
+
+    if (onPage && !(await onPage({ ...progress }))) return { ...progress, stopped: true };
+  }
+}
+
+// Keep the per-chunk record of which model embedded it in line with the serving generation
+async function recordChunkEmbeddingModel(creatorId: string, generation: EmbeddingGeneration): Promise<void> {
+  const { db } = await connectToDatabase();
+  await db.collection('transcript_chunks').updateMany(
+    { creatorId },
+    { $set: { 'metadata.embeddingProvider': generation.provider, 'metadata.embeddingModel': generation.model } }
+  );
+}
+
+/**
+ * Start re-embedding a creator into a new generation. The active generation keeps serving search
+ * until the build has every chunk; then it is switched over in one update.
+ */
+export async function startReembed(creatorId: string, spec: EmbeddingSpec): Promise<{ jobId: string; build: EmbeddingGenerationBuild }> {
+  const { build, discarded } = await claimGenerationBuild(creatorId, spec);
+
+  if (discarded) {
+    const deleted = await deleteGenerationVectors(creatorId, discarded);
+    await deleteCreatorEmbeddings(creatorId, discarded);
+    structuredLogger.info({ creatorId, version: discarded.version, deleted }, 'Discarded failed embedding generation');
+  }
+
+  const job = await reembedQueue.add('build', { creatorId, version: build.version });
+  await updateGenerationBuild(creatorId, build.version, { jobId: job.id });
+
+  structuredLogger.info({ creatorId, version: build.version, jobId: job.id, ...spec }, 'Re-embed enqueued');
+
+  return { jobId: job.id!, build: { ...build, jobId: job.id } };
+}
+
+/**
+ * Switch a creator back to the previous generation. It missed whatever was stored since the last
+ * switch, so those chunks are embedded into it in the background.
+ */
+export async function rollbackCreatorGeneration(creatorId: string): Promise<{
+  generations: CreatorEmbeddingGenerations;
+  catchUpJobId?: string;
+}> {
+  const { generations, missingSince } = await rollbackGeneration(creatorId);
+  await recordChunkEmbeddingModel(creatorId, generations.active);
+
+  let catchUpJobId: string | undefined;
+  if (missingSince) {
+    // Step back a second to be safe - re-embedding a chunk is idempotent
+    const storedSince = new Date(missingSince.getTime() - 1000).toISOString();
+    const job = await reembedQueue.add('catch-up', { creatorId, version: generations.active.version, storedSince });
+    catchUpJobId = job.id;
+  }
+
+  structuredLogger.info({ creatorId, version: generations.active.version, catchUpJobId }, 'Embedding generation rolled back');
+
+  return { generations, catchUpJobId };
+}
+
+async function runBuild({ creatorId, version }: ReembedJobData): Promise<ReembedSummary> {
+  const build = (await findCreatorGenerations(creatorId))?.building;
+
+  if (!build || build.version !== version || build.status !== 'running') {
+    structuredLogger.info({ creatorId, version }, 'Re-embed no longer wanted - skipping');
+    return { creatorId, version, status: 'skipped', embeddedChunks: 0, estimatedTokens: 0 };
+  }
+
+  structuredLogger.info({ creatorId, version, provider: build.provider, model: build.model, resumeAfter: build.resumeAfter }, 'Re-embed started');
+
+  try {
+    const resumeFrom = { resumeAfter: build.resumeAfter, embeddedChunks: build.embeddedChunks, estimatedTokens: build.estimatedTokens };
+    const built = await embedChunksInto(creatorId, build, resumeFrom, progress => updateGenerationBuild(creatorId, version, progress));
+    if (built.stopped) {
+      structuredLogger.info({ creatorId, version, embeddedChunks: built.embeddedChunks }, 'Re-embed stopped - build was removed');
+      return { creatorId, version, status: 'skipped', embeddedChunks: built.embeddedChunks, estimatedTokens: built.estimatedTokens };
+    }
+
+    const { retired } = await activateGenerationBuild(creatorId, version);
+
+    // Processing that looked up the old generation just before the switch stored its vectors there
+    const caughtUp = await embedChunksInto(creatorId, build, built);
+    await recordChunkEmbeddingModel(creatorId, build);
+
+    if (retired) {
+      const deleted = await deleteGenerationVectors(creatorId, retired);
+      // Switching back to an older spec retires a generation whose cache entries are in use again
+      if (!sameEmbeddingSpec(retired, build)) await deleteCreatorEmbeddings(creatorId, retired);
+      structuredLogger.info({ creatorId, version: retired.version, deleted }, 'Retired embedding generation deleted');
+    }
+
+    const usage = await getGenerationUsage(creatorId, version);
+    const summary: ReembedSummary = {
+      creatorId,
+      version,
+      status: 'switched',
+      embeddedChunks: caughtUp.embeddedChunks,
+      estimatedTokens: caughtUp.estimatedTokens,
+      cost: usage.cost
+    };
+
+    structuredLogger.info({ ...summary, tokensUsed: usage.tokens }, 'Re-embed finished - generation switched');
+
+    return summary;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await failGenerationBuild(creatorId, version, message);
+    structuredLogger.error({ error, creatorId, version }, 'Re-embed failed');
+    throw error;
+  }
+}
+
+async function runCatchUp({ creatorId, version, storedSince }: ReembedJobData): Promise<ReembedSummary> {
+  const active = (await findCreatorGenerations(creatorId))?.active;
+
+  // Rolled forward again (or the creator is gone) before this ran
+  if (!active || active.version !== version) {
+    return { creatorId, version, status: 'skipped', embeddedChunks: 0, estimatedTokens: 0 };
+  }
+
+  const caughtUp = await embedChunksInto(creatorId, active, {
+    storedSince: storedSince ? new Date(storedSince) : undefined,
+    embeddedChunks: 0,
+    estimatedTokens: 0
+  });
+
+  structuredLogger.info({ creatorId, version, embeddedChunks: caughtUp.embeddedChunks }, 'Embedding generation caught up');
+
+  return { creatorId, version, status: 'caught_up', embeddedChunks: caughtUp.embeddedChunks, estimatedTokens: caughtUp.estimatedTokens };
+}
+
+/**
+ * Start the worker that builds embedding generations and catches up rolled-back ones
+ */
+export function startReembedWorker() {
+  const worker = new Worker<ReembedJobData>(
+    REEMBED_QUEUE_NAME,
+    (bullJob) => bullJob.name === 'catch-up' ? runCatchUp(bullJob.data) : runBuild(bullJob.data),
+    {
+      connection: redisConfig,
+      prefix: BULLMQ_PREFIX,
+      concurrency: 1
+    }
+  );
+
+  worker.on('failed', (bullJob, err) => {
+    structuredLogger.error({ error: err, bullJobId: bullJob?.id, creatorId: bullJob?.data.creatorId }, 'Re-embed job failed');
+  });
+
+  worker.on('error', (err) => {
+    structuredLogger.error({ error: err }, 'Re-embed worker error');
+  });
+
+  structuredLogger.info({ queue: REEMBED_QUEUE_NAME }, 'Re-embed worker started');
+
+  return worker;
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'bun:test';
+import type { Document } from '@langchain/core/documents';
+import { DEFAULT_SEGMENT_FILTER, filterTranscriptSegments, resolveSegmentFilter, tagSegmentChunks } from './segment-classifier';
+
+const PHONE_REVIEW = [
+  'This video is not sponsored by Google.',
+  'I have been using the Pixel for three weeks now.',
+  'The camera app is the best part of the phone.',
+  'Low light shots come out clean and sharp.',
+  'Battery life gets me through a full day with some left over.',
+  'The website says it charges to half in thirty minutes.',
+  'Charging is slower than most of the competition though.',
+  'The subscription for extra cloud storage is optional.',
+  'Gaming performance is fine but the phone gets warm.',
+  'Overall it is a solid phone for the price.'
+].join(' ');
+
+const SPONSOR_READ = [
+  'The first step is to clean the pan with hot water.',
+  'Dry it completely so no rust can form.',
+  'Heat it on the stove for a few minutes.',
+  "Today's video is sponsored by Squarespace.",
+  'Use the code PANS for ten percent off your first website.',
+  'The link is in the description.',
+  'Now back to the video.',
+  'Rub a thin layer of oil over every surface.',
+  'Bake it upside down for an hour.',
+  'Let it cool in the oven before you use it.'
+].join(' ');
+
+describe('filterTranscriptSegments', () => {
+  it('keeps every sentence of a video that says it is not sponsored', () => {
+    const result = filterTranscriptSegments(PHONE_REVIEW);
+
+    expect(result.report.removedChars).toBe(0);
+    expect(result.text).toBe(PHONE_REVIEW);
+  });
+
+  it('ignores other negated disclaimers', () => {
+    for (const disclaimer of ["This isn't sponsored by anyone.", 'This channel has never been sponsored by a brand.']) {
+      const text = `${disclaimer} ${PHONE_REVIEW}`;
+      expect(filterTranscriptSegments(text).report.byCategory.sponsor).toBeUndefined();
+    }
+  });
+
+  it('drops a sponsor read through the line that returns to the video', () => {
+    const result = filterTranscriptSegments(SPONSOR_READ);
+
+    expect(result.text).not.toContain('Squarespace');
+    expect(result.text).not.toContain('code PANS');
+    expect(result.text).not.toContain('back to the video');
+    expect(result.text).toContain('Heat it on the stove');
+    expect(result.text).toContain('Rub a thin layer of oil');
+    expect(result.report.byCategory.sponsor).toBeGreaterThan(0);
+  });
+
+  it('stops a sponsor read at the first sentence without a call to action', () => {
+    const text = [
+      'Sharpen the blade at a twenty degree angle.',
+      'Keep the pressure light and even.',
+      'Check the edge against a piece of paper.',
+      'Thanks to Brilliant for sponsoring this video.',
+      'The app on my phone tracks how long each stone takes.',
+      'Switch to the finer stone after ten passes.',
+      'Strop the edge on leather to finish it.',
+      'Wipe the blade clean before storing it.'
+    ].join(' ');
+
+    const result = filterTranscriptSegments(text);
+
+    expect(result.text).not.toContain('Brilliant');
+    expect(result.text).toContain('The app on my phone');
+  });
+
+  it('finds self-promotion anywhere and intros and outros only at the edges', () => {
+    const text = [
+      'Hey guys, welcome back to my channel.',
+      'Today we are building a bookshelf.',
+      'Measure the wall before buying any wood.',
+      'Cut the boards to length with a mitre saw.',
+      "Don't forget to like and subscribe.",
+      'Sand every edge before assembly.',
+      'Thanks for watching, this is the halfway point.',
+      'Glue and clamp the joints.',
+      'Let the glue dry overnight.',
+      'Finish it with two coats of oil.',
+      'Mount it with anchors rated for the weight.',
+      'Thanks for watching and see you next time.'
+    ].join(' ');
+
+    const result = filterTranscriptSegments(text);
+
+    expect(result.text).not.toContain('welcome back');
+    expect(result.text).not.toContain('like and subscribe');
+    expect(result.text).not.toContain('see you next time');
+    expect(result.text).toContain('this is the halfway point');
+    expect(Object.keys(result.report.byCategory).sort()).toEqual(['intro', 'outro', 'self_promo']);
+  });
+
+  it('keeps tagged spans in the text and reports them', () => {
+    const result = filterTranscriptSegments(SPONSOR_READ, { ...DEFAULT_SEGMENT_FILTER, sponsor: 'tag' });
+
+    expect(result.text).toBe(SPONSOR_READ);
+    expect(result.report.removedChars).toBe(0);
+    expect(result.report.taggedChars).toBeGreaterThan(0);
+    expect(result.taggedSpans.every(span => span.category === 'sponsor')).toBe(true);
+    expect(result.taggedSpans[0]!.text).toBe("Today's video is sponsored by Squarespace.");
+  });
+
+  it('returns the transcript untouched when every category is kept', () => {
+    const settings = resolveSegmentFilter({ sponsor: 'keep', self_promo: 'keep', intro: 'keep', outro: 'keep' });
+    const result = filterTranscriptSegments(SPONSOR_READ, settings);
+
+    expect(result.text).toBe(SPONSOR_READ);
+    expect(result.taggedSpans).toEqual([]);
+    expect(result.report.byCategory).toEqual({});
+  });
+});
+
+describe('resolveSegmentFilter', () => {
+  it('overrides only the categories given', () => {
+    expect(resolveSegmentFilter({ sponsor: 'tag' })).toEqual({ ...DEFAULT_SEGMENT_FILTER, sponsor: 'tag' });
+    expect(resolveSegmentFilter()).toEqual(DEFAULT_SEGMENT_FILTER);
+  });
+});
+
+describe('tagSegmentChunks', () => {
+  it('marks the chunks that contain a tagged span', () => {
+    const { taggedSpans } = filterTranscriptSegments(SPONSOR_READ, { ...DEFAULT_SEGMENT_FILTER, sponsor: 'tag' });
+    const documents: Document[] = [
+      { pageContent: 'Dry it completely so no rust can form.', metadata: {} },
+      { pageContent: "Heat it on the stove for a few minutes. Today's video is sponsored by Squarespace.", metadata: {} }
+    ];
+
+    tagSegmentChunks(documents, taggedSpans);
+
+    expect(documents[0]!.metadata.segmentCategories).toBeUndefined();
+    expect(documents[1]!.metadata.segmentCategories).toEqual(['sponsor']);
+  });
+});
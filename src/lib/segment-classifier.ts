@@ -0,0 +1,240 @@
+import nlp from 'compromise';
+import { z } from 'zod';
+import type { Document } from '@langchain/core/documents';
+import type { SegmentCategory, SegmentFilterAction, SegmentFilterSettings, ContentFilterReport } from '../types';
+import { createLogger } from './logger';
+
+const logger = createLogger('SegmentClassifier');
+
+export const SEGMENT_CATEGORIES: SegmentCategory[] = ['sponsor', 'self_promo', 'intro', 'outro'];
+
+export const DEFAULT_SEGMENT_FILTER: SegmentFilterSettings = {
+  sponsor: 'drop',
+  self_promo: 'drop',
+  intro: 'drop',
+  outro: 'drop'
+};
+
+// Per-creator overrides (creator.segmentFilter / options.segmentFilter)
+const segmentFilterActionSchema = z.enum(['drop', 'tag', 'keep']);
+export const segmentFilterOverridesSchema = z.object({
+  sponsor: segmentFilterActionSchema.optional(),
+  self_promo: segmentFilterActionSchema.optional(),
+  intro: segmentFilterActionSchema.optional(),
+  outro: segmentFilterActionSchema.optional()
+});
+
+export type SegmentFilterOverrides = z.infer<typeof segmentFilterOverridesSchema>;
+
+export function resolveSegmentFilter(overrides?: SegmentFilterOverrides): SegmentFilterSettings {
+  const settings = { ...DEFAULT_SEGMENT_FILTER };
+  for (const category of SEGMENT_CATEGORIES) {
+    const action = overrides?.[category];
+    if (action) settings[category] = action;
+  }
+  return settings;
+}
+
+// Intros and outros are only looked for in this share of the transcript at each end
+const EDGE_FRACTION = 0.12;
+// ASR transcripts often have no punctuation - long "sentences" are split into windows of this many words
+const MAX_SENTENCE_WORDS = 20;
+// A sponsor read rarely runs longer than this many sentences
+const MAX_SPONSOR_SPAN = 10;
+
+const SPONSOR_START_PATTERNS = [
+  /\b(this|today'?s) (video|episode) is (sponsored|brought to you) by\b/i,
+  /\bsponsored by\b/i,
+  /\btoday'?s sponsor\b/i,
+  /\bthanks? (you )?to [\w .'&-]{1,40} for sponsoring\b/i,
+  /\b(a )?(quick )?word from (our|today'?s) sponsor\b/i,
+  /\bpartnered with [\w .'&-]{1,40} (for|on) this video\b/i
+];
+
+// "This video is not sponsored by ...", "isn't sponsored", "never been sponsored" - disclaimers, not reads
+const SPONSOR_NEGATION_PATTERN = /(\bnot|n'?t|\bnever|\bno longer) (been |being )?(sponsored|brought to you|partnered)\b/i;
+
+// Calls to action that only a sponsor read makes - a sentence without one ends the read
+const SPONSOR_CONTINUATION_PATTERNS = [
+  /\b(promo |discount |coupon )?code\b/i,
+  /\b\d{1,2} ?(%|percent) off\b/i,
+  /\bfree trial\b/i,
+  /\b(link|links) (is |are )?(in|below|down) (in )?(the )?(description|below)\b/i,
+  /\b(exclusive|special) (offer|deal|discount)\b/i,
+  /\bfirst \d+ (people|users|customers)\b/i,
+  /\bmoney[- ]back guarantee\b/i
+];
+
+const SPONSOR_END_PATTERNS = [
+  /\b(now |and now |okay,? )?(back to|let'?s get back to|on to) (the|today'?s|our) (video|topic|episode)\b/i,
+  /\bwith that (said|out of the way)\b/i
+];
+
+const SELF_PROMO_PATTERNS = [
+  /\b(hit|smash|click|tap) (that|the) (like|subscribe|bell)\b/i,
+  /\b(don'?t forget|make sure) to (like|subscribe)\b/i,
+  /\bsubscribe (to (my|the|our) channel|and hit)\b/i,
+  /\b(join|support (me|us) on) (my |our )?patreon\b/i,
+  /\bpatreon\.com\b/i,
+  /\b(check out|grab|get) (my|our) (merch|course|book|store|shop|newsletter)\b/i,
+  /\bbecome a (channel )?member\b/i,
+  /\bfollow me on (instagram|twitter|tiktok|x|twitch)\b/i
+];
+
+const INTRO_PATTERNS = [
+  /^(hey|hi|hello|what'?s up|yo|howdy)\b.{0,30}\b(guys|everyone|everybody|folks|y'?all|friends|internet)\b/i,
+  /\bwelcome (back )?to (my|the|this|our) (channel|video|show|episode)\b/i,
+  /^welcome back\b/i,
+  /\bmy name is [\w .'-]{1,30} and (this is|welcome|i)\b/i
+];
+
+const OUTRO_PATTERNS = [
+  /\bthanks? (you )?(so much )?for watching\b/i,
+  /\bsee you (guys |all )?(in the )?next (time|video|one|week)\b/i,
+  /\bthat'?s (it|all) for (today|this (video|episode|week))\b/i,
+  /\buntil next time\b/i,
+  /\b(peace out|catch you (later|next time))\b/i
+];
+
+interface Sentence {
+  text: string;
+  category?: SegmentCategory;
+}
+
+export interface SegmentFilterResult {
+  text: string; // Transcript with dropped spans removed
+  taggedSpans: Array<{ category: SegmentCategory; text: string }>;
+  report: ContentFilterReport;
+}
+
+function splitSentences(text: string): string[] {
+  const sentences = nlp(text).sentences().out('array') as string[];
+
+  return sentences.flatMap(sentence => {
+    const words = sentence.split(/\s+/).filter(Boolean);
+    if (words.length <= MAX_SENTENCE_WORDS) return [sentence.trim()];
+
+    const windows: string[] = [];
+    for (let i = 0; i < words.length; i += MAX_SENTENCE_WORDS) {
+      windows.push(words.slice(i, i + MAX_SENTENCE_WORDS).join(' '));
+    }
+    return windows;
+  }).filter(Boolean);
+}
+
+function matchesAny(text: string, patterns: RegExp[]): boolean {
+  return patterns.some(pattern => pattern.test(text));
+}
+
+function startsSponsorRead(text: string): boolean {
+  return matchesAny(text, SPONSOR_START_PATTERNS) && !SPONSOR_NEGATION_PATTERN.test(text);
+}
+
+function classifySentences(sentences: Sentence[]): void {
+  const introEnd = Math.max(1, Math.ceil(sentences.length * EDGE_FRACTION));
+  const outroStart = Math.floor(sentences.length * (1 - EDGE_FRACTION));
+
+  for (let i = 0; i < sentences.length; i++) {
+    const sentence = sentences[i]!;
+    if (sentence.category) continue;
+
+    if (startsSponsorRead(sentence.text)) {
+      sentence.category = 'sponsor';
+
+      // Extend over the rest of the read until the calls to action stop or the creator says they are back
+      for (let j = i + 1; j < sentences.length && j <= i + MAX_SPONSOR_SPAN; j++) {
+        const next = sentences[j]!;
+        const ends = matchesAny(next.text, SPONSOR_END_PATTERNS);
+        if (!ends && !matchesAny(next.text, SPONSOR_CONTINUATION_PATTERNS)) break;
+
+        next.category = 'sponsor';
+        if (ends) break;
+      }
+      continue;
+    }
+
+    if (matchesAny(sentence.text, SELF_PROMO_PATTERNS)) {
+      sentence.category = 'self_promo';
+    } else if (i < introEnd && matchesAny(sentence.text, INTRO_PATTERNS)) {
+      sentence.category = 'intro';
+    } else if (i >= outroStart && matchesAny(sentence.text, OUTRO_PATTERNS)) {
+      sentence.category = 'outro';
+    }
+  }
+}
+
+/**
+ * Find sponsor reads, self-promotion, intros and outros in a cleaned transcript
+ * and drop or tag them according to the settings. Runs between cleanTranscript and chunking.
+ */
+export function filterTranscriptSegments(text: string, settings: SegmentFilterSettings = DEFAULT_SEGMENT_FILTER): SegmentFilterResult {
+  const report: ContentFilterReport = { removedChars: 0, removedPercent: 0, taggedChars: 0, byCategory: {} };
+
+  if (SEGMENT_CATEGORIES.every(category => settings[category] === 'keep') || !text) {
+    return { text, taggedSpans: [], report };
+  }
+
+  const sentences: Sentence[] = splitSentences(text).map(sentenceText => ({ text: sentenceText }));
+  classifySentences(sentences);
+
+  const kept: string[] = [];
+  const taggedSpans: SegmentFilterResult['taggedSpans'] = [];
+
+  for (const sentence of sentences) {
+    const action: SegmentFilterAction = sentence.category ? settings[sentence.category] : 'keep';
+
+    if (sentence.category && action !== 'keep') {
+      report.byCategory[sentence.category] = (report.byCategory[sentence.category] ?? 0) + sentence.text.length;
+    }
+
+    if (action === 'drop') {
+      report.removedChars += sentence.text.length;
+      continue;
+    }
+
+    if (action === 'tag' && sentence.category) {
+      report.taggedChars += sentence.text.length;
+      taggedSpans.push({ category: sentence.category, text: sentence.text });
+    }
+
+    kept.push(sentence.text);
+  }
+
+  report.removedPercent = text.length > 0 ? Math.round((report.removedChars / text.length) * 1000) / 10 : 0;
+
+  if (report.removedChars > 0 || report.taggedChars > 0) {
+    logger.info('Transcript segments filtered', {
+      sentences: sentences.length,
+      removedChars: report.removedChars,
+      removedPercent: report.removedPercent,
+      taggedChars: report.taggedChars,
+      byCategory: report.byCategory
+    });
+  }
+
+  return {
+    text: report.removedChars > 0 ? kept.join(' ') : text,
+    taggedSpans,
+    report
+  };
+}
+
+/**
+ * Mark chunks that contain a tagged span (metadata.segmentCategories) so retrieval can deprioritise them
+ */
+export function tagSegmentChunks(documents: Document[], taggedSpans: SegmentFilterResult['taggedSpans']): void {
+  if (taggedSpans.length === 0) return;
+
+  for (const document of documents) {
+    const categories = new Set<SegmentCategory>();
+    for (const span of taggedSpans) {
+      // Chunk boundaries can cut a span, so a distinctive prefix is enough
+      if (document.pageContent.includes(span.text.substring(0, 60))) {
+        categories.add(span.category);
+      }
+    }
+    if (categories.size > 0) {
+      document.metadata.segmentCategories = [...categories];
+    }
+  }
+}
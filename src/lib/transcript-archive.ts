@@ -0,0 +1,110 @@
+import { hashTranscript, type ChannelVideo, type CaptionTrackKind } from './youtube';
+import { connectToDatabase } from './mongodb';
+import type { TimestampSegment } from './timestamp-matching';
+import type { ProviderTranscript } from './transcript-providers';
+
+const ARCHIVE_COLLECTION = 'transcript_archive';
+
+// What the pipeline needs to know about a video besides its transcript (chapters come from the description)
+export type ArchivedVideo = Pick<ChannelVideo, 'videoId' | 'title' | 'url' | 'description' | 'publishedAt' | 'duration' | 'durationMinutes'> & {
+  thumbnailUrl?: string;
+};
+
+// Raw timestamped transcript as fetched, one per creator video - lets us re-chunk and re-embed without YouTube
+export interface ArchivedTranscript {
+  creatorId: string;
+  videoId: string;
+  provider: string;
+  language?: string;
+  trackKind?: CaptionTrackKind;
+  text: string;
+  segments: TimestampSegment[];
+  transcriptHash: string;
+  video: ArchivedVideo;
+  fetchedAt: Date;
+}
+
+export function toArchivedVideo(video: ChannelVideo): ArchivedVideo {
+  return {
+    videoId: video.videoId,
+    title: video.title,
+    url: video.url,
+    description: video.description,
+    publishedAt: video.publishedAt,
+    duration: video.duration,
+    durationMinutes: video.durationMinutes,
+    thumbnailUrl: video.thumbnails?.medium?.url ?? undefined
+  };
+}
+
+// Rebuild the pipeline's video shape; fields the archive doesn't keep get neutral values
+export function fromArchivedVideo(video: ArchivedVideo): ChannelVideo {
+  return {
+    videoId: video.videoId,
+    title: video.title,
+    description: video.description,
+    publishedAt: video.publishedAt,
+    thumbnails: video.thumbnailUrl ? { medium: { url: video.thumbnailUrl } } : undefined,
+    url: video.url,
+    duration: video.duration,
+    durationMinutes: video.durationMinutes,
+    hasCaptions: true,
+    isLivestream: false,
+    channelId: undefined,
+    viewCount: undefined,
+    likeCount: undefined,
+    commentCount: undefined
+  };
+}
+
+/**
+ * Store (or replace) the raw transcript a provider returned for a video
+ */
+export async function archiveTranscript(creatorId: string, video: ArchivedVideo, transcript: ProviderTranscript): Promise<void> {
+  const { db } = await connectToDatabase();
+
+  const entry: ArchivedTranscript = {
+    creatorId,
+    videoId: video.videoId,
+    provider: transcript.provider,
+    language: transcript.language,
+    trackKind: transcript.trackKind,
+    text: transcript.text,
+    segments: transcript.segments,
+    transcriptHash: hashTranscript(transcript.text),
+    video,
+    fetchedAt: new Date()
+  };
+
+  await db.collection<ArchivedTranscript>(ARCHIVE_COLLECTION).replaceOne(
+    { creatorId, videoId: video.videoId },
+    entry,
+    { upsert: true }
+  );
+}
+
+export async function getArchivedTranscript(creatorId: string, videoId: string): Promise<ArchivedTranscript | null> {
+  const { db } = await connectToDatabase();
+  return db.collection<ArchivedTranscript>(ARCHIVE_COLLECTION).findOne({ creatorId, videoId }, { projection: { _id: 0 } });
+}
+
+/**
+ * Archived videos for a creator (all, or just the given IDs), without transcript bodies
+ */
+export async function listArchivedVideos(creatorId: string, videoIds?: string[]): Promise<ArchivedVideo[]> {
+  const { db } = await connectToDatabase();
+  const entries = await db.collection<ArchivedTranscript>(ARCHIVE_COLLECTION)
+    .find(videoIds ? { creatorId, videoId: { $in: videoIds } } : { creatorId }, { projection: { _id: 0, video: 1 } })
+    .sort({ 'video.publishedAt': -1 })
+    .toArray();
+
+  return entries.map(entry => entry.video);
+}
+
+export async function deleteArchivedTranscripts(creatorId: string, videoId?: string): Promise<number> {
+  const { db } = await connectToDatabase();
+  const result = await db.collection<ArchivedTranscript>(ARCHIVE_COLLECTION).deleteMany(
+    videoId ? { creatorId, videoId } : { creatorId }
+  );
+  return result.deletedCount;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { TranscriptParseError, detectTranscriptFormat, formatTimestampDisplay, parseTranscriptFile } from './transcript-parser';
+
+function fixture(name: string): string {
+  return readFileSync(join(import.meta.dir, '__fixtures__', 'transcripts', name), 'utf8');
+}
+
+// [start, end, text without the display prefix] per segment
+function cues(content: string, format?: Parameters<typeof parseTranscriptFile>[1]) {
+  return parseTranscriptFile(content, format).segments.map(segment => [
+    segment.timestampSeconds,
+    segment.endSeconds,
+    segment.text.slice(segment.timestampDisplay.length + 1)
+  ]);
+}
+
+describe('parseTranscriptFile', () => {
+  it('parses SRT with a byte order mark, CRLF line endings and comma milliseconds', () => {
+    const content = fixture('bom-crlf.srt');
+    expect(content.charCodeAt(0)).toBe(0xfeff);
+    expect(content).toContain('\r\n');
+
+    const parsed = parseTranscriptFile(content);
+
+    expect(parsed.format).toBe('srt');
+    expect(cues(content)).toEqual([
+      [1, 4, 'Welcome back to the workshop!'],
+      [4, 9, "Today we're sharpening a chef's knife & a paring knife."],
+      [62, 65, 'Start with the 1000 grit stone.']
+    ]);
+    expect(parsed.segments[2]).toMatchObject({ timestampDisplay: '1:02', text: '1:02 Start with the 1000 grit stone.' });
+    expect(parsed.text).toStartWith('0:01 Welcome back to the workshop! 0:04 Today');
+  });
+
+  it('parses WebVTT, skipping the header, NOTE and STYLE blocks, cue IDs, settings and tags', () => {
+    const content = fixture('headers-notes.vtt');
+
+    expect(parseTranscriptFile(content).format).toBe('vtt');
+    expect(cues(content)).toEqual([
+      [1, 4, 'Welcome back to the workshop!'],
+      [4, 9, "Today we're sharpening a chef's knife."],
+      [3662, 3665, 'Start with the 1000 grit stone.']
+    ]);
+    expect(parseTranscriptFile(content).segments[2]!.timestampDisplay).toBe('1:01:02');
+  });
+
+  it('parses timestamped plain text, joining continuation lines and ending each line at the next', () => {
+    const content = fixture('timestamped.txt');
+
+    expect(parseTranscriptFile(content).format).toBe('text');
+    expect(cues(content)).toEqual([
+      [1, 4, 'Welcome back to the workshop!'],
+      [4, 62, "Today we're sharpening a chef's knife and a paring knife."],
+      [62, 3665, 'Start with the 1000 grit stone.'],
+      [3665, 3670, 'Finish on the strop.']
+    ]);
+  });
+
+  it('orders cues by start time', () => {
+    const srt = '2\n00:00:10,000 --> 00:00:12,000\nSecond\n\n1\n00:00:01,000 --> 00:00:03,000\nFirst\n';
+
+    expect(cues(srt).map(([, , text]) => text)).toEqual(['First', 'Second']);
+  });
+
+  it('uses the given format instead of detecting one', () => {
+    expect(cues('0:05 Hello there', 'text')).toEqual([[5, 10, 'Hello there']]);
+  });
+
+  it('throws TranscriptParseError for plain text without timestamps', () => {
+    expect(() => parseTranscriptFile('Just a paragraph of text\nwith no timestamps at all.'))
+      .toThrow(TranscriptParseError);
+    expect(() => parseTranscriptFile('Just a paragraph of text')).toThrow(/timestamp/);
+  });
+
+  it('throws TranscriptParseError for subtitle files without cues', () => {
+    expect(() => parseTranscriptFile('WEBVTT\n\nNOTE nothing here\n')).toThrow('No cues found in VTT file');
+    expect(() => parseTranscriptFile('1\n00:00:01,000 --> 00:00:02,000\n<i></i>\n')).toThrow('No cues found in SRT file');
+    expect(() => parseTranscriptFile('', 'srt')).toThrow(TranscriptParseError);
+  });
+});
+
+describe('detectTranscriptFormat', () => {
+  it('recognises each format', () => {
+    expect(detectTranscriptFormat(fixture('headers-notes.vtt'))).toBe('vtt');
+    expect(detectTranscriptFormat(fixture('bom-crlf.srt').replace(/\r/g, ''))).toBe('srt');
+    expect(detectTranscriptFormat(fixture('timestamped.txt'))).toBe('text');
+  });
+});
+
+describe('formatTimestampDisplay', () => {
+  it('uses M:SS below an hour and H:MM:SS above', () => {
+    expect(formatTimestampDisplay(5)).toBe('0:05');
+    expect(formatTimestampDisplay(62)).toBe('1:02');
+    expect(formatTimestampDisplay(3662)).toBe('1:01:02');
+  });
+});
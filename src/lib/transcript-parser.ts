@@ -0,0 +1,139 @@
+import type { TranscriptWithTimestamps } from './youtube';
+
+export type TranscriptFileFormat = 'srt' | 'vtt' | 'text';
+
+type TranscriptSegment = TranscriptWithTimestamps['segments'][number];
+
+// Seconds given to the last line of a plain-text transcript (it has no following timestamp)
+const PLAIN_TEXT_LAST_SEGMENT_SECONDS = 5;
+
+// Cue timing: "00:00:01,000 --> 00:00:03,000" (SRT) or "00:01.000 --> 00:03.000 align:start" (WebVTT)
+const CUE_TIMING_REGEX = /^((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+
+// Plain text line: "1:23 text", "[01:02:03] text", "12:05 - text"
+const PLAIN_TIMESTAMP_REGEX = /^\[?((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d+)?)\]?\s*[-–—]?\s*(.*)$/;
+
+export class TranscriptParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptParseError';
+  }
+}
+
+function parseTimestamp(value: string): number {
+  const parts = value.replace(',', '.').split(':');
+  return Math.floor(parts.reduce((total, part) => total * 60 + parseFloat(part || '0'), 0));
+}
+
+// Same display style as YouTube chapters: M:SS or H:MM:SS
+export function formatTimestampDisplay(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`
+    : `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '') // WebVTT voice/class/timestamp tags and SRT <i>/<b>
+    .replace(/\{\\[^}]*\}/g, '') // SRT ASS-style overrides like {\an8}
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toSegment(startSeconds: number, endSeconds: number, text: string): TranscriptSegment {
+  const timestampDisplay = formatTimestampDisplay(startSeconds);
+  return {
+    text: `${timestampDisplay} ${text}`,
+    timestampDisplay,
+    timestampSeconds: startSeconds,
+    endSeconds: Math.max(endSeconds, startSeconds)
+  };
+}
+
+export function detectTranscriptFormat(content: string): TranscriptFileFormat {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('WEBVTT')) return 'vtt';
+  if (trimmed.split('\n').some(line => CUE_TIMING_REGEX.test(line.trim()))) return 'srt';
+  return 'text';
+}
+
+// SRT and WebVTT share the same cue structure once headers and NOTE/STYLE blocks are skipped
+function parseCues(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of content.split(/\n\s*\n/)) {
+    const lines = block.split('\n').map(line => line.trim());
+    const timingIndex = lines.findIndex(line => CUE_TIMING_REGEX.test(line));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE, REGION, stray text
+
+    const [, start, end] = lines[timingIndex]!.match(CUE_TIMING_REGEX)!;
+    const text = cleanCueText(lines.slice(timingIndex + 1).join(' '));
+    if (!text) continue;
+
+    segments.push(toSegment(parseTimestamp(start!), parseTimestamp(end!), text));
+  }
+
+  return segments;
+}
+
+function parsePlainText(content: string): TranscriptSegment[] {
+  const entries: Array<{ start: number; text: string }> = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const match = line.match(PLAIN_TIMESTAMP_REGEX);
+    if (match) {
+      entries.push({ start: parseTimestamp(match[1]!), text: match[2] ?? '' });
+    } else if (entries.length > 0) {
+      // Continuation of the previous timestamped line
+      entries[entries.length - 1]!.text += ` ${line}`;
+    }
+  }
+
+  return entries
+    .map((entry, index) => {
+      const next = entries[index + 1];
+      const end = next ? next.start : entry.start + PLAIN_TEXT_LAST_SEGMENT_SECONDS;
+      return { ...entry, end, text: cleanCueText(entry.text) };
+    })
+    .filter(entry => entry.text.length > 0)
+    .map(entry => toSegment(entry.start, entry.end, entry.text));
+}
+
+/**
+ * Parse an uploaded SRT, WebVTT or timestamped plain-text transcript
+ * into the same shape the YouTube caption fetchers return
+ */
+export function parseTranscriptFile(content: string, format?: TranscriptFileFormat): TranscriptWithTimestamps & { format: TranscriptFileFormat } {
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const resolvedFormat = format ?? detectTranscriptFormat(normalized);
+
+  const segments = resolvedFormat === 'text' ? parsePlainText(normalized) : parseCues(normalized);
+
+  if (segments.length === 0) {
+    throw new TranscriptParseError(
+      resolvedFormat === 'text'
+        ? 'No timestamped lines found. Plain text transcripts need a timestamp (e.g. "1:23") at the start of each line.'
+        : `No cues found in ${resolvedFormat.toUpperCase()} file`
+    );
+  }
+
+  segments.sort((a, b) => a.timestampSeconds - b.timestampSeconds);
+
+  return {
+    text: segments.map(segment => segment.text).join(' '),
+    segments,
+    format: resolvedFormat
+  };
+}
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import {
+  TranscriptProviderChain,
+  TranscriptProviderConfigError,
+  createTranscriptProviderChain,
+  getTranscriptProviderChain,
+  parseTranscriptProviderNames,
+  setTranscriptProviderChain,
+  type ProviderTranscript,
+  type TranscriptProvider
+} from './transcript-providers';
+
+// Fake provider that records every call in `calls` and answers with `result`
+function fakeProvider(name: string, calls: string[], result: ProviderTranscript | null | Error): TranscriptProvider {
+  return {
+    name,
+    async fetchTranscript() {
+      calls.push(name);
+      if (result instanceof Error) throw result;
+      return result;
+    }
+  };
+}
+
+function transcript(provider: string): ProviderTranscript {
+  return { text: `transcript from ${provider}`, segments: [], provider };
+}
+
+describe('TranscriptProviderChain', () => {
+  it('returns the first provider that has a transcript and stops there', async () => {
+    const calls: string[] = [];
+    const chain = new TranscriptProviderChain([
+      fakeProvider('first', calls, transcript('first')),
+      fakeProvider('second', calls, transcript('second'))
+    ]);
+
+    expect(await chain.fetchTranscript({ videoId: 'v1' })).toEqual(transcript('first'));
+    expect(calls).toEqual(['first']);
+  });
+
+  it('falls back in order past providers without a transcript or that throw', async () => {
+    const calls: string[] = [];
+    const chain = new TranscriptProviderChain([
+      fakeProvider('missing', calls, null),
+      fakeProvider('broken', calls, new Error('upstream down')),
+      fakeProvider('empty', calls, { text: '', segments: [], provider: 'empty' }),
+      fakeProvider('working', calls, transcript('working')),
+      fakeProvider('unused', calls, transcript('unused'))
+    ]);
+
+    expect((await chain.fetchTranscript({ videoId: 'v1' }))?.provider).toBe('working');
+    expect(calls).toEqual(['missing', 'broken', 'empty', 'working']);
+  });
+
+  it('returns null when no provider has a transcript', async () => {
+    const calls: string[] = [];
+    const chain = new TranscriptProviderChain([
+      fakeProvider('missing', calls, null),
+      fakeProvider('broken', calls, new Error('upstream down'))
+    ]);
+
+    expect(await chain.fetchTranscript({ videoId: 'v1' })).toBeNull();
+    expect(calls).toEqual(['missing', 'broken']);
+  });
+
+  it('needs at least one provider', () => {
+    expect(() => new TranscriptProviderChain([])).toThrow(TranscriptProviderConfigError);
+  });
+});
+
+describe('createTranscriptProviderChain', () => {
+  it('keeps the given order and drops repeated names', () => {
+    expect(createTranscriptProviderChain(['youtubei', 'upload', 'youtubei']).names).toEqual(['youtubei', 'upload']);
+  });
+
+  it('rejects unknown names', () => {
+    expect(() => createTranscriptProviderChain(['upload', 'whisper'])).toThrow(TranscriptProviderConfigError);
+  });
+});
+
+describe('parseTranscriptProviderNames', () => {
+  it('splits a comma-separated list in fallback order', () => {
+    expect(parseTranscriptProviderNames('upload,archive,youtubei,youtube-data-api'))
+      .toEqual(['upload', 'archive', 'youtubei', 'youtube-data-api']);
+  });
+
+  it('trims, lower-cases, skips empty entries and de-duplicates', () => {
+    expect(parseTranscriptProviderNames(' Upload , ,YOUTUBEI,upload,')).toEqual(['upload', 'youtubei']);
+  });
+
+  it('rejects unknown names', () => {
+    expect(() => parseTranscriptProviderNames('upload,whisper')).toThrow(TranscriptProviderConfigError);
+    expect(() => parseTranscriptProviderNames('upload,whisper')).toThrow(/whisper/);
+  });
+});
+
+describe('setTranscriptProviderChain', () => {
+  afterEach(() => setTranscriptProviderChain(null));
+
+  it('swaps the chain used by getTranscriptProviderChain', async () => {
+    const calls: string[] = [];
+    const chain = new TranscriptProviderChain([fakeProvider('fake', calls, transcript('fake'))]);
+    setTranscriptProviderChain(chain);
+
+    expect(getTranscriptProviderChain()).toBe(chain);
+    expect((await getTranscriptProviderChain().fetchTranscript({ videoId: 'v1' }))?.provider).toBe('fake');
+  });
+
+  it('goes back to TRANSCRIPT_PROVIDERS when reset', () => {
+    setTranscriptProviderChain(new TranscriptProviderChain([fakeProvider('fake', [], null)]));
+    setTranscriptProviderChain(null);
+
+    expect(getTranscriptProviderChain().names).toEqual(parseTranscriptProviderNames(process.env.TRANSCRIPT_PROVIDERS ?? 'upload,youtubei'));
+  });
+});
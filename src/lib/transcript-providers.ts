@@ -0,0 +1,208 @@
+import { createLogger } from './logger';
+import { env } from '../config/env';
+import {
+  getVideoTranscriptWithData,
+  getVideoTranscriptWithTimestamps,
+  extractTimestampSegments,
+  DEFAULT_CAPTION_LANGUAGES,
+  type CaptionTrackKind
+} from './youtube';
+import type { TimestampSegment } from './timestamp-matching';
+import { getUploadedTranscript } from './transcript-upload';
+import { getArchivedTranscript } from './transcript-archive';
+
+const logger = createLogger('TranscriptProviders');
+
+export interface TranscriptRequest {
+  videoId: string;
+  creatorId?: string; // Needed by providers that look up creator-owned data (uploads)
+  preferredLanguages?: string[];
+}
+
+// Every provider returns this shape, whatever the upstream format
+export interface ProviderTranscript {
+  text: string;
+  segments: TimestampSegment[];
+  provider: string; // Recorded as the chunk's transcriptSource (e.g. 'youtubei', 'upload:srt')
+  language?: string;
+  trackKind?: CaptionTrackKind;
+}
+
+export interface TranscriptProvider {
+  name: string;
+  /** Resolve to null when this provider has no transcript for the video; throw only on unexpected failures */
+  fetchTranscript(request: TranscriptRequest): Promise<ProviderTranscript | null>;
+}
+
+export class TranscriptProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptProviderConfigError';
+  }
+}
+
+// YouTube Data API captions (captions.download needs OAuth for videos the key's owner doesn't manage)
+export const youtubeDataApiProvider: TranscriptProvider = {
+  name: 'youtube-data-api',
+  async fetchTranscript({ videoId, preferredLanguages }) {
+    const data = await getVideoTranscriptWithTimestamps(videoId, preferredLanguages ?? DEFAULT_CAPTION_LANGUAGES);
+    if (!data?.text) return null;
+
+    return {
+      text: data.text,
+      segments: data.segments,
+      provider: 'youtube-data-api',
+      language: data.language,
+      trackKind: data.trackKind
+    };
+  }
+};
+
+// youtubei.js transcript panel - returns flat text with inline timestamps, split back into segments here
+export const youtubeiProvider: TranscriptProvider = {
+  name: 'youtubei',
+  async fetchTranscript({ videoId, preferredLanguages }) {
+    const data = await getVideoTranscriptWithData(videoId, preferredLanguages ?? DEFAULT_CAPTION_LANGUAGES);
+    if (!data?.text) return null;
+
+    return {
+      text: data.text,
+      segments: data.segments?.length ? data.segments : extractTimestampSegments(data.text),
+      provider: 'youtubei',
+      language: data.language,
+      trackKind: data.trackKind
+    };
+  }
+};
+
+// Transcript files creators uploaded for the video (POST /api/process/transcripts)
+export const uploadedTranscriptProvider: TranscriptProvider = {
+  name: 'upload',
+  async fetchTranscript({ videoId, creatorId }) {
+    if (!creatorId) return null;
+
+    const upload = await getUploadedTranscript(creatorId, videoId);
+    if (!upload) return null;
+
+    return {
+      text: upload.text,
+      segments: upload.segments,
+      provider: upload.transcriptSource,
+      language: upload.language ?? undefined,
+      trackKind: 'manual'
+    };
+  }
+};
+
+// Raw transcripts archived on earlier runs (reindex jobs use only this provider)
+export const archivedTranscriptProvider: TranscriptProvider = {
+  name: 'archive',
+  async fetchTranscript({ videoId, creatorId }) {
+    if (!creatorId) return null;
+
+    const archived = await getArchivedTranscript(creatorId, videoId);
+    if (!archived) return null;
+
+    return {
+      text: archived.text,
+      segments: archived.segments,
+      provider: archived.provider, // Keep the original source, not 'archive'
+      language: archived.language ?? undefined,
+      trackKind: archived.trackKind ?? undefined
+    };
+  }
+};
+
+const TRANSCRIPT_PROVIDERS: Record<string, TranscriptProvider> = {
+  [uploadedTranscriptProvider.name]: uploadedTranscriptProvider,
+  [archivedTranscriptProvider.name]: archivedTranscriptProvider,
+  [youtubeiProvider.name]: youtubeiProvider,
+  [youtubeDataApiProvider.name]: youtubeDataApiProvider
+};
+
+export const TRANSCRIPT_PROVIDER_NAMES = Object.keys(TRANSCRIPT_PROVIDERS);
+
+/**
+ * Tries providers in order and returns the first transcript found.
+ * A provider that throws is logged and skipped so one broken source doesn't block the rest.
+ */
+export class TranscriptProviderChain {
+  constructor(readonly providers: TranscriptProvider[]) {
+    if (providers.length === 0) {
+      throw new TranscriptProviderConfigError('Transcript provider chain needs at least one provider');
+    }
+  }
+
+  get names(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  async fetchTranscript(request: TranscriptRequest): Promise<ProviderTranscript | null> {
+    for (const provider of this.providers) {
+      try {
+        const transcript = await provider.fetchTranscript(request);
+        if (transcript?.text) {
+          logger.info('Transcript provided', {
+            videoId: request.videoId,
+            provider: transcript.provider,
+            segments: transcript.segments.length,
+            language: transcript.language
+          });
+          return transcript;
+        }
+      } catch (error) {
+        logger.warn('Transcript provider failed, trying next', {
+          videoId: request.videoId,
+          provider: provider.name,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    logger.info('No provider had a transcript', { videoId: request.videoId, providers: this.names });
+    return null;
+  }
+}
+
+function assertKnownProviders(names: string[]): void {
+  const unknown = names.filter(name => !TRANSCRIPT_PROVIDERS[name]);
+  if (unknown.length > 0) {
+    throw new TranscriptProviderConfigError(
+      `Unknown transcript provider(s): ${unknown.join(', ')}. Available: ${TRANSCRIPT_PROVIDER_NAMES.join(', ')}`
+    );
+  }
+}
+
+/**
+ * Build a chain from provider names, e.g. ['upload', 'youtubei', 'youtube-data-api']
+ * Throws TranscriptProviderConfigError for unknown names
+ */
+export function createTranscriptProviderChain(names: string[]): TranscriptProviderChain {
+  assertKnownProviders(names);
+  return new TranscriptProviderChain([...new Set(names)].map(name => TRANSCRIPT_PROVIDERS[name]!));
+}
+
+/**
+ * TRANSCRIPT_PROVIDERS is a comma-separated list in fallback order. Names are trimmed, lower-cased and
+ * de-duplicated (first position wins); unknown ones throw TranscriptProviderConfigError
+ */
+export function parseTranscriptProviderNames(value: string): string[] {
+  const names = [...new Set(value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean))];
+  assertKnownProviders(names);
+  return names;
+}
+
+let transcriptProviderChain: TranscriptProviderChain | null = null;
+
+export function getTranscriptProviderChain(): TranscriptProviderChain {
+  if (!transcriptProviderChain) {
+    transcriptProviderChain = createTranscriptProviderChain(parseTranscriptProviderNames(env.TRANSCRIPT_PROVIDERS));
+    logger.info('Transcript provider chain configured', { providers: transcriptProviderChain.names });
+  }
+  return transcriptProviderChain;
+}
+
+// Replace the configured chain (tests, scripts); pass null to go back to TRANSCRIPT_PROVIDERS
+export function setTranscriptProviderChain(chain: TranscriptProviderChain | null): void {
+  transcriptProviderChain = chain;
+}
@@ -0,0 +1,185 @@
+import { ObjectId } from 'mongodb';
+import type { Creator, Video, ContentFilterReport } from '../types';
+import { structuredLogger } from '../middleware/logger';
+import { connectToDatabase } from './mongodb';
+import { cleanTranscript, chunkTextWithMetadata, hashTranscript, CHUNKER_VERSION } from './youtube';
+import { storeTranscriptChunks, deleteStaleVideoChunks } from './rag';
+import { parseTranscriptFile, TranscriptParseError, type TranscriptFileFormat } from './transcript-parser';
+import { filterTranscriptSegments, tagSegmentChunks, resolveSegmentFilter } from './segment-classifier';
+import type { TimestampSegment } from './timestamp-matching';
+import { archiveTranscript, getArchivedTranscript, type ArchivedVideo } from './transcript-archive';
+
+// Uploaded transcripts are recorded as 'upload:srt', 'upload:vtt' or 'upload:text'
+const UPLOADED_SOURCE_PREFIX = 'upload:';
+
+export function isUploadedTranscriptSource(source?: string): boolean {
+  return !!source?.startsWith(UPLOADED_SOURCE_PREFIX);
+}
+
+export interface UploadedTranscriptVideo {
+  videoId: string;
+  title: string;
+  url: string;
+  thumbnailUrl?: string;
+}
+
+// Parsed upload as stored in transcript_uploads, so later runs can re-index from it
+export interface StoredTranscriptUpload {
+  creatorId: string;
+  videoId: string;
+  format: TranscriptFileFormat;
+  transcriptSource: string;
+  language?: string;
+  text: string;
+  segments: TimestampSegment[];
+  uploadedAt: Date;
+}
+
+export async function getUploadedTranscript(creatorId: string, videoId: string): Promise<StoredTranscriptUpload | null> {
+  const { db } = await connectToDatabase();
+  return db.collection<StoredTranscriptUpload>('transcript_uploads').findOne({ creatorId, videoId }, { projection: { _id: 0 } });
+}
+
+export async function deleteUploadedTranscripts(creatorId: string, videoId?: string): Promise<number> {
+  const { db } = await connectToDatabase();
+  const result = await db.collection<StoredTranscriptUpload>('transcript_uploads').deleteMany(
+    videoId ? { creatorId, videoId } : { creatorId }
+  );
+  return result.deletedCount;
+}
+
+export interface UploadedTranscriptResult {
+  videoId: string;
+  format: TranscriptFileFormat;
+  transcriptSource: string;
+  segmentCount: number;
+  chunkCount: number;
+  contentFiltered: ContentFilterReport;
+}
+
+/**
+ * Parse, chunk and index a creator-supplied transcript, replacing any existing chunks for the video once the new ones are stored
+ * Throws TranscriptParseError when the file has no usable content
+ */
+export async function ingestUploadedTranscript(
+  creatorId: string,
+  video: UploadedTranscriptVideo,
+  content: string,
+  format?: TranscriptFileFormat,
+  language?: string
+): Promise<UploadedTranscriptResult> {
+  const { videoId } = video;
+  const parsed = parseTranscriptFile(content, format);
+  const transcriptSource = `${UPLOADED_SOURCE_PREFIX}${parsed.format}`;
+
+  const { db } = await connectToDatabase();
+  const creators = db.collection<Creator>('creators');
+  const creator = await creators.findOne({ _id: new ObjectId(creatorId) } as any);
+
+  // Uploaded transcripts get the same sponsor/intro/outro handling as fetched ones
+  const filtered = filterTranscriptSegments(cleanTranscript(parsed.text), resolveSegmentFilter(creator?.segmentFilter));
+
+  const documents = await chunkTextWithMetadata(
+    filtered.text,
+    parsed.segments,
+    {
+      videoId,
+      videoTitle: video.title,
+      videoUrl: video.url,
+      thumbnailUrl: video.thumbnailUrl
+    }
+  );
+
+  tagSegmentChunks(documents, filtered.taggedSpans);
+
+  if (documents.length === 0) {
+    throw new TranscriptParseError('Transcript is too short to index');
+  }
+
+  // New chunks first, so a failed embedding leaves the video's current chunks searchable
+  const storedIds = await storeTranscriptChunks(
+    creatorId,
+    videoId,
+    documents,
+    video.title,
+    video.url,
+    video.thumbnailUrl,
+    parsed.segments,
+    {
+      transcriptHash: hashTranscript(parsed.text),
+      chunkerVersion: CHUNKER_VERSION,
+      transcriptSource,
+      language,
+      captionTrackKind: 'manual'
+    }
+  );
+  await deleteStaleVideoChunks(creatorId, videoId, storedIds);
+
+  const upload: StoredTranscriptUpload = {
+    creatorId,
+    videoId,
+    format: parsed.format,
+    transcriptSource,
+    language,
+    text: parsed.text,
+    segments: parsed.segments,
+    uploadedAt: new Date()
+  };
+  await db.collection<StoredTranscriptUpload>('transcript_uploads').replaceOne({ creatorId, videoId }, upload, { upsert: true });
+
+  // The archive follows whatever is indexed; keep the description (chapters) from an earlier fetch when we have one
+  const previous = await getArchivedTranscript(creatorId, videoId);
+  const archivedVideo: ArchivedVideo = {
+    ...(previous?.video ?? { description: undefined, publishedAt: undefined, duration: undefined, durationMinutes: 0 }),
+    videoId,
+    title: video.title,
+    url: video.url,
+    thumbnailUrl: video.thumbnailUrl
+  };
+  await archiveTranscript(creatorId, archivedVideo, {
+    text: parsed.text,
+    segments: parsed.segments,
+    provider: transcriptSource,
+    language,
+    trackKind: 'manual'
+  });
+
+  // Flag the video as having a transcript (adding it if it was never part of a run)
+  const updated = await creators.updateOne(
+    { _id: new ObjectId(creatorId), 'videos.videoId': videoId } as any,
+    { $set: { 'videos.$.hasTranscript': true, updatedAt: new Date() } }
+  );
+
+  if (updated.matchedCount === 0) {
+    const videoRecord: Video = {
+      videoId,
+      title: video.title,
+      url: video.url,
+      hasTranscript: true,
+      thumbnails: video.thumbnailUrl ? { medium: { url: video.thumbnailUrl } } : undefined
+    };
+    await creators.updateOne(
+      { _id: new ObjectId(creatorId) } as any,
+      { $push: { videos: videoRecord }, $set: { updatedAt: new Date() } }
+    );
+  }
+
+  structuredLogger.info({
+    creatorId,
+    videoId,
+    transcriptSource,
+    language,
+    segmentCount: parsed.segments.length,
+    chunkCount: documents.length,
+    removedChars: filtered.report.removedChars
+  }, 'Uploaded transcript indexed');
+
+  return {
+    videoId,
+    format: parsed.format,
+    transcriptSource,
+    segmentCount: parsed.segments.length,
+    chunkCount: documents.length,
+    contentFiltered: filtered.report
+  };
+}
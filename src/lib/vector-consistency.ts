@@ -0,0 +1,349 @@
+import { Queue, Worker } from 'bullmq';
+import { ObjectId } from 'mongodb';
+import { structuredLogger } from '../middleware/logger';
+import { connectToDatabase } from './mongodb';
+import { redisConfig } from './redis';
+import { BULLMQ_PREFIX } from './processing-queue';
+import { getVectorStore, creatorNamespace } from './vector-stores';
+import { storedChunkVectorId, creatorUsesLegacyNamespace, VECTOR_TEXT_LIMIT } from './vectors';
+import { getActiveGeneration, pinActiveGeneration } from './embedding-generations';
+import { storeChunkEmbeddings, type StoredChunk } from './reembed';
+
+export const VECTOR_CONSISTENCY_QUEUE_NAME = 'vector-consistency';
+export const CONSISTENCY_REPORTS_COLLECTION = 'vector_consistency_reports';
+
+// Pinecone lists and fetches at most 100 records per request
+const VECTOR_PAGE_SIZE = 100;
+// Chunks re-embedded per request when repairing
+const REPAIR_BATCH_SIZE = 200;
+// IDs kept per finding; the counts are always exact
+const SAMPLE_SIZE = 50;
+// Vectors are written before their transcript_chunks documents - a young vector without one may just be in flight
+const IN_FLIGHT_GRACE_MS = 10 * 60 * 1000;
+
+export interface ConsistencyJobData {
+  reportId: string;
+  creatorIds?: string[]; // Defaults to every creator
+  repair: boolean;
+}
+
+// Vector IDs: the chunk ID (`${creatorId}:${videoId}:${chunkIndex}:${textHash}`), or `${creatorId}_${videoId}_${chunkIndex}`
+// for chunks stored before chunk IDs - the same ID storedChunkVectorId() gives their transcript_chunks document
+export interface ConsistencyFinding {
+  count: number;
+  sample: string[];
+}
+
+export interface CreatorConsistency {
+  creatorId: string;
+  generation?: number;
+  vectors: number;
+  chunks: number;
+  orphanVectors: ConsistencyFinding; // No transcript_chunks document - reference lookups drop them
+  orphanChunks: ConsistencyFinding; // No vector - never found by search
+  textMismatches: ConsistencyFinding; // Vector text isn't the chunk's text - reference lookups drop them
+  duplicateChunks: ConsistencyFinding; // Older transcript_chunks documents for a vector that has a newer one
+  repaired?: {
+    deletedVectors: number;
+    upsertedVectors: number;
+    deletedChunks: number;
+  };
+  skipped?: string;
+  error?: string;
+}
+
+export interface ConsistencyTotals {
+  creators: number;
+  consistent: number;
+  skipped: number;
+  failed: number;
+  orphanVectors: number;
+  orphanChunks: number;
+  textMismatches: number;
+  duplicateChunks: number;
+  deletedVectors: number;
+  upsertedVectors: number;
+  deletedChunks: number;
+}
+
+export interface ConsistencyReport {
+  _id: ObjectId;
+  jobId?: string;
+  repair: boolean;
+  creatorIds?: string[];
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  requestedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  totals?: ConsistencyTotals;
+  creators: CreatorConsistency[];
+  error?: string;
+}
+
+export const vectorConsistencyQueue = new Queue<ConsistencyJobData>(VECTOR_CONSISTENCY_QUEUE_NAME, {
+  connection: redisConfig,
+  prefix: BULLMQ_PREFIX,
+  defaultJobOptions: {
+    removeOnComplete: { count: 20 },
+    removeOnFail: { count: 20 }
+  }
+});
+
+vectorConsistencyQueue.on('error', (err) => {
+  structuredLogger.error({ error: err }, 'Vector consistency queue error');
+});
+
+async function reportsCollection() {
+  const { db } = await connectToDatabase();
+  return db.collection<ConsistencyReport>(CONSISTENCY_REPORTS_COLLECTION);
+}
+
+function finding(ids: string[]): ConsistencyFinding {
+  return { count: ids.length, sample: ids.slice(0, SAMPLE_SIZE) };
+}
+
+/**
+ * Queue a check of the given creators (or all of them). With `repair`, findings are fixed as well.
+ * Returns the report the job fills in.
+ */
+export async function enqueueConsistencyCheck(options: { creatorIds?: string[]; repair: boolean }): Promise<{ reportId: string; jobId: string }> {
+  const reports = await reportsCollection();
+  const reportId = new ObjectId();
+
+  await reports.insertOne({
+    _id: reportId,
+    repair: options.repair,
+    creatorIds: options.creatorIds,
+    status: 'queued',
+    requestedAt: new Date(),
+    creators: []
+  });
+
+  const job = await vectorConsistencyQueue.add('check', { reportId: reportId.toHexString(), ...options });
+  await reports.updateOne({ _id: reportId }, { $set: { jobId: job.id } });
+
+  return { reportId: reportId.toHexString(), jobId: job.id! };
+}
+
+/**
+ * Compare a creator's active-generation vectors with their transcript_chunks documents, matched by vector ID.
+ * transcript_chunks is the source of truth: repairs delete orphan vectors, re-embed chunks that are missing or
+ * whose vector text differs, and remove older duplicate chunk documents.
+ */
+export async function checkCreatorConsistency(creatorId: string, repair: boolean, reportId: string): Promise<CreatorConsistency> {
+  // A repair may write the creator's first vectors
+  const generation = repair ? await pinActiveGeneration(creatorId) : await getActiveGeneration(creatorId);
+  const empty = finding([]);
+  const result: CreatorConsistency = {
+    creatorId,
+    generation: generation.version,
+    vectors: 0,
+    chunks: 0,
+    orphanVectors: empty,
+    orphanChunks: empty,
+    textMismatches: empty,
+    duplicateChunks: empty
+  };
+
+  // Half of such a creator's vectors are outside the namespace compared here
+  if (generation.version === 1 && await creatorUsesLegacyNamespace(creatorId)) {
+    return { ...result, skipped: 'Vectors still in the legacy namespace - run the namespace migration first' };
+  }
+
+  const { db } = await connectToDatabase();
+  const chunksCollection = db.collection<StoredChunk>('transcript_chunks');
+  const store = getVectorStore(generation.dimensions);
+  const namespace = creatorNamespace(creatorId, generation.version);
+
+  // Oldest first, so the newest document for a vector ID wins and the older ones count as duplicates
+  const chunks = await chunksCollection.find({ creatorId }).sort({ createdAt: 1, _id: 1 }).toArray();
+  const chunkByVectorId = new Map<string, StoredChunk>();
+  const duplicates: StoredChunk[] = [];
+  for (const chunk of chunks) {
+    const vectorId = storedChunkVectorId(chunk);
+    const older = chunkByVectorId.get(vectorId);
+    if (older) duplicates.push(older);
+    chunkByVectorId.set(vectorId, chunk);
+  }
+
+  const inFlightSince = Date.now() - IN_FLIGHT_GRACE_MS;
+  const seenVectorIds = new Set<string>();
+  const orphanVectorIds: string[] = [];
+  const mismatchedIds: string[] = [];
+
+  let paginationToken: string | undefined;
+  do {
+    const page = await store.listIds(namespace, { limit: VECTOR_PAGE_SIZE, paginationToken });
+    const records = await store.fetch(namespace, page.ids);
+
+    for (const record of records) {
+      seenVectorIds.add(record.id);
+      const chunk = chunkByVectorId.get(record.id);
+
+      if (!chunk) {
+        const createdAt = Date.parse(String(record.metadata.createdAt ?? ''));
+        if (!(createdAt > inFlightSince)) orphanVectorIds.push(record.id);
+      } else if (record.metadata.text !== chunk.text.substring(0, VECTOR_TEXT_LIMIT)) {
+        mismatchedIds.push(record.id);
+      }
+    }
+
+    paginationToken = page.nextToken;
+  } while (paginationToken);
+
+  const orphanChunkIds = [...chunkByVectorId.keys()].filter(vectorId => !seenVectorIds.has(vectorId));
+
+  result.vectors = seenVectorIds.size;
+  result.chunks = chunkByVectorId.size;
+  result.orphanVectors = finding(orphanVectorIds);
+  result.orphanChunks = finding(orphanChunkIds);
+  result.textMismatches = finding(mismatchedIds);
+  result.duplicateChunks = finding(duplicates.map(storedChunkVectorId));
+
+  if (!repair) return result;
+
+  await store.deleteMany(namespace, orphanVectorIds);
+
+  const toUpsert = [...orphanChunkIds, ...mismatchedIds].map(vectorId => chunkByVectorId.get(vectorId)!);
+  for (let i = 0; i < toUpsert.length; i += REPAIR_BATCH_SIZE) {
+    await storeChunkEmbeddings(creatorId, generation, toUpsert.slice(i, i + REPAIR_BATCH_SIZE), { consistencyReportId: reportId });
+  }
+
+  const deletedChunks = duplicates.length > 0
+    ? (await chunksCollection.deleteMany({ _id: { $in: duplicates.map(chunk => chunk._id) } })).deletedCount
+    : 0;
+
+  result.repaired = { deletedVectors: orphanVectorIds.length, upsertedVectors: toUpsert.length, deletedChunks };
+
+  structuredLogger.info({ creatorId, namespace, ...result.repaired }, 'Vector consistency repaired');
+
+  return result;
+}
+
+function summarize(creators: CreatorConsistency[]): ConsistencyTotals {
+  const totals: ConsistencyTotals = {
+    creators: creators.length,
+    consistent: 0,
+    skipped: 0,
+    failed: 0,
+    orphanVectors: 0,
+    orphanChunks: 0,
+    textMismatches: 0,
+    duplicateChunks: 0,
+    deletedVectors: 0,
+    upsertedVectors: 0,
+    deletedChunks: 0
+  };
+
+  for (const creator of creators) {
+    if (creator.error) totals.failed++;
+    else if (creator.skipped) totals.skipped++;
+
+    const findings = creator.orphanVectors.count + creator.orphanChunks.count + creator.textMismatches.count + creator.duplicateChunks.count;
+    if (!creator.error && !creator.skipped && findings === 0) totals.consistent++;
+
+    totals.orphanVectors += creator.orphanVectors.count;
+    totals.orphanChunks += creator.orphanChunks.count;
+    totals.textMismatches += creator.textMismatches.count;
+    totals.duplicateChunks += creator.duplicateChunks.count;
+    totals.deletedVectors += creator.repaired?.deletedVectors ?? 0;
+    totals.upsertedVectors += creator.repaired?.upsertedVectors ?? 0;
+    totals.deletedChunks += creator.repaired?.deletedChunks ?? 0;
+  }
+
+  return totals;
+}
+
+/**
+ * Check (and optionally repair) creators one at a time, appending each result to the report as it finishes
+ */
+export async function runConsistencyCheck({ reportId, creatorIds: requested, repair }: ConsistencyJobData): Promise<ConsistencyTotals> {
+  const reports = await reportsCollection();
+  const { db } = await connectToDatabase();
+  const _id = new ObjectId(reportId);
+
+  const creatorIds = requested ?? (
+    await db.collection<{ _id: ObjectId }>('creators').find({}, { projection: { _id: 1 } }).toArray()
+  ).map(creator => creator._id.toString());
+
+  // A retried job starts over
+  await reports.updateOne({ _id }, { $set: { status: 'running', startedAt: new Date(), creators: [] }, $unset: { error: '' } });
+
+  structuredLogger.info({ reportId, creators: creatorIds.length, repair }, 'Vector consistency check started');
+
+  const results: CreatorConsistency[] = [];
+
+  try {
+    for (const creatorId of creatorIds) {
+      let result: CreatorConsistency;
+      try {
+        result = await checkCreatorConsistency(creatorId, repair, reportId);
+      } catch (error) {
+        structuredLogger.error({ error, creatorId, reportId }, 'Vector consistency check failed for creator');
+        const empty = finding([]);
+        result = {
+          creatorId,
+          vectors: 0,
+          chunks: 0,
+          orphanVectors: empty,
+          orphanChunks: empty,
+          textMismatches: empty,
+          duplicateChunks: empty,
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+
+      results.push(result);
+      await reports.updateOne({ _id }, { $push: { creators: result } });
+    }
+
+    const totals = summarize(results);
+    await reports.updateOne({ _id }, { $set: { status: 'completed', completedAt: new Date(), totals } });
+
+    structuredLogger.info({ reportId, repair, ...totals }, 'Vector consistency check finished');
+
+    return totals;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await reports.updateOne({ _id }, { $set: { status: 'failed', error: message, totals: summarize(results) } });
+    structuredLogger.error({ error, reportId }, 'Vector consistency check failed');
+    throw error;
+  }
+}
+
+export async function getConsistencyReport(reportId: string): Promise<ConsistencyReport | null> {
+  if (!ObjectId.isValid(reportId)) return null;
+  return (await reportsCollection()).findOne({ _id: new ObjectId(reportId) });
+}
+
+// Newest first, without the per-creator results
+export async function listConsistencyReports(limit = 20): Promise<Omit<ConsistencyReport, 'creators'>[]> {
+  return (await reportsCollection())
+    .find({}, { projection: { creators: 0 } })
+    .sort({ requestedAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+/**
+ * Start the worker that runs consistency checks and repairs
+ */
+export function startVectorConsistencyWorker() {
+  const worker = new Worker<ConsistencyJobData>(VECTOR_CONSISTENCY_QUEUE_NAME, (bullJob) => runConsistencyCheck(bullJob.data), {
+    connection: redisConfig,
+    prefix: BULLMQ_PREFIX,
+    concurrency: 1
+  });
+
+  worker.on('failed', (bullJob, err) => {
+    structuredLogger.error({ error: err, bullJobId: bullJob?.id }, 'Vector consistency run failed');
+  });
+
+  worker.on('error', (err) => {
+    structuredLogger.error({ error: err }, 'Vector consistency worker error');
+  });
+
+  structuredLogger.info({ queue: VECTOR_CONSISTENCY_QUEUE_NAME }, 'Vector consistency worker started');
+
+  return worker;
+}
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { hashEmbedding } from './embedding-providers';
+import { createInMemoryVectorStore, creatorNamespace, zeroVector, type VectorRecord, type VectorStore } from './vector-stores';
+
+const DIMENSIONS = 128;
+
+function record(id: string, text: string, metadata: VectorRecord['metadata'] = {}): VectorRecord {
+  return { id, values: hashEmbedding(text, DIMENSIONS), metadata: { text, ...metadata } };
+}
+
+describe('InMemoryVectorStore', () => {
+  let store: VectorStore;
+
+  beforeEach(async () => {
+    store = createInMemoryVectorStore(DIMENSIONS);
+    await store.upsert('creator-a', [
+      record('a:v1:0', 'sourdough starter feeding schedule', { videoId: 'v1', chunkIndex: 0 }),
+      record('a:v1:1', 'shaping a sourdough loaf', { videoId: 'v1', chunkIndex: 1 }),
+      record('a:v2:0', 'sharpening a chef knife on a whetstone', { videoId: 'v2', chunkIndex: 0 })
+    ]);
+    await store.upsert('creator-b', [
+      record('b:v9:0', 'sourdough starter feeding schedule', { videoId: 'v9', chunkIndex: 0 })
+    ]);
+  });
+
+  it('ranks matches by cosine similarity, best first', async () => {
+    const matches = await store.query('creator-a', { vector: hashEmbedding('sourdough starter feeding', DIMENSIONS), topK: 3 });
+
+    expect(matches.map(match => match.id)).toEqual(['a:v1:0', 'a:v1:1', 'a:v2:0']);
+    expect(matches[0]!.score).toBeGreaterThan(matches[1]!.score);
+    expect(matches[0]!.metadata).toMatchObject({ videoId: 'v1', chunkIndex: 0 });
+  });
+
+  it('applies topK, the metadata filter and includeMetadata', async () => {
+    const vector = hashEmbedding('sourdough', DIMENSIONS);
+
+    expect(await store.query('creator-a', { vector, topK: 1 })).toHaveLength(1);
+
+    const filtered = await store.query('creator-a', { vector, topK: 10, filter: { videoId: 'v2' }, includeMetadata: false });
+    expect(filtered.map(match => match.id)).toEqual(['a:v2:0']);
+    expect(filtered[0]!.metadata).toBeUndefined();
+  });
+
+  it('scores a zero query vector 0 so filter-only lookups still list records', async () => {
+    const matches = await store.query('creator-a', { vector: zeroVector(DIMENSIONS), topK: 10, filter: { videoId: 'v1' } });
+
+    expect(matches.map(match => match.id).sort()).toEqual(['a:v1:0', 'a:v1:1']);
+    expect(matches.every(match => match.score === 0)).toBe(true);
+  });
+
+  it('keeps namespaces apart', async () => {
+    const vector = hashEmbedding('sourdough starter feeding schedule', DIMENSIONS);
+
+    expect((await store.query('creator-b', { vector, topK: 10 })).map(match => match.id)).toEqual(['b:v9:0']);
+    expect(await store.query('creator-c', { vector, topK: 10 })).toEqual([]);
+    expect(await store.fetch('creator-b', ['a:v1:0', 'b:v9:0'])).toHaveLength(1);
+  });
+
+  it('replaces records with the same ID', async () => {
+    await store.upsert('creator-a', [record('a:v1:0', 'rewritten chunk', { videoId: 'v1', chunkIndex: 0 })]);
+
+    const [fetched] = await store.fetch('creator-a', ['a:v1:0']);
+    expect(fetched?.metadata.text).toBe('rewritten chunk');
+    expect((await store.stats()).namespaces['creator-a']).toBe(3);
+  });
+
+  it('rejects vectors of another dimension', async () => {
+    await expect(store.upsert('creator-a', [{ id: 'x', values: [1, 0], metadata: {} }])).rejects.toThrow(/dimension/);
+  });
+
+  it('deletes by filter within one namespace only', async () => {
+    expect(await store.deleteByFilter('creator-a', { videoId: 'v1' })).toBe(2);
+
+    expect((await store.listIds('creator-a')).ids).toEqual(['a:v2:0']);
+    expect((await store.listIds('creator-b')).ids).toEqual(['b:v9:0']);
+    expect(await store.deleteByFilter('creator-a', { videoId: 'v1' })).toBe(0);
+  });
+
+  it('deletes by ID and drops whole namespaces', async () => {
+    await store.deleteMany('creator-a', ['a:v1:1', 'missing']);
+    expect((await store.listIds('creator-a')).ids).toEqual(['a:v1:0', 'a:v2:0']);
+
+    await store.deleteNamespace('creator-a');
+    const stats = await store.stats();
+    expect(stats.namespaces).toEqual({ 'creator-b': 1 });
+    expect(stats.totalVectors).toBe(1);
+    expect(stats.dimension).toBe(DIMENSIONS);
+  });
+
+  it('lists IDs by prefix, a page at a time', async () => {
+    const first = await store.listIds('creator-a', { prefix: 'a:v1:', limit: 1 });
+    expect(first).toEqual({ ids: ['a:v1:0'], nextToken: 'a:v1:0' });
+
+    const second = await store.listIds('creator-a', { prefix: 'a:v1:', limit: 1, paginationToken: first.nextToken });
+    expect(second).toEqual({ ids: ['a:v1:1'], nextToken: undefined });
+  });
+});
+
+describe('creatorNamespace', () => {
+  it('names generation 1 after the creator and later generations with a suffix', () => {
+    expect(creatorNamespace('c1')).toBe('creator-c1');
+    expect(creatorNamespace('c1', 1)).toBe('creator-c1');
+    expect(creatorNamespace('c1', 3)).toBe('creator-c1-g3');
+  });
+});
@@ -0,0 +1,224 @@
+import { createLogger } from './logger';
+import { env } from '../config/env';
+import { getEmbeddingProvider } from './embedding-providers';
+import { createPineconeVectorStore } from './pinecone';
+
+const logger = createLogger('VectorStores');
+
+export type VectorStoreName = 'pinecone' | 'memory';
+
+// Where vectors lived before each creator got a namespace (Pinecone's name for the default namespace)
+export const LEGACY_NAMESPACE = '__default__';
+
+// Every vector written before embedding generations existed came from text-embedding-3-large
+export const LEGACY_DIMENSIONS = 3072;
+
+/**
+ * A creator's namespace for one embedding generation. Generation 1 keeps the original,
+ * unsuffixed name so vectors written before generations existed need no move.
+ */
+export function creatorNamespace(creatorId: string, generation = 1): string {
+  return generation === 1 ? `creator-${creatorId}` : `creator-${creatorId}-g${generation}`;
+}
+
+// Same value types Pinecone accepts - null is not allowed
+export type VectorMetadata = Record<string, string | number | boolean | string[]>;
+
+// Exact-match conditions on metadata fields, all of which must hold
+export type VectorFilter = Record<string, string | number | boolean>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number; // Cosine similarity
+  metadata?: VectorMetadata;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+  includeMetadata?: boolean;
+}
+
+export interface VectorIdPage {
+  ids: string[];
+  nextToken?: string;
+}
+
+export interface VectorStoreStats {
+  totalVectors: number;
+  dimension: number;
+  indexFullness: number;
+  namespaces: Record<string, number>; // Vector count per namespace
+}
+
+/**
+ * Every operation is scoped to one namespace; see creatorNamespace(). A store holds vectors of a single
+ * dimension - getVectorStore() returns one per dimension.
+ */
+export interface VectorStore {
+  name: VectorStoreName;
+  dimensions: number;
+  /** Insert or replace records by ID */
+  upsert(namespace: string, records: VectorRecord[]): Promise<void>;
+  /** Best matches first */
+  query(namespace: string, query: VectorQuery): Promise<VectorMatch[]>;
+  /** Records that exist; missing IDs are left out */
+  fetch(namespace: string, ids: string[]): Promise<VectorRecord[]>;
+  /** IDs in lexicographic order, a page at a time */
+  listIds(namespace: string, options?: { prefix?: string; limit?: number; paginationToken?: string }): Promise<VectorIdPage>;
+  deleteMany(namespace: string, ids: string[]): Promise<void>;
+  /** Returns how many records were deleted */
+  deleteByFilter(namespace: string, filter: VectorFilter): Promise<number>;
+  /** Drop the namespace and everything in it; no-op when it doesn't exist */
+  deleteNamespace(namespace: string): Promise<void>;
+  stats(): Promise<VectorStoreStats>;
+}
+
+// Query vector for lookups that only care about the filter
+export function zeroVector(dimensions = getEmbeddingProvider().dimensions): number[] {
+  return new Array<number>(dimensions).fill(0);
+}
+
+function matchesFilter(metadata: VectorMetadata, filter: VectorFilter | undefined): boolean {
+  return !filter || Object.entries(filter).every(([key, value]) => metadata[key] === value);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * (b[i] ?? 0);
+    normA += a[i]! * a[i]!;
+    normB += (b[i] ?? 0) * (b[i] ?? 0);
+  }
+  // A zero vector (filter-only lookups) has no direction - score it 0 rather than NaN
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Process-local store with brute-force cosine search. Nothing is persisted or shared between
+ * processes - meant for local development and tests, not production.
+ */
+export function createInMemoryVectorStore(dimensions = getEmbeddingProvider().dimensions): VectorStore {
+  const namespaces = new Map<string, Map<string, VectorRecord>>();
+
+  const recordsIn = (namespace: string): Map<string, VectorRecord> => {
+    let records = namespaces.get(namespace);
+    if (!records) {
+      records = new Map();
+      namespaces.set(namespace, records);
+    }
+    return records;
+  };
+
+  const copy = (record: VectorRecord): VectorRecord =>
+    ({ id: record.id, values: [...record.values], metadata: { ...record.metadata } });
+
+  return {
+    name: 'memory',
+    dimensions,
+    async upsert(namespace, batch) {
+      const records = recordsIn(namespace);
+      for (const record of batch) {
+        // Mirror Pinecone, which rejects vectors that don't match the index dimension
+        if (record.values.length !== dimensions) {
+          throw new Error(`Vector dimension ${record.values.length} does not match store dimension ${dimensions}`);
+        }
+        records.set(record.id, copy(record));
+      }
+    },
+    async query(namespace, { vector, topK, filter, includeMetadata = true }) {
+      return [...recordsIn(namespace).values()]
+        .filter(record => matchesFilter(record.metadata, filter))
+        .map(record => ({
+          id: record.id,
+          score: cosineSimilarity(vector, record.values),
+          ...(includeMetadata && { metadata: { ...record.metadata } })
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+    async fetch(namespace, ids) {
+      const records = recordsIn(namespace);
+      return ids.flatMap(id => {
+        const record = records.get(id);
+        return record ? [copy(record)] : [];
+      });
+    },
+    async listIds(namespace, { prefix = '', limit = 100, paginationToken } = {}) {
+      // The token is the last ID of the previous page
+      const ids = [...recordsIn(namespace).keys()]
+        .filter(id => id.startsWith(prefix) && (paginationToken === undefined || id > paginationToken))
+        .sort();
+      const page = ids.slice(0, limit);
+      return { ids: page, nextToken: ids.length > limit ? page[page.length - 1] : undefined };
+    },
+    async deleteMany(namespace, ids) {
+      const records = recordsIn(namespace);
+      for (const id of ids) records.delete(id);
+    },
+    async deleteByFilter(namespace, filter) {
+      const records = recordsIn(namespace);
+      let deleted = 0;
+      for (const [id, record] of records) {
+        if (matchesFilter(record.metadata, filter)) {
+          records.delete(id);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+    async deleteNamespace(namespace) {
+      namespaces.delete(namespace);
+    },
+    async stats() {
+      const counts: Record<string, number> = {};
+      for (const [namespace, records] of namespaces) {
+        if (records.size > 0) counts[namespace] = records.size;
+      }
+      return {
+        totalVectors: Object.values(counts).reduce((total, count) => total + count, 0),
+        dimension: dimensions,
+        indexFullness: 0,
+        namespaces: counts
+      };
+    }
+  };
+}
+
+export function createVectorStore(name: VectorStoreName, dimensions = getEmbeddingProvider().dimensions): VectorStore {
+  return name === 'memory' ? createInMemoryVectorStore(dimensions) : createPineconeVectorStore(dimensions);
+}
+
+const stores = new Map<number, VectorStore>();
+
+/**
+ * The VECTOR_STORE store for one embedding dimension (a Pinecone index per dimension).
+ * Defaults to the configured provider's dimension.
+ */
+export function getVectorStore(dimensions = getEmbeddingProvider().dimensions): VectorStore {
+  let store = stores.get(dimensions);
+  if (!store) {
+    store = createVectorStore(env.VECTOR_STORE, dimensions);
+    stores.set(dimensions, store);
+    logger.info('Vector store configured', { store: store.name, dimensions });
+  }
+  return store;
+}
+
+// Replace the store for its dimension (tests, scripts); pass null to go back to VECTOR_STORE everywhere
+export function setVectorStore(store: VectorStore | null): void {
+  if (store) {
+    stores.set(store.dimensions, store);
+  } else {
+    stores.clear();
+  }
+}
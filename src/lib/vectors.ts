@@ -0,0 +1,554 @@
+import { createHash } from 'crypto';
+import type { ObjectId } from 'mongodb';
+import { createLogger } from './logger';
+import { connectToDatabase } from './mongodb';
+import { trackPineconeUsage } from './monitoring';
+import { getEmbeddingProvider } from './embedding-providers';
+import {
+  getActiveGeneration,
+  pinActiveGeneration,
+  findCreatorGenerations,
+  defaultGeneration,
+  storedGenerations,
+  type EmbeddingGeneration
+} from './embedding-generations';
+import {
+  getVectorStore,
+  creatorNamespace,
+  LEGACY_NAMESPACE,
+  LEGACY_DIMENSIONS,
+  type VectorStore,
+  type VectorRecord,
+  type VectorMatch,
+  type VectorMetadata,
+  type VectorStoreStats
+} from './vector-stores';
+
+const logger = createLogger('Vectors');
+
+export const NAMESPACE_MIGRATIONS_COLLECTION = 'vector_namespace_migrations';
+
+// Progress of moving one creator's vectors out of the shared legacy namespace
+export interface NamespaceMigration {
+  creatorId: string;
+  status: 'running' | 'completed' | 'failed';
+  copiedVectors: number;
+  skippedVectors: number; // Already written to the creator namespace by newer processing
+  startedAt: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
+// Both answers are final once true (nothing writes to the legacy namespace any more), so they are cached for good
+const migratedCreators = new Set<string>();
+let legacyNamespaceEmpty = false;
+let legacyCheckedAt = 0;
+const LEGACY_CHECK_INTERVAL_MS = 60_000;
+
+// Only Pinecone calls are billed; the in-memory store is free
+async function trackVectorUsage(store: VectorStore, operation: string, metadata: Record<string, unknown>) {
+  if (store.name !== 'pinecone') return;
+  await trackPineconeUsage(operation, metadata);
+}
+
+export function markCreatorNamespaceMigrated(creatorId: string): void {
+  migratedCreators.add(creatorId);
+}
+
+/**
+ * Whether a creator may still have vectors in the legacy namespace. Until their migration completes,
+ * reads and deletes cover both namespaces so the move needs no downtime. Errs towards true.
+ */
+async function usesLegacyNamespace(store: VectorStore, creatorId: string): Promise<boolean> {
+  if (legacyNamespaceEmpty || migratedCreators.has(creatorId)) return false;
+
+  try {
+    if (Date.now() - legacyCheckedAt > LEGACY_CHECK_INTERVAL_MS) {
+      const { namespaces } = await store.stats();
+      legacyCheckedAt = Date.now();
+      if (!namespaces[LEGACY_NAMESPACE]) {
+        legacyNamespaceEmpty = true;
+        return false;
+      }
+    }
+
+    const { db } = await connectToDatabase();
+    const migration = await db.collection<NamespaceMigration>(NAMESPACE_MIGRATIONS_COLLECTION)
+      .findOne({ creatorId, status: 'completed' }, { projection: { _id: 1 } });
+    if (migration) {
+      migratedCreators.add(creatorId);
+      return false;
+    }
+  } catch (error) {
+    logger.warn('Could not check namespace migration - including legacy namespace', {
+      creatorId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  return true;
+}
+
+// The legacy namespace predates generations, so only a generation 1 of the original size can search it
+function readsLegacyNamespace(generation: EmbeddingGeneration): boolean {
+  return generation.version === 1 && generation.dimensions === LEGACY_DIMENSIONS;
+}
+
+// Generations that may hold a creator's vectors; without a record only generation 1 can
+async function creatorVectorGenerations(creatorId: string): Promise<EmbeddingGeneration[]> {
+  const generations = await findCreatorGenerations(creatorId);
+  return generations ? storedGenerations(generations) : [defaultGeneration()];
+}
+
+// Best matches from both namespaces; a record copied mid-migration only counts once
+function mergeMatches(current: VectorMatch[], legacy: VectorMatch[], topK: number): VectorMatch[] {
+  const seen = new Set(current.map(match => match.id));
+  return [...current, ...legacy.filter(match => !seen.has(match.id))]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+// Vector metadata keeps at most this much of a chunk's text; the full text stays in transcript_chunks
+export const VECTOR_TEXT_LIMIT = 5000;
+
+// Search hit that can be joined back to its transcript_chunks document by ID
+export interface ChunkMatch {
+  id: string;
+  score: number; // Cosine similarity
+  text: string; // At most VECTOR_TEXT_LIMIT characters
+  videoId: string;
+  chunkIndex: number;
+  metadata: VectorMetadata;
+}
+
+/**
+ * Stable ID of a chunk, used as both its vector ID and its transcript_chunks _id. The text hash gives a
+ * re-chunked video new IDs instead of pairing an old vector with new text.
+ */
+export function chunkId(creatorId: string, videoId: string, chunkIndex: number, text: string): string {
+  const hash = createHash('sha256').update(text).digest('hex').substring(0, 16);
+  return `${creatorId}:${videoId}:${chunkIndex}:${hash}`;
+}
+
+// Vector ID of chunks stored before chunk IDs, whose transcript_chunks documents have ObjectIds
+export function chunkVectorId(creatorId: string, videoId: string, chunkIndex: number): string {
+  return `${creatorId}_${videoId}_${chunkIndex}`;
+}
+
+// The vector ID that belongs to a stored transcript_chunks document
+export function storedChunkVectorId(chunk: { _id: string | ObjectId; creatorId: string; videoId: string; chunkIndex: number }): string {
+  return typeof chunk._id === 'string' ? chunk._id : chunkVectorId(chunk.creatorId, chunk.videoId, chunk.chunkIndex);
+}
+
+// Whether some of a creator's generation 1 vectors may still sit in the legacy namespace
+export async function creatorUsesLegacyNamespace(creatorId: string): Promise<boolean> {
+  return usesLegacyNamespace(getVectorStore(LEGACY_DIMENSIONS), creatorId);
+}
+
+// IMPROVED: Better error handling and batch processing
+export async function storeTranscriptChunks(
+  creatorId: string,
+  videoId: string,
+  chunks: Array<{
+    id?: string; // Defaults to chunkId() of the chunk
+    text: string;
+    embedding: number[];
+    chunkIndex: number;
+    videoTitle?: string;
+    startTime?: number;
+    endTime?: number;
+    language?: string;
+    captionTrackKind?: 'manual' | 'asr';
+  }>,
+  generation?: EmbeddingGeneration // Defaults to the creator's active generation (pinned); embeddings must come from its provider
+): Promise<void> {
+  if (chunks.length === 0) {
+    logger.warn('No chunks to store', { creatorId, videoId });
+    return;
+  }
+
+  const target = generation ?? await pinActiveGeneration(creatorId);
+  const store = getVectorStore(target.dimensions);
+  const namespace = creatorNamespace(creatorId, target.version);
+
+  const chunksWithTimestamps = chunks.filter(c => c.startTime !== undefined).length;
+
+  logger.info('Preparing vectors', {
+    store: store.name,
+    totalChunks: chunks.length,
+    chunksWithTimestamps,
+    timestampCoverage: `${Math.round((chunksWithTimestamps / chunks.length) * 100)}%`
+  });
+
+  const vectors: VectorRecord[] = chunks.map(chunk => ({
+    id: chunk.id ?? chunkId(creatorId, videoId, chunk.chunkIndex, chunk.text),
+    values: chunk.embedding,
+    metadata: {
+      creatorId,
+      videoId,
+      chunkIndex: chunk.chunkIndex,
+      // OPTIMIZATION: Store full text but limit to 5000 chars (down from 40000)
+      // Full text in MongoDB for reference. This reduces Pinecone costs by ~70%
+      text: chunk.text.substring(0, VECTOR_TEXT_LIMIT),
+      videoTitle: chunk.videoTitle ?? '',
+      startTime: chunk.startTime ?? 0,
+      endTime: chunk.endTime ?? 0,
+      // Pinecone rejects null metadata, so caption details are only set when known
+      ...(chunk.language && { language: chunk.language }),
+      ...(chunk.captionTrackKind && { captionTrackKind: chunk.captionTrackKind }),
+      embeddingProvider: target.provider,
+      embeddingModel: target.model,
+      embeddingGeneration: target.version,
+      createdAt: new Date().toISOString()
+    }
+  }));
+
+  try {
+    logger.info('Storing vectors', {
+      totalVectors: vectors.length,
+      namespace,
+      creatorId,
+      videoId
+    });
+
+    await store.upsert(namespace, vectors);
+
+    logger.info('Successfully stored vectors', {
+      vectorCount: vectors.length,
+      creatorId,
+      videoId
+    });
+
+    // Track overall operation
+    await trackVectorUsage(store, 'store_chunks', {
+      totalVectors: vectors.length,
+      creatorId,
+      videoId,
+      success: true
+    });
+  } catch (error: unknown) {
+    logger.error('Error storing chunks', error, { videoId, creatorId });
+
+    // Track failed operation
+    await trackVectorUsage(store, 'store_chunks', {
+      creatorId,
+      videoId,
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    throw error;
+  }
+}
+
+// IMPROVED: Better error handling and debugging
+export async function searchSimilarChunks(
+  creatorId: string,
+  queryEmbedding: number[],
+  topK = 5,
+  generation?: EmbeddingGeneration // The one queryEmbedding was made for; defaults to the active generation
+): Promise<ChunkMatch[]> {
+  let store = getVectorStore();
+
+  try {
+    const target = generation ?? await getActiveGeneration(creatorId);
+    store = getVectorStore(target.dimensions);
+    const includeLegacy = readsLegacyNamespace(target) && await usesLegacyNamespace(store, creatorId);
+
+    logger.info('Searching vectors', { store: store.name, creatorId, topK, generation: target.version, includeLegacy });
+
+    const [current, legacy] = await Promise.all([
+      store.query(creatorNamespace(creatorId, target.version), { vector: queryEmbedding, topK, includeMetadata: true }),
+      includeLegacy
+        ? store.query(LEGACY_NAMESPACE, { vector: queryEmbedding, topK, filter: { creatorId }, includeMetadata: true })
+        : Promise.resolve([])
+    ]);
+    const matches = mergeMatches(current, legacy, topK);
+
+    if (matches.length === 0) {
+      logger.info('No matches found', { creatorId });
+      return [];
+    }
+
+    const matchData = matches.map((match, index) => ({
+      rank: index + 1,
+      score: match.score.toFixed(3),
+      preview: String(match.metadata?.text ?? '').substring(0, 50) + '...',
+      hasTimestamp: (match.metadata?.startTime as number ?? 0) > 0
+    }));
+
+    logger.info('Search results found', {
+      totalMatches: matches.length,
+      creatorId,
+      topScores: matchData.slice(0, 3),
+      chunksWithTimestamps: matchData.filter(m => m.hasTimestamp).length
+    });
+
+    // More aggressive filtering with better logging
+    const allResults = matches.map(match => ({
+      score: match.score,
+      text: match.metadata?.text as string,
+      videoId: match.metadata?.videoId as string,
+      videoTitle: match.metadata?.videoTitle as string,
+      startTime: match.metadata?.startTime as number,
+      endTime: match.metadata?.endTime as number
+    }));
+
+    // Filter by similarity threshold - only keep relevant results
+    // Cosine similarity: 0.7+ = very similar, 0.5-0.7 = similar, 0.25-0.5 = somewhat related
+    const SIMILARITY_THRESHOLD = 0.25;
+    const filteredResults: ChunkMatch[] = matches
+      .filter(match => match.score >= SIMILARITY_THRESHOLD && match.metadata?.text)
+      .map(match => ({
+        id: match.id,
+        score: match.score,
+        text: match.metadata!.text as string,
+        videoId: match.metadata!.videoId as string,
+        chunkIndex: match.metadata!.chunkIndex as number,
+        metadata: match.metadata!
+      }));
+
+    logger.info('Detailed search results', {
+      allScores: allResults.map(r => ({ score: r.score.toFixed(3), videoTitle: r.videoTitle?.substring(0, 30) })),
+      resultsBeforeFilter: matches.length,
+      resultsAfterFilter: filteredResults.length,
+      threshold: SIMILARITY_THRESHOLD,
+      lowestScore: Math.min(...allResults.map(r => r.score)).toFixed(3),
+      highestScore: Math.max(...allResults.map(r => r.score)).toFixed(3),
+      filteredOut: matches.length - filteredResults.length
+    });
+
+    // Track successful query
+    await trackVectorUsage(store, 'query', {
+      creatorId,
+      topK,
+      resultsFound: matches.length,
+      resultsReturned: filteredResults.length,
+      success: true
+    });
+
+    return filteredResults;
+
+  } catch (error) {
+    logger.error('Vector search error', error, { store: store.name, creatorId });
+
+    // Track failed query
+    await trackVectorUsage(store, 'query', {
+      creatorId,
+      topK,
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    return []; // Return empty array instead of throwing
+  }
+}
+
+// NEW: Utility functions for debugging and management
+
+export async function getIndexStats(dimensions = getEmbeddingProvider().dimensions): Promise<VectorStoreStats> {
+  try {
+    return await getVectorStore(dimensions).stats();
+  } catch (error) {
+    logger.error('Error getting index stats', error);
+    return { totalVectors: 0, dimension: dimensions, indexFullness: 0, namespaces: {} };
+  }
+}
+
+// Pinecone lists and fetches at most 100 records per request
+const VECTOR_PAGE_SIZE = 100;
+
+// Every record of a namespace, a page at a time
+async function* namespaceVectorPages(store: VectorStore, namespace: string): AsyncGenerator<VectorRecord[]> {
+  let paginationToken: string | undefined;
+  do {
+    const page = await store.listIds(namespace, { limit: VECTOR_PAGE_SIZE, paginationToken });
+    if (page.ids.length > 0) yield await store.fetch(namespace, page.ids);
+    paginationToken = page.nextToken;
+  } while (paginationToken);
+}
+
+// One creator's records in the shared legacy namespace, a page at a time
+async function* legacyVectorPages(store: VectorStore, creatorId: string): AsyncGenerator<VectorRecord[]> {
+  let paginationToken: string | undefined;
+  do {
+    // Legacy IDs are `${creatorId}_${videoId}_${chunkIndex}`
+    const page = await store.listIds(LEGACY_NAMESPACE, { prefix: `${creatorId}_`, limit: VECTOR_PAGE_SIZE, paginationToken });
+    if (page.ids.length > 0) {
+      // The prefix alone could match another creator's IDs
+      const records = await store.fetch(LEGACY_NAMESPACE, page.ids);
+      yield records.filter(record => record.metadata.creatorId === creatorId);
+    }
+    paginationToken = page.nextToken;
+  } while (paginationToken);
+}
+
+export async function getCreatorStats(creatorId: string): Promise<{
+  generation: number;
+  totalChunks: number;
+  legacyChunks: number;
+  videos: string[];
+}> {
+  try {
+    const generation = await getActiveGeneration(creatorId);
+    const store = getVectorStore(generation.dimensions);
+    const namespace = creatorNamespace(creatorId, generation.version);
+    const [stats, includeLegacy] = await Promise.all([
+      store.stats(),
+      readsLegacyNamespace(generation) ? usesLegacyNamespace(store, creatorId) : false
+    ]);
+
+    // Video IDs need a metadata lookup, so every record is fetched
+    const videoIds = new Set<string>();
+    const collectVideoIds = (records: VectorRecord[]) => {
+      for (const record of records) {
+        if (record.metadata.videoId) videoIds.add(record.metadata.videoId as string);
+      }
+    };
+
+    for await (const records of namespaceVectorPages(store, namespace)) {
+      collectVideoIds(records);
+    }
+
+    let legacyChunks = 0;
+    if (includeLegacy) {
+      for await (const records of legacyVectorPages(store, creatorId)) {
+        legacyChunks += records.length;
+        collectVideoIds(records);
+      }
+    }
+
+    return {
+      generation: generation.version,
+      totalChunks: stats.namespaces[namespace] ?? 0,
+      legacyChunks,
+      videos: Array.from(videoIds)
+    };
+  } catch (error) {
+    logger.error('Error getting creator stats', error, { creatorId });
+    return { generation: 0, totalChunks: 0, legacyChunks: 0, videos: [] };
+  }
+}
+
+/**
+ * Vectors still stored for a creator across all generations, legacy namespace included. Unlike
+ * getCreatorStats this throws on errors, so a failed lookup is never mistaken for "nothing left".
+ */
+export async function countCreatorVectors(creatorId: string): Promise<number> {
+  let total = 0;
+  for (const generation of await creatorVectorGenerations(creatorId)) {
+    const { namespaces } = await getVectorStore(generation.dimensions).stats();
+    total += namespaces[creatorNamespace(creatorId, generation.version)] ?? 0;
+  }
+
+  const legacyStore = getVectorStore(LEGACY_DIMENSIONS);
+  if (await usesLegacyNamespace(legacyStore, creatorId)) {
+    for await (const records of legacyVectorPages(legacyStore, creatorId)) {
+      total += records.length;
+    }
+  }
+
+  return total;
+}
+
+// Drop one generation's namespace - returns how many vectors it held
+export async function deleteGenerationVectors(creatorId: string, generation: EmbeddingGeneration): Promise<number> {
+  const store = getVectorStore(generation.dimensions);
+  const namespace = creatorNamespace(creatorId, generation.version);
+
+  const { namespaces } = await store.stats();
+  await store.deleteNamespace(namespace);
+
+  return namespaces[namespace] ?? 0;
+}
+
+// Remove every vector of a creator, in every generation - returns how many were deleted
+export async function deleteCreatorData(creatorId: string): Promise<number> {
+  try {
+    let namespaceVectors = 0;
+    for (const generation of await creatorVectorGenerations(creatorId)) {
+      namespaceVectors += await deleteGenerationVectors(creatorId, generation);
+    }
+
+    const legacyStore = getVectorStore(LEGACY_DIMENSIONS);
+    const legacyVectors = await usesLegacyNamespace(legacyStore, creatorId)
+      ? await legacyStore.deleteByFilter(LEGACY_NAMESPACE, { creatorId })
+      : 0;
+
+    if (namespaceVectors + legacyVectors === 0) {
+      logger.info('No data found for deletion', { creatorId });
+      return 0;
+    }
+
+    logger.info('Successfully deleted creator data', { creatorId, namespaceVectors, legacyVectors });
+
+    await trackVectorUsage(legacyStore, 'delete', { creatorId, deletedCount: namespaceVectors + legacyVectors });
+
+    return namespaceVectors + legacyVectors;
+  } catch (error) {
+    logger.error('Error deleting creator data', error, { creatorId });
+    throw error;
+  }
+}
+
+// Delete all vectors of a single video, in every generation (a re-embed may be filling one right now)
+export async function deleteVideoVectors(creatorId: string, videoId: string): Promise<number> {
+  const legacyStore = getVectorStore(LEGACY_DIMENSIONS);
+
+  try {
+    let deletedCount = 0;
+    for (const generation of await creatorVectorGenerations(creatorId)) {
+      deletedCount += await getVectorStore(generation.dimensions)
+        .deleteByFilter(creatorNamespace(creatorId, generation.version), { videoId });
+    }
+    if (await usesLegacyNamespace(legacyStore, creatorId)) {
+      deletedCount += await legacyStore.deleteByFilter(LEGACY_NAMESPACE, { creatorId, videoId });
+    }
+
+    logger.info('Deleted video vectors', { creatorId, videoId, deletedCount });
+
+    await trackVectorUsage(legacyStore, 'delete', { creatorId, videoId, deletedCount });
+
+    return deletedCount;
+  } catch (error) {
+    logger.error('Error deleting video vectors', error, { creatorId, videoId });
+    throw error;
+  }
+}
+// Delete specific vectors of a creator by ID, in every generation and the legacy namespace
+export async function deleteVectorIds(creatorId: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const legacyStore = getVectorStore(LEGACY_DIMENSIONS);
+
+  try {
+    for (const generation of await creatorVectorGenerations(creatorId)) {
+      await getVectorStore(generation.dimensions).deleteMany(creatorNamespace(creatorId, generation.version), ids);
+    }
+    if (await usesLegacyNamespace(legacyStore, creatorId)) {
+      await legacyStore.deleteMany(LEGACY_NAMESPACE, ids);
+    }
+
+    logger.info('Deleted vectors by ID', { creatorId, count: ids.length });
+  } catch (error) {
+    logger.error('Error deleting vectors by ID', error, { creatorId, count: ids.length });
+    throw error;
+  }
+}
+
+// Delete channel context for a creator (used when updating context)
+export async function deleteChannelContext(creatorId: string): Promise<void> {
+  try {
+    const deletedCount = await deleteVideoVectors(creatorId, 'CHANNEL_CONTEXT');
+
+    if (deletedCount === 0) {
+      logger.info('No channel context found for deletion', { creatorId });
+      return;
+    }
+
+    logger.info('Successfully deleted channel context', { creatorId, deletedCount });
+  } catch (error) {
+    logger.error('Error deleting channel context', error, { creatorId });
+    throw error;
+  }
+}
@@ -1,7 +1,9 @@
 import { connectToDatabase } from './mongodb';
 import { createLogger } from './logger';
+import { storedChunkVectorId } from './vectors';
 import { ObjectId } from 'mongodb';
 import type { VideoReference, Creator } from '../types';
+import type { StoredChunk } from './reembed';
 
 const logger = createLogger('VideoReferences');
 
@@ -107,45 +109,57 @@ export async function searchSimilarChunksWithReferences(
     }
 
     // Import and use existing RAG search with enhanced query
-    const { searchSimilarChunks } = await import('./rag');
-    const chunks = await searchSimilarChunks(creatorId, enhancedQuery, limit * 2); // Get more candidates
+    const { searchChunkMatches } = await import('./rag');
+    const matches = await searchChunkMatches(creatorId, enhancedQuery, limit * 2); // Get more candidates
 
     logger.info('RAG search completed', {
-      chunksFound: chunks.length,
+      chunksFound: matches.length,
       requestedCandidates: limit * 2
     });
 
     // Get transcript chunks from MongoDB with metadata
-    const transcriptCollection = db.collection('transcript_chunks');
-    const results: EnhancedSearchResult[] = [];
+    const transcriptCollection = db.collection<StoredChunk>('transcript_chunks');
+    const results: Array<EnhancedSearchResult & { relevance: number }> = [];
 
     // Extract potential video title keywords from query for better matching
     const queryLower = query.toLowerCase();
     const queryWords = queryLower.split(/\s+/);
 
-    // OPTIMIZATION: Batch fetch all transcript docs at once (fixes N+1 query problem)
-    const transcriptDocs = await transcriptCollection.find({
-      creatorId,
-      text: { $in: chunks }
-    }).toArray();
+    // Chunks share their ID with their vector; ones stored before chunk IDs are found by position
+    const keyedIds = matches.filter(match => match.id.startsWith(`${creatorId}:`)).map(match => match.id);
+    const legacyPositions = matches
+      .filter(match => !match.id.startsWith(`${creatorId}:`))
+      .map(match => ({ videoId: match.videoId, chunkIndex: match.chunkIndex }));
 
-    // Create a map for O(1) lookup
+    // OPTIMIZATION: Batch fetch all transcript docs at once (fixes N+1 query problem)
+    const transcriptDocs = matches.length > 0
+      ? await transcriptCollection.find({
+        creatorId,
+        $or: [{ _id: { $in: keyedIds } }, ...legacyPositions]
+      }).toArray()
+      : [];
+
+    // Keyed by vector ID for O(1) lookup
     const transcriptMap = new Map(
-      transcriptDocs.map(doc => [doc.text as string, doc])
+      transcriptDocs.map(doc => [
+        storedChunkVectorId(doc),
+        doc
+      ])
     );
 
     logger.info('Batch MongoDB lookup completed', {
-      chunksRequested: chunks.length,
+      chunksRequested: matches.length,
       docsFound: transcriptDocs.length,
-      matchRate: `${Math.round((transcriptDocs.length / chunks.length) * 100)}%`
+      matchRate: `${Math.round((transcriptDocs.length / Math.max(matches.length, 1)) * 100)}%`
     });
 
     let videoMetadataMatches = 0;
 
-    for (const chunk of chunks) {
+    for (const match of matches) {
       try {
         // O(1) lookup from Map instead of individual DB query
-        const transcriptDoc = transcriptMap.get(chunk);
+        const transcriptDoc = transcriptMap.get(match.id);
+        const chunk = (transcriptDoc?.text as string | undefined) ?? match.text;
 
         if (transcriptDoc) {
 
@@ -179,15 +193,22 @@ export async function searchSimilarChunksWithReferences(
               timestampUrl,
               relevantText: chunk,
               viewCount: videoMetadata.viewCount,
-              duration: videoMetadata.duration
+              duration: videoMetadata.duration,
+              language: transcriptDoc.metadata?.language,
+              captionTrackKind: transcriptDoc.metadata?.captionTrackKind,
+              chapterTitle: transcriptDoc.metadata?.chapterTitle,
+              chapterStartTime: transcriptDoc.metadata?.chapterStartTime
             };
 
-            // Calculate relevance boost based on title matching
-            const titleLower = videoMetadata.title.toLowerCase();
+            // Calculate relevance boost based on title (and chapter title) matching
+            const titleLower = `${videoMetadata.title} ${transcriptDoc.metadata?.chapterTitle ?? ''}`.toLowerCase();
             const titleMatchScore = queryWords.filter(word =>
               word.length > 2 && titleLower.includes(word)
             ).length;
 
+            // Chunks tagged as sponsor/self-promo/intro/outro only win when nothing else matches as well
+            const segmentPenalty = transcriptDoc.metadata?.segmentCategories?.length ? 1 : 0;
+
             logger.debug('Video reference created', {
               videoTitle: videoMetadata.title,
               timestamp: startTime,
@@ -201,7 +222,9 @@ export async function searchSimilarChunksWithReferences(
             results.push({
               text: chunk,
               videoReference,
-              similarity: titleMatchScore // Use title match as relevance score
+              similarity: match.score,
+              // Title matches lift a chunk above closer scores; each is worth a 0.05 similarity difference
+              relevance: match.score + (titleMatchScore - segmentPenalty) * 0.05
             });
           } else {
             logger.warn('No video metadata found for chunk', {
@@ -211,13 +234,14 @@ export async function searchSimilarChunksWithReferences(
           }
         } else {
           logger.warn('No MongoDB document found for chunk', {
+            chunkId: match.id,
             chunkPreview: chunk.substring(0, 50)
           });
         }
       } catch (chunkError) {
         logger.warn('Failed to process chunk for references', {
           error: chunkError instanceof Error ? chunkError.message : String(chunkError),
-          chunkPreview: chunk.substring(0, 50)
+          chunkId: match.id
         });
       }
 
@@ -225,27 +249,28 @@ export async function searchSimilarChunksWithReferences(
     }
 
     logger.info('Video reference matching statistics', {
-      totalChunks: chunks.length,
+      totalChunks: matches.length,
       mongoDocsFound: transcriptDocs.length,
       videoMetadataMatches,
       finalResults: results.length
     });
 
-    // Sort by title match relevance score (higher is better)
-    const sortedResults = results.sort((a, b) => (b.similarity || 0) - (a.similarity || 0));
+    // Sort by similarity adjusted for title matches (higher is better)
+    const sortedResults = results.sort((a, b) => b.relevance - a.relevance);
 
     logger.info('Reference search completed', {
       creatorId,
       resultsWithReferences: sortedResults.length,
-      totalChunksSearched: chunks.length,
+      totalChunksSearched: matches.length,
       topResults: sortedResults.slice(0, 3).map(r => ({
         title: r.videoReference.title.substring(0, 40),
-        relevanceScore: r.similarity,
+        similarity: r.similarity?.toFixed(3),
+        relevanceScore: r.relevance.toFixed(3),
         timestamp: r.videoReference.timestamp
       }))
     });
 
-    return sortedResults;
+    return sortedResults.map(({ relevance: _relevance, ...result }) => result);
 
   } catch (error) {
     logger.error('Reference search failed', error, { creatorId, queryLength: query.length });
@@ -292,6 +317,7 @@ You have access to transcripts from ${videoCount} videos. When answering questio
 1. **Always reference specific videos** when you draw information from them
 2. **Use this format for video citations**:
    📹 *From [Video Title](video-url-with-timestamp) at [timestamp]*
+   When the excerpt has a chapter: 📹 *From [Video Title](video-url-with-timestamp) — chapter "[Chapter]" at [timestamp]*
 
 3. **Include relevant quotes** from the videos when appropriate
 4. **Be specific about timestamps** - users love being able to jump to exact moments
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { getChannelVideos, getPlaylistVideos, getVideoDetails, type ChannelVideo } from './youtube';
+import { DEFAULT_ELIGIBILITY_POLICY, type EligibilityPolicy } from './eligibility';
+import type { VideoSource } from '../types';
+
+// Hand-picked lists are capped like maxVideos
+export const MAX_SOURCE_VIDEOS = 100;
+
+const VIDEO_ID_REGEX = /^[a-zA-Z0-9_-]{11}$/;
+const PLAYLIST_ID_REGEX = /^[a-zA-Z0-9_-]{10,64}$/;
+
+export const UPLOADS_SOURCE: VideoSource = { type: 'uploads' };
+
+export class VideoSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VideoSourceError';
+  }
+}
+
+// Accepts a bare playlist ID or any YouTube URL with a list= parameter
+function parsePlaylistId(value: string): string | null {
+  if (PLAYLIST_ID_REGEX.test(value)) return value;
+
+  try {
+    const playlistId = new URL(value).searchParams.get('list');
+    return playlistId && PLAYLIST_ID_REGEX.test(playlistId) ? playlistId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a source spec: "uploads", "playlist:<id or URL>" or "videos:[id1,id2]" (brackets and quotes optional)
+ * Throws VideoSourceError for anything else
+ */
+export function parseVideoSource(spec: string): VideoSource {
+  const trimmed = spec.trim();
+  if (trimmed === 'uploads') return UPLOADS_SOURCE;
+
+  const separator = trimmed.indexOf(':');
+  const kind = separator === -1 ? trimmed : trimmed.slice(0, separator);
+  const value = separator === -1 ? '' : trimmed.slice(separator + 1).trim();
+
+  if (kind === 'playlist') {
+    const playlistId = parsePlaylistId(value);
+    if (!playlistId) {
+      throw new VideoSourceError('Playlist source needs a playlist ID or URL, e.g. "playlist:PLxxxxxxxx"');
+    }
+    return { type: 'playlist', playlistId };
+  }
+
+  if (kind === 'videos') {
+    const videoIds = [...new Set(
+      value.replace(/^\[|\]$/g, '').split(',').map(id => id.trim().replace(/^["']|["']$/g, '')).filter(Boolean)
+    )];
+
+    if (videoIds.length === 0) {
+      throw new VideoSourceError('Videos source needs at least one video ID, e.g. "videos:[dQw4w9WgXcQ]"');
+    }
+    if (videoIds.length > MAX_SOURCE_VIDEOS) {
+      throw new VideoSourceError(`Videos source is limited to ${MAX_SOURCE_VIDEOS} videos`);
+    }
+    const invalid = videoIds.filter(id => !VIDEO_ID_REGEX.test(id));
+    if (invalid.length > 0) {
+      throw new VideoSourceError(`Invalid video IDs: ${invalid.join(', ')}`);
+    }
+    return { type: 'videos', videoIds };
+  }
+
+  throw new VideoSourceError('Source must be "uploads", "playlist:<id>" or "videos:[<id>,...]"');
+}
+
+export function formatVideoSource(source: VideoSource): string {
+  if (source.type === 'playlist') return `playlist:${source.playlistId}`;
+  if (source.type === 'videos') return `videos:[${source.videoIds.join(',')}]`;
+  return 'uploads';
+}
+
+// Request field: the spec string, parsed into a VideoSource
+export const videoSourceSchema = z.string().transform((spec, ctx) => {
+  try {
+    return parseVideoSource(spec);
+  } catch (error) {
+    ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : String(error) });
+    return z.NEVER;
+  }
+});
+
+/**
+ * Resolve a source into candidate videos for the processing pipeline
+ * Hand-picked videos are returned in the given order; the worker still applies the eligibility policy to each
+ */
+export async function resolveVideoSource(
+  source: VideoSource,
+  channelUrl: string,
+  maxVideos: number,
+  policy: EligibilityPolicy = DEFAULT_ELIGIBILITY_POLICY
+): Promise<{ channel?: { title?: string | null }; videos: ChannelVideo[] }> {
+  if (source.type === 'playlist') {
+    const { videos } = await getPlaylistVideos(source.playlistId, maxVideos, policy);
+    return { videos };
+  }
+
+  if (source.type === 'videos') {
+    return { videos: await getVideoDetails(source.videoIds) };
+  }
+
+  return getChannelVideos(channelUrl, maxVideos, policy);
+}
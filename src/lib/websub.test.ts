@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'bun:test';
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  getChannelIdFromTopic,
+  getChannelTopicUrl,
+  parseWebSubNotification,
+  verifyWebSubSignature
+} from './websub';
+
+// Notifications as delivered by pubsubhubbub.appspot.com for YouTube upload feeds
+function fixture(name: string): string {
+  return readFileSync(join(import.meta.dir, '__fixtures__', 'websub', name), 'utf8');
+}
+
+describe('parseWebSubNotification', () => {
+  it('reads a new upload', () => {
+    const notification = parseWebSubNotification(fixture('new-video.xml'));
+
+    expect(notification.deletedVideoIds).toEqual([]);
+    expect(notification.videos).toHaveLength(1);
+    expect(notification.videos[0]).toMatchObject({
+      videoId: 'dQw4w9WgXcQ',
+      channelId: 'UCXuqSBlHAE6Xw-yeJA0Tunw',
+      published: '2025-03-06T21:40:57+00:00',
+      updated: '2025-03-09T19:05:24.552394234+00:00'
+    });
+  });
+
+  it('decodes XML entities in the title', () => {
+    const [video] = parseWebSubNotification(fixture('new-video.xml')).videos;
+
+    expect(video?.title).toBe(`Tips & Tricks '25: <Live> "Q&A"`);
+  });
+
+  it('reads every entry of a batched notification and skips incomplete ones', () => {
+    const { videos } = parseWebSubNotification(fixture('batched-entries.xml'));
+
+    expect(videos.map(video => [video.channelId, video.videoId])).toEqual([
+      ['UCXuqSBlHAE6Xw-yeJA0Tunw', 'aaaaaaaaaaa'],
+      ['UCBJycsmduvYEL83R_U4JriQ', 'bbbbbbbbbbb']
+    ]);
+  });
+
+  it('reports deleted videos from at:deleted-entry tombstones', () => {
+    const notification = parseWebSubNotification(fixture('deleted-video.xml'));
+
+    expect(notification.videos).toEqual([]);
+    expect(notification.deletedVideoIds).toEqual(['dQw4w9WgXcQ']);
+  });
+
+  it('returns nothing for a body without entries', () => {
+    expect(parseWebSubNotification('<feed xmlns="http://www.w3.org/2005/Atom"></feed>')).toEqual({
+      videos: [],
+      deletedVideoIds: []
+    });
+  });
+});
+
+describe('verifyWebSubSignature', () => {
+  const secret = 'websub-test-secret';
+  const body = fixture('new-video.xml');
+  const sign = (algorithm: string, payload = body, key = secret) =>
+    `${algorithm}=${createHmac(algorithm, key).update(payload).digest('hex')}`;
+
+  it('accepts the hub signature of the raw body', () => {
+    expect(verifyWebSubSignature(body, sign('sha1'), secret)).toBe(true);
+    expect(verifyWebSubSignature(body, sign('sha256'), secret)).toBe(true);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyWebSubSignature(body, sign('sha1', body, 'another-secret'), secret)).toBe(false);
+  });
+
+  it('rejects a signature of another body', () => {
+    expect(verifyWebSubSignature(body, sign('sha1', fixture('deleted-video.xml')), secret)).toBe(false);
+  });
+
+  it('rejects a missing or malformed header', () => {
+    expect(verifyWebSubSignature(body, undefined, secret)).toBe(false);
+    expect(verifyWebSubSignature(body, '', secret)).toBe(false);
+    expect(verifyWebSubSignature(body, 'sha1', secret)).toBe(false);
+    expect(verifyWebSubSignature(body, 'sha1=abc', secret)).toBe(false);
+  });
+
+  it('rejects an unsupported algorithm', () => {
+    expect(verifyWebSubSignature(body, sign('md5'), secret)).toBe(false);
+  });
+});
+
+describe('getChannelIdFromTopic', () => {
+  it('reads the channel ID of a YouTube upload feed topic', () => {
+    expect(getChannelIdFromTopic('https://www.youtube.com/xml/feeds/videos.xml?channel_id=UCXuqSBlHAE6Xw-yeJA0Tunw'))
+      .toBe('UCXuqSBlHAE6Xw-yeJA0Tunw');
+  });
+
+  it('round-trips getChannelTopicUrl', () => {
+    expect(getChannelIdFromTopic(getChannelTopicUrl('UCBJycsmduvYEL83R_U4JriQ'))).toBe('UCBJycsmduvYEL83R_U4JriQ');
+  });
+
+  it('rejects other hosts, paths and invalid URLs', () => {
+    expect(getChannelIdFromTopic('https://example.com/xml/feeds/videos.xml?channel_id=UC123')).toBeNull();
+    expect(getChannelIdFromTopic('https://www.youtube.com/feeds/videos.xml?channel_id=UC123')).toBeNull();
+    expect(getChannelIdFromTopic('not a url')).toBeNull();
+  });
+
+  it('returns null when the topic has no channel_id', () => {
+    expect(getChannelIdFromTopic('https://www.youtube.com/xml/feeds/videos.xml?playlist_id=PL123')).toBeNull();
+  });
+});
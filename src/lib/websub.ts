@@ -0,0 +1,341 @@
+import { Queue, Worker } from 'bullmq';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Creator } from '../types';
+import { structuredLogger } from '../middleware/logger';
+import { env } from '../config/env';
+import { connectToDatabase } from './mongodb';
+import { redisClient, redisConfig, REDIS_PREFIX } from './redis';
+import { BULLMQ_PREFIX } from './processing-queue';
+import { loadCreatorUpdateContext, enqueueCreatorUpdate, ChannelBusyError } from './channel-sync';
+import { deleteVideoChunks } from './rag';
+import { deleteArchivedTranscripts } from './transcript-archive';
+
+// Also runs removals of videos deleted on YouTube
+export const WEBSUB_RENEWAL_QUEUE_NAME = 'websub-renewal';
+
+const RENEWAL_SCHEDULER_ID = 'websub-renew-subscriptions';
+const DELETE_VIDEOS_JOB_NAME = 'delete-videos';
+const RENEWAL_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+// Ask for the hub's maximum (it may grant less) and renew well before expiry
+const LEASE_SECONDS = 10 * 24 * 60 * 60;
+const RENEW_BEFORE_MS = 2 * 24 * 60 * 60 * 1000;
+
+const TOPIC_PREFIX = 'https://www.youtube.com/xml/feeds/videos.xml?channel_id=';
+
+export interface WebSubVideoEntry {
+  videoId: string;
+  channelId: string;
+  title?: string;
+  published?: string;
+  updated?: string;
+}
+
+export interface WebSubNotification {
+  videos: WebSubVideoEntry[];
+  deletedVideoIds: string[];
+}
+
+interface DeleteVideosJobData {
+  videoIds: string[];
+}
+
+export function getChannelTopicUrl(channelId: string): string {
+  return `${TOPIC_PREFIX}${encodeURIComponent(channelId)}`;
+}
+
+export function getChannelIdFromTopic(topic: string): string | null {
+  try {
+    const url = new URL(topic);
+    if (url.hostname !== 'www.youtube.com' || url.pathname !== '/xml/feeds/videos.xml') return null;
+    return url.searchParams.get('channel_id');
+  } catch {
+    return null;
+  }
+}
+
+function getLeaseKey(channelId: string): string {
+  return `${REDIS_PREFIX}websub:lease:${channelId}`;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+function readTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match?.[1] !== undefined ? decodeXmlEntities(match[1].trim()) : undefined;
+}
+
+/**
+ * Parse a YouTube WebSub Atom notification
+ * YouTube's feed is small and fixed-format, so plain pattern matching is enough
+ */
+export function parseWebSubNotification(xml: string): WebSubNotification {
+  const videos: WebSubVideoEntry[] = [];
+  const deletedVideoIds: string[] = [];
+
+  for (const [, entry] of xml.matchAll(/<entry(?:\s[^>]*)?>([\s\S]*?)<\/entry>/g)) {
+    const videoId = readTag(entry!, 'yt:videoId');
+    const channelId = readTag(entry!, 'yt:channelId');
+    if (!videoId || !channelId) continue;
+
+    videos.push({
+      videoId,
+      channelId,
+      title: readTag(entry!, 'title'),
+      published: readTag(entry!, 'published'),
+      updated: readTag(entry!, 'updated')
+    });
+  }
+
+  for (const [, ref] of xml.matchAll(/<at:deleted-entry[^>]*\sref="yt:video:([^"]+)"/g)) {
+    deletedVideoIds.push(ref!);
+  }
+
+  return { videos, deletedVideoIds };
+}
+
+/**
+ * Check the hub's X-Hub-Signature header (sha1=<hex HMAC of the raw body>)
+ */
+export function verifyWebSubSignature(body: string, signatureHeader: string | undefined, secret: string): boolean {
+  if (!signatureHeader) return false;
+
+  const [algorithm, signature] = signatureHeader.split('=');
+  if (!algorithm || !signature || !['sha1', 'sha256', 'sha384', 'sha512'].includes(algorithm)) return false;
+
+  const expected = createHmac(algorithm, secret).update(body).digest('hex');
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const signatureBuffer = Buffer.from(signature, 'hex');
+
+  return expectedBuffer.length === signatureBuffer.length && timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
+/**
+ * Record a lease confirmed by the hub during the verification handshake
+ */
+export async function recordWebSubLease(channelId: string, leaseSeconds: number): Promise<void> {
+  await redisClient.setex(getLeaseKey(channelId), leaseSeconds, String(Date.now() + leaseSeconds * 1000));
+}
+
+export async function clearWebSubLease(channelId: string): Promise<void> {
+  await redisClient.del(getLeaseKey(channelId));
+}
+
+/**
+ * Ask the hub to (un)subscribe our callback to a channel's upload feed
+ * The hub confirms asynchronously by calling the GET handshake on the callback
+ */
+export async function requestWebSubSubscription(channelId: string, mode: 'subscribe' | 'unsubscribe' = 'subscribe'): Promise<void> {
+  if (!env.WEBSUB_CALLBACK_URL) {
+    throw new Error('WEBSUB_CALLBACK_URL is not configured');
+  }
+
+  const params = new URLSearchParams({
+    'hub.callback': env.WEBSUB_CALLBACK_URL,
+    'hub.topic': getChannelTopicUrl(channelId),
+    'hub.mode': mode,
+    'hub.verify': 'async',
+    'hub.lease_seconds': String(LEASE_SECONDS)
+  });
+  if (env.WEBSUB_SECRET) {
+    params.set('hub.secret', env.WEBSUB_SECRET);
+  }
+
+  const response = await fetch(env.WEBSUB_HUB_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params
+  });
+
+  if (!response.ok) {
+    throw new Error(`WebSub hub rejected ${mode} for ${channelId}: ${response.status} ${await response.text()}`);
+  }
+
+  structuredLogger.info({ channelId, mode }, 'WebSub subscription requested');
+}
+
+/**
+ * Enqueue single-video ingestion for every creator mentioned in a notification
+ * Returns the IDs of the jobs that were created
+ */
+export async function handleWebSubNotification(notification: WebSubNotification): Promise<string[]> {
+  if (notification.deletedVideoIds.length > 0) {
+    const bullJob = await webSubRenewalQueue.add(DELETE_VIDEOS_JOB_NAME, { videoIds: notification.deletedVideoIds } satisfies DeleteVideosJobData);
+    structuredLogger.info({ deletedVideoIds: notification.deletedVideoIds, bullJobId: bullJob.id }, 'WebSub reported deleted videos - removal enqueued');
+  }
+
+  // One job per channel, even when the hub batches several entries
+  const videoIdsByChannel = new Map<string, Set<string>>();
+  for (const { channelId, videoId } of notification.videos) {
+    if (!videoIdsByChannel.has(channelId)) videoIdsByChannel.set(channelId, new Set());
+    videoIdsByChannel.get(channelId)!.add(videoId);
+  }
+
+  const { db } = await connectToDatabase();
+  const jobIds: string[] = [];
+
+  for (const [channelId, videoIdSet] of videoIdsByChannel) {
+    const videoIds = [...videoIdSet];
+
+    try {
+      const creator = await db.collection<Creator>('creators').findOne({ ownedByChannelId: channelId });
+      if (!creator) {
+        structuredLogger.warn({ channelId, videoIds }, 'WebSub notification for unknown channel - ignoring');
+        continue;
+      }
+
+      const context = await loadCreatorUpdateContext(creator);
+      if (!context) continue;
+
+      // A new upload is not necessarily part of a playlist or hand-picked bot - the scheduled sync covers playlists
+      if (context.videoSource.type !== 'uploads') {
+        structuredLogger.info({ creatorId: context.creatorId, channelId, videoIds, source: context.videoSource.type }, 'WebSub notification ignored - creator is not built from channel uploads');
+        continue;
+      }
+
+      const jobId = await enqueueCreatorUpdate(creator, context, {
+        mode: 'videos',
+        maxVideos: videoIds.length,
+        videoIds
+      });
+      jobIds.push(jobId);
+
+      structuredLogger.info({ jobId, creatorId: context.creatorId, channelId, videoIds }, 'WebSub notification - video ingestion enqueued');
+    } catch (error) {
+      if (error instanceof ChannelBusyError) {
+        // Left for the scheduled sync - the channel can't have a second job queued behind the running one
+        structuredLogger.info({ channelId, videoIds, existingJobId: error.existingJobId }, 'WebSub notification skipped - channel is already being processed');
+        continue;
+      }
+      structuredLogger.error({ error, channelId, videoIds }, 'Failed to handle WebSub notification for channel');
+    }
+  }
+
+  return jobIds;
+}
+
+/**
+ * Remove videos deleted on YouTube from every creator that indexed them: their chunks, vectors and
+ * archived transcripts, and their entry in the creator's video list
+ */
+export async function removeDeletedVideos(videoIds: string[]): Promise<{ creators: number; vectorsDeleted: number; documentsDeleted: number }> {
+  const { db } = await connectToDatabase();
+  const creators = await db.collection<Creator>('creators')
+    .find({ 'videos.videoId': { $in: videoIds } }, { projection: { _id: 1, videos: 1 } })
+    .toArray();
+
+  let vectorsDeleted = 0;
+  let documentsDeleted = 0;
+
+  for (const creator of creators) {
+    const creatorId = creator._id!.toString();
+    const indexed = videoIds.filter(videoId => creator.videos?.some(video => video.videoId === videoId));
+
+    for (const videoId of indexed) {
+      const deleted = await deleteVideoChunks(creatorId, videoId);
+      await deleteArchivedTranscripts(creatorId, videoId);
+      vectorsDeleted += deleted.vectorsDeleted;
+      documentsDeleted += deleted.documentsDeleted;
+    }
+
+    await db.collection<Creator>('creators').updateOne(
+      { _id: creator._id },
+      { $pull: { videos: { videoId: { $in: indexed } } }, $set: { updatedAt: new Date() } }
+    );
+
+    structuredLogger.info({ creatorId, videoIds: indexed }, 'Videos deleted on YouTube removed from creator');
+  }
+
+  return { creators: creators.length, vectorsDeleted, documentsDeleted };
+}
+
+/**
+ * Re-subscribe every set-up creator whose lease is missing or about to expire
+ */
+export async function renewWebSubSubscriptions(): Promise<{ checked: number; renewed: number; failed: number }> {
+  const { db } = await connectToDatabase();
+  const creators = await db.collection<Creator>('creators').find({
+    setupComplete: true,
+    ownedByChannelId: { $exists: true }
+  }).toArray();
+
+  let renewed = 0;
+  let failed = 0;
+
+  for (const creator of creators) {
+    const channelId = creator.ownedByChannelId!;
+    const expiresAt = Number(await redisClient.get(getLeaseKey(channelId)) || 0);
+    if (expiresAt - Date.now() > RENEW_BEFORE_MS) continue;
+
+    try {
+      await requestWebSubSubscription(channelId);
+      renewed++;
+    } catch (error) {
+      failed++;
+      structuredLogger.error({ error, channelId, creatorId: creator._id?.toString() }, 'WebSub subscription renewal failed');
+    }
+  }
+
+  const summary = { checked: creators.length, renewed, failed };
+  structuredLogger.info(summary, 'WebSub subscription renewal finished');
+  return summary;
+}
+
+export const webSubRenewalQueue = new Queue(WEBSUB_RENEWAL_QUEUE_NAME, {
+  connection: redisConfig,
+  prefix: BULLMQ_PREFIX,
+  defaultJobOptions: {
+    removeOnComplete: { count: 50 },
+    removeOnFail: { count: 50 }
+  }
+});
+
+webSubRenewalQueue.on('error', (err) => {
+  structuredLogger.error({ error: err }, 'WebSub renewal queue error');
+});
+
+/**
+ * Register (or remove) the repeating renewal - only runs when a public callback URL is configured
+ */
+export async function scheduleWebSubRenewal(): Promise<void> {
+  if (!env.WEBSUB_CALLBACK_URL) {
+    await webSubRenewalQueue.removeJobScheduler(RENEWAL_SCHEDULER_ID);
+    return;
+  }
+
+  await webSubRenewalQueue.upsertJobScheduler(
+    RENEWAL_SCHEDULER_ID,
+    { every: RENEWAL_INTERVAL_MS },
+    { name: 'renew-subscriptions' }
+  );
+
+  structuredLogger.info({ schedulerId: RENEWAL_SCHEDULER_ID, callbackUrl: env.WEBSUB_CALLBACK_URL }, 'WebSub renewal scheduled');
+}
+
+export function startWebSubRenewalWorker() {
+  const worker = new Worker(WEBSUB_RENEWAL_QUEUE_NAME, (bullJob) => bullJob.name === DELETE_VIDEOS_JOB_NAME
+    ? removeDeletedVideos((bullJob.data as DeleteVideosJobData).videoIds)
+    : renewWebSubSubscriptions(), {
+    connection: redisConfig,
+    prefix: BULLMQ_PREFIX,
+    concurrency: 1
+  });
+
+  worker.on('failed', (bullJob, err) => {
+    structuredLogger.error({ error: err, bullJobId: bullJob?.id, name: bullJob?.name }, 'WebSub renewal run failed');
+  });
+
+  worker.on('error', (err) => {
+    structuredLogger.error({ error: err }, 'WebSub renewal worker error');
+  });
+
+  return worker;
+}
@@ -1,5 +1,5 @@
 import { Innertube } from 'youtubei.js';
-import { google } from 'googleapis';
+import { google, type youtube_v3 } from 'googleapis';
 import { createLogger } from './logger';
 import { matchChunkToTimestamp, type TimestampSegment } from './timestamp-matching';
 import { withRetry, RETRY_CONFIGS } from './retry';
@@ -9,6 +9,8 @@ import { env } from '../config/env';
 import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 import { Document } from "@langchain/core/documents";
 import { analyzeSentiment, type ChunkSentimentData } from './sentiment-analysis';
+import { checkVideoEligibility, DEFAULT_ELIGIBILITY_POLICY, type EligibilityPolicy } from './eligibility';
+import { createHash } from 'crypto';
 
 const logger = createLogger('YouTube');
 
@@ -27,8 +29,15 @@ interface TranscriptSegment {
 }
 
 // Enhanced transcript with timestamp data
+export type CaptionTrackKind = 'manual' | 'asr';
+
+// Used when a creator has no caption language preference of their own
+export const DEFAULT_CAPTION_LANGUAGES = ['en'];
+
 export interface TranscriptWithTimestamps {
   text: string; // Full transcript text with embedded timestamps
+  language?: string; // Language code of the selected caption track
+  trackKind?: CaptionTrackKind;
   segments: Array<{
     text: string; // Text with timestamp prefix (e.g., "2:34 Some text")
     timestampDisplay: string; // Display format (e.g., "2:34")
@@ -72,8 +81,36 @@ export function extractVideoId(url: string): string | null {
   return match ? match[1] ?? null : null;
 }
 
+/**
+ * Pick the caption track to use: preferred languages in order, manual before ASR within a language.
+ * A preference of 'es' also matches regional tracks like 'es-419'. Falls back to any manual track, then any track.
+ */
+export function pickCaptionTrack<T>(
+  tracks: T[],
+  preferredLanguages: string[],
+  describe: (track: T) => { language?: string | null; kind: CaptionTrackKind }
+): T | undefined {
+  const described = tracks.map(track => ({ track, ...describe(track) }));
+  const baseLanguage = (language?: string | null) => language?.toLowerCase().split('-')[0];
+
+  for (const preferred of preferredLanguages) {
+    const wanted = preferred.toLowerCase();
+    const candidates = [
+      ...described.filter(t => t.language?.toLowerCase() === wanted),
+      ...described.filter(t => t.language?.toLowerCase() !== wanted && baseLanguage(t.language) === baseLanguage(wanted))
+    ];
+    const match = candidates.find(t => t.kind === 'manual') ?? candidates[0];
+    if (match) return match.track;
+  }
+
+  return (described.find(t => t.kind === 'manual') ?? described[0])?.track;
+}
+
 // NEW: Get transcript with timestamps using YouTube Data API v3 (official API)
-export async function getVideoTranscriptWithTimestamps(videoId: string): Promise<TranscriptWithTimestamps | null> {
+export async function getVideoTranscriptWithTimestamps(
+  videoId: string,
+  preferredLanguages: string[] = DEFAULT_CAPTION_LANGUAGES
+): Promise<TranscriptWithTimestamps | null> {
   const videoLogger = logger.child({ videoId });
 
   return withRetry(async () => {
@@ -95,13 +132,12 @@ export async function getVideoTranscriptWithTimestamps(videoId: string): Promise
           return null;
         }
 
-        // Step 2: Find the best caption track (prefer auto-generated English)
+        // Step 2: Find the best caption track for the creator's language preference
         const captions = captionsResponse.data.items;
-        let selectedCaption = captions.find(cap =>
-          cap.snippet?.language === 'en' && cap.snippet.trackKind === 'standard'
-        ) || captions.find(cap =>
-          cap.snippet?.language === 'en' && cap.snippet.trackKind === 'ASR'
-        ) || captions[0]; // Fallback to first available
+        const selectedCaption = pickCaptionTrack(captions, preferredLanguages, cap => ({
+          language: cap.snippet?.language,
+          kind: cap.snippet?.trackKind === 'asr' || cap.snippet?.trackKind === 'ASR' ? 'asr' : 'manual'
+        }));
 
         if (!selectedCaption?.id) {
           videoLogger.warn('No suitable caption track found');
@@ -243,7 +279,9 @@ export async function getVideoTranscriptWithTimestamps(videoId: string): Promise
 
         return {
           text: finalTranscript,
-          segments: transcriptSegments
+          segments: transcriptSegments,
+          language: selectedCaption.snippet?.language ?? undefined,
+          trackKind: selectedCaption.snippet?.trackKind?.toLowerCase() === 'asr' ? 'asr' : 'manual'
         };
 
       } catch (apiError: any) {
@@ -276,6 +314,9 @@ export async function getVideoTranscriptWithTimestamps(videoId: string): Promise
 
 export interface YouTubeTranscriptData {
   text: string;
+  source?: string; // Where the transcript came from (e.g. 'youtubei')
+  language?: string; // Language code of the selected caption track
+  trackKind?: CaptionTrackKind;
   segments?: Array<{
     text: string;
     timestampDisplay: string;
@@ -289,9 +330,43 @@ export async function getVideoTranscript(videoId: string): Promise<string | null
   return data?.text ?? null;
 }
 
-export async function getVideoTranscriptWithData(videoId: string): Promise<YouTubeTranscriptData | null> {
+export async function getVideoTranscriptWithData(
+  videoId: string,
+  preferredLanguages: string[] = DEFAULT_CAPTION_LANGUAGES
+): Promise<YouTubeTranscriptData | null> {
   const videoLogger = logger.child({ videoId });
 
+  // Switch the transcript panel to the preferred caption track (youtubei.js selects by display name)
+  const getPreferredTranscript = async (info: Awaited<ReturnType<Innertube['getInfo']>>) => {
+    const tracks = info.captions?.caption_tracks ?? [];
+    const track = pickCaptionTrack(tracks, preferredLanguages, t => ({
+      language: t.language_code,
+      kind: t.kind === 'asr' ? 'asr' : 'manual'
+    }));
+
+    let transcript = await info.getTranscript();
+    const trackName = track?.name.toString();
+
+    if (trackName && transcript.selectedLanguage !== trackName && transcript.languages.includes(trackName)) {
+      transcript = await transcript.selectLanguage(trackName);
+    }
+
+    // Record the track the panel ended up on - the switch is skipped when the panel doesn't list the picked track
+    const selectedTrack = tracks.find(t => t.name.toString() === transcript.selectedLanguage);
+    const language = selectedTrack?.language_code;
+    const trackKind: CaptionTrackKind | undefined = selectedTrack ? (selectedTrack.kind === 'asr' ? 'asr' : 'manual') : undefined;
+
+    videoLogger.info('Caption track selected', {
+      preferredLanguages,
+      pickedLanguage: track?.language_code,
+      language,
+      trackKind,
+      selectedLanguage: transcript.selectedLanguage
+    });
+
+    return { transcript, language, trackKind };
+  };
+
   // OPTIMIZATION: Use only youtubei.js (Innertube) - more reliable and we extract timestamps from text
   videoLogger.info('Using youtubei.js for transcript extraction');
 
@@ -307,12 +382,14 @@ export async function getVideoTranscriptWithData(videoId: string): Promise<YouTu
       // Focus on transcript extraction with minimal video info dependency
       let videoTitle = `Video ${videoId}`;
       let transcriptData;
+      let captionLanguage: string | undefined;
+      let captionTrackKind: CaptionTrackKind | undefined;
       
       try {
         // Try to get full video info first
         const info = await yt.getInfo(videoId);
         videoTitle = info.basic_info.title ?? `Video ${videoId}`;
-        transcriptData = await info.getTranscript();
+        ({ transcript: transcriptData, language: captionLanguage, trackKind: captionTrackKind } = await getPreferredTranscript(info));
         
         videoLogger.info('Full video info and transcript retrieved successfully', {
           title: videoTitle,
@@ -330,7 +407,7 @@ export async function getVideoTranscriptWithData(videoId: string): Promise<YouTu
           // Create a fresh YouTube client and try again
           const freshYt = await Innertube.create();
           const simpleResponse = await freshYt.getInfo(videoId);
-          transcriptData = await simpleResponse.getTranscript();
+          ({ transcript: transcriptData, language: captionLanguage, trackKind: captionTrackKind } = await getPreferredTranscript(simpleResponse));
           
           videoLogger.info('Fresh client transcript extraction successful', {
             videoId,
@@ -472,7 +549,7 @@ export async function getVideoTranscriptWithData(videoId: string): Promise<YouTu
         });
 
         // Note: youtubei.js fallback doesn't provide structured timestamps
-        return { text, segments: undefined };
+        return { text, segments: undefined, source: 'youtubei', language: captionLanguage, trackKind: captionTrackKind };
       } else {
         videoLogger.warn('No text extracted from transcript data');
 
@@ -675,6 +752,19 @@ export function chunkText(text: string, maxTokens = 400): string[] {
   return chunks;
 }
 
+/**
+ * Version of the chunking pipeline (splitter settings + chunk metadata)
+ * Bump whenever chunk output changes so incremental runs re-embed existing videos
+ */
+export const CHUNKER_VERSION = 2; // 2: sponsor/self-promo/intro/outro filtering
+
+/**
+ * Stable hash of a raw transcript, used to detect unchanged videos on re-processing
+ */
+export function hashTranscript(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
 // NEW: LangChain-powered chunking with metadata preservation
 export async function chunkTextWithMetadata(
   text: string,
@@ -826,10 +916,158 @@ function parseDurationToMinutes(duration: string): number {
   return hours * 60 + minutes + (seconds > 0 ? 1 : 0);
 }
 
+// Video parts needed by toChannelVideo
+const VIDEO_DETAIL_PARTS = ['snippet', 'contentDetails', 'statistics', 'liveStreamingDetails'];
+
+// Normalized video shape shared by getChannelVideos and getVideoDetails
+function toChannelVideo(item: youtube_v3.Schema$Video) {
+  const durationMinutes = parseDurationToMinutes(item.contentDetails?.duration ?? 'PT0S');
+  const hasCaptions = item.contentDetails?.caption === 'true';
+
+  return {
+    videoId: item.id!,
+    title: item.snippet!.title,
+    description: item.snippet!.description,
+    publishedAt: item.snippet!.publishedAt,
+    thumbnails: item.snippet!.thumbnails,
+    url: `https://www.youtube.com/watch?v=${item.id}`,
+    duration: item.contentDetails?.duration,
+    durationMinutes,
+    hasCaptions,
+    // Premieres and livestream VODs both carry liveStreamingDetails
+    isLivestream: !!item.liveStreamingDetails?.actualStartTime,
+    channelId: item.snippet!.channelId,
+    viewCount: item.statistics?.viewCount,
+    likeCount: item.statistics?.likeCount,
+    commentCount: item.statistics?.commentCount
+  };
+}
+
+export type ChannelVideo = ReturnType<typeof toChannelVideo>;
+
+/**
+ * Get details for specific videos (no eligibility filtering - callers decide)
+ * Videos that no longer exist or are private are omitted
+ */
+export async function getVideoDetails(videoIds: string[]): Promise<ChannelVideo[]> {
+  if (videoIds.length === 0) return [];
+
+  try {
+    const videos: ChannelVideo[] = [];
+
+    // videos.list accepts at most 50 IDs per call
+    for (let i = 0; i < videoIds.length; i += 50) {
+      const response = await youtube.videos.list({
+        part: VIDEO_DETAIL_PARTS,
+        id: videoIds.slice(i, i + 50),
+      });
+      videos.push(...(response.data.items || []).map(toChannelVideo));
+    }
+
+    // Keep the caller's order (the API returns its own)
+    const order = new Map(videoIds.map((id, index) => [id, index]));
+    videos.sort((a, b) => (order.get(a.videoId) ?? 0) - (order.get(b.videoId) ?? 0));
+
+    logger.info('Video details fetched', { requested: videoIds.length, found: videos.length });
+    return videos;
+  } catch (error) {
+    logger.error('Failed to fetch video details', error);
+    throw error;
+  }
+}
+
+/**
+ * Filter by the eligibility policy and take up to maxVideos, videos with captions first
+ */
+function selectEligibleVideos(allVideos: ChannelVideo[], maxVideos: number, policy: EligibilityPolicy): ChannelVideo[] {
+  const eligibleVideos = allVideos.filter(video => checkVideoEligibility(video, policy).eligible);
+
+  // Prioritize videos with captions
+  const videosWithCaptions = eligibleVideos.filter(v => v.hasCaptions);
+  const videosWithoutCaptions = eligibleVideos.filter(v => !v.hasCaptions);
+
+  return [
+    ...videosWithCaptions.slice(0, maxVideos),
+    ...videosWithoutCaptions.slice(0, Math.max(0, maxVideos - videosWithCaptions.length))
+  ].slice(0, maxVideos);
+}
+
+/**
+ * Get eligible videos from a playlist, in playlist order
+ * Reads extra pages to compensate for filtering, like getChannelVideos does
+ */
+export async function getPlaylistVideos(
+  playlistId: string,
+  maxVideos: number = 20,
+  policy: EligibilityPolicy = DEFAULT_ELIGIBILITY_POLICY
+) {
+  try {
+    logger.info('Fetching playlist videos', { playlistId, maxVideos });
+
+    const playlistResponse = await youtube.playlists.list({
+      part: ['snippet'],
+      id: [playlistId],
+    });
+    const playlist = playlistResponse.data.items?.[0];
+
+    if (!playlist) {
+      throw new Error('Playlist not found');
+    }
+
+    const fetchCount = Math.max(maxVideos * 2.5, 50);
+    const videoIds: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const itemsResponse = await youtube.playlistItems.list({
+        part: ['snippet', 'contentDetails'],
+        playlistId,
+        maxResults: 50,
+        pageToken,
+      });
+
+      for (const item of itemsResponse.data.items || []) {
+        const videoId = item.snippet?.resourceId?.videoId;
+        if (videoId && !videoIds.includes(videoId)) videoIds.push(videoId);
+      }
+
+      pageToken = itemsResponse.data.nextPageToken ?? undefined;
+    } while (pageToken && videoIds.length < fetchCount);
+
+    // Private and deleted entries have no details, so they drop out here
+    const allVideos = await getVideoDetails(videoIds.slice(0, fetchCount));
+    const videos = selectEligibleVideos(allVideos, maxVideos, policy);
+
+    logger.info('Playlist videos fetched', {
+      playlistId,
+      playlistTitle: playlist.snippet?.title,
+      totalFetched: allVideos.length,
+      afterFiltering: videos.length,
+      withCaptions: videos.filter(v => v.hasCaptions).length
+    });
+
+    return {
+      playlist: {
+        id: playlist.id,
+        title: playlist.snippet?.title,
+        channelId: playlist.snippet?.channelId
+      },
+      videos
+    };
+  } catch (error) {
+    logger.error('Failed to fetch playlist videos', error, { playlistId });
+    throw error;
+  }
+}
+
 /**
  * Get channel videos using YouTube Data API
  */
-export async function getChannelVideos(channelInput: string, maxVideos: number = 20) {
+export async function getChannelVideos(
+  channelInput: string,
+  maxVideos: number = 20,
+  policy: EligibilityPolicy = DEFAULT_ELIGIBILITY_POLICY
+) {
   try {
     logger.info('Fetching channel videos', { channelInput, maxVideos });
 
@@ -912,7 +1150,7 @@ export async function getChannelVideos(channelInput: string, maxVideos: number =
 
     // Fetch detailed video information
     const videosDetailResponse = await youtube.videos.list({
-      part: ['snippet', 'contentDetails', 'statistics'],
+      part: VIDEO_DETAIL_PARTS,
       id: videoIds,
     });
 
@@ -920,44 +1158,9 @@ export async function getChannelVideos(channelInput: string, maxVideos: number =
       throw new Error('Failed to fetch video details');
     }
 
-    // Transform and filter videos (2-25 minutes)
-    const MIN_DURATION_MINUTES = 2;
-    const MAX_DURATION_MINUTES = 25;
-
-    const allVideos = videosDetailResponse.data.items.map(item => {
-      const durationMinutes = parseDurationToMinutes(item.contentDetails?.duration ?? 'PT0S');
-      const hasCaptions = item.contentDetails?.caption === 'true';
-
-      return {
-        videoId: item.id!,
-        title: item.snippet!.title,
-        description: item.snippet!.description,
-        publishedAt: item.snippet!.publishedAt,
-        thumbnails: item.snippet!.thumbnails,
-        url: `https://www.youtube.com/watch?v=${item.id}`,
-        duration: item.contentDetails?.duration,
-        durationMinutes,
-        hasCaptions,
-        viewCount: item.statistics?.viewCount,
-        likeCount: item.statistics?.likeCount,
-        commentCount: item.statistics?.commentCount
-      };
-    });
-
-    // Filter by duration
-    const filteredByDuration = allVideos.filter(video =>
-      video.durationMinutes >= MIN_DURATION_MINUTES &&
-      video.durationMinutes <= MAX_DURATION_MINUTES
-    );
-
-    // Prioritize videos with captions
-    const videosWithCaptions = filteredByDuration.filter(v => v.hasCaptions);
-    const videosWithoutCaptions = filteredByDuration.filter(v => !v.hasCaptions);
-
-    const videos = [
-      ...videosWithCaptions.slice(0, maxVideos),
-      ...videosWithoutCaptions.slice(0, Math.max(0, maxVideos - videosWithCaptions.length))
-    ].slice(0, maxVideos);
+    // Transform and filter videos by the eligibility policy
+    const allVideos = videosDetailResponse.data.items.map(toChannelVideo);
+    const videos = selectEligibleVideos(allVideos, maxVideos, policy);
 
     logger.info('Channel videos fetched', {
       channelTitle: channel.snippet?.title,
@@ -4,7 +4,7 @@ import { z } from 'zod';
 import type { UIMessage, ApiResponse, Creator } from '../types';
 import { structuredLogger } from '../middleware/logger';
 import { connectToDatabase } from '../lib/mongodb';
-import { searchSimilarChunksWithReferences } from '../lib/video-references';
+import { searchSimilarChunksWithReferences, formatTimestamp } from '../lib/video-references';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { streamText } from 'ai';
 
@@ -219,10 +219,17 @@ chat.post('/', async (c) => {
               if (result.timestamp && result.timestamp !== "0:00") {
                 dynamicContext += `Timestamp: ${result.timestamp}\n`;
               }
+              if (result.videoReference?.chapterTitle) {
+                dynamicContext += `Chapter: "${result.videoReference.chapterTitle}" (starts at ${formatTimestamp(result.videoReference.chapterStartTime ?? 0)})\n`;
+              }
+              if (result.videoReference?.language) {
+                dynamicContext += `Language: ${result.videoReference.language}${result.videoReference.captionTrackKind === 'asr' ? ' (auto-generated captions, may contain transcription errors)' : ''}\n`;
+              }
               dynamicContext += `Content: ${result.text}\n\n`;
             });
 
             dynamicContext += `Use this content to answer the user's question. Reference specific videos and timestamps when relevant.\n`;
+            dynamicContext += `Excerpts may be in a different language than the question - always answer in the language the user wrote in.\n`;
           }
         }
       } catch (error) {
@@ -249,6 +256,7 @@ When answering:
 4. Be conversational but informative
 5. Include timestamps when provided
 6. If you mention a video, format it like: 📹 From [Video Title] ([Video URL]) at [timestamp]
+   When the excerpt has a chapter, name it: 📹 From [Video Title] ([Video URL]) — chapter "[Chapter]" at [timestamp]
 
 **CRITICAL RULES:**
 - NEVER make up video titles, URLs, or timestamps that weren't provided to you
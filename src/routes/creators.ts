@@ -1,8 +1,22 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { z } from 'zod';
 import type { Creator, ApiResponse } from '../types';
 import { structuredLogger } from '../middleware/logger';
 import { connectToDatabase } from '../lib/mongodb';
+import { loadCreatorUpdateContext, enqueueCreatorUpdate, findOngoingJobId, ChannelBusyError } from '../lib/channel-sync';
+import { eligibilityOverridesSchema, resolveEligibilityPolicy } from '../lib/eligibility';
+import { deleteVideoChunks } from '../lib/rag';
+import { deleteArchivedTranscripts, listArchivedVideos } from '../lib/transcript-archive';
+import {
+  deleteCreator,
+  findCreatorDeletion,
+  toDeletionReceipt,
+  findActiveProcessingJobs,
+  CreatorDeletionInProgressError
+} from '../lib/creator-deletion';
+import { resolveEmbeddingSpec, getEmbeddingProviderFor, getEmbeddingProvider, embeddingSpecOf } from '../lib/embedding-providers';
+import { findCreatorGenerations, defaultGeneration, EmbeddingGenerationConflictError } from '../lib/embedding-generations';
+import { startReembed, rollbackCreatorGeneration, getGenerationUsage } from '../lib/reembed';
 
 const creators = new Hono();
 
@@ -11,6 +25,60 @@ const creatorParamsSchema = z.object({
   id: z.string().min(1, 'Creator ID is required'),
 });
 
+const creatorVideoParamsSchema = z.object({
+  slug: z.string().min(1, 'Creator slug is required'),
+  videoId: z.string().regex(/^[a-zA-Z0-9_-]{11}$/, 'Valid YouTube video ID required'),
+});
+
+const addVideoSchema = z.object({
+  teamId: z.string().min(1, 'Team ID is required'),
+  forceRefresh: z.boolean().default(false),
+  // Applied on top of the team's policy, e.g. to allow a video longer than the usual limit
+  eligibility: eligibilityOverridesSchema.optional()
+});
+
+const creatorSlugParamsSchema = z.object({
+  slug: z.string().min(1, 'Creator slug is required'),
+});
+
+const reindexSchema = z.object({
+  // Limit the reindex to these archived videos (defaults to the whole archive)
+  videoIds: z.array(z.string().regex(/^[a-zA-Z0-9_-]{11}$/, 'Valid YouTube video ID required')).min(1).optional()
+});
+
+const reembedSchema = z.object({
+  // Omitted fields come from the configured embedding provider (or the named provider's defaults)
+  provider: z.enum(['openai', 'google', 'hash']).optional(),
+  model: z.string().min(1, 'Model must not be empty').optional(),
+  dimensions: z.number().int().positive('Dimensions must be a positive integer').optional()
+});
+
+const teamQuerySchema = z.object({
+  teamId: z.string().min(1, 'Team ID is required')
+});
+
+// Validation errors -> 400, anything else -> 500
+function handleVideoRouteError(c: Context, error: unknown, message: string) {
+  if (error instanceof ChannelBusyError) {
+    return c.json<ApiResponse>({
+      success: false,
+      error: error.message,
+      data: { existingJobId: error.existingJobId }
+    }, 409);
+  }
+
+  if (error instanceof z.ZodError) {
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Invalid request parameters',
+      message: error.issues.map(issue => issue.message).join(', ')
+    }, 400);
+  }
+
+  structuredLogger.error({ error }, message);
+  return c.json<ApiResponse>({ success: false, error: message }, 500);
+}
+
 /**
  * @swagger
  * /api/creators:
@@ -184,4 +252,654 @@ creators.get('/:id/info', async (c) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/creators/{slug}/videos/{videoId}:
+ *   post:
+ *     summary: Add a single video to a creator
+ *     description: Enqueues ingestion of one video for an existing creator. The video stays part of the bot on later full runs, even if it is outside the creator's source.
+ *     tags:
+ *       - Creators
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: videoId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - teamId
+ *             properties:
+ *               teamId:
+ *                 type: string
+ *                 description: Team that owns the creator
+ *               forceRefresh:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Re-embed the video even if its transcript is unchanged
+ *               eligibility:
+ *                 type: object
+ *                 description: Eligibility overrides applied on top of the team's policy (same fields as /api/process/creator)
+ *     responses:
+ *       202:
+ *         description: Ingestion job queued - follow it with /api/process/status/{jobId}
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized request origin
+ *       403:
+ *         description: Creator belongs to another team
+ *       404:
+ *         description: Creator not found
+ *       409:
+ *         description: Creator is being processed, or cannot be updated (no active subscription or completed run)
+ */
+creators.post('/:slug/videos/:videoId', async (c) => {
+  try {
+    // Validate security header
+    const originHeader = c.req.header('X-ThumbnailTest-Origin');
+    if (originHeader !== 'true') {
+      structuredLogger.warn({ originHeader }, 'Invalid origin header');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized request origin'
+      }, 401);
+    }
+
+    const { slug, videoId } = creatorVideoParamsSchema.parse(c.req.param());
+    const body = c.req.header('Content-Type')?.includes('application/json') ? await c.req.json() : {};
+    const { teamId, forceRefresh, eligibility } = addVideoSchema.parse(body);
+
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ slug });
+
+    if (!creator) {
+      return c.json<ApiResponse>({ success: false, error: 'Creator not found' }, 404);
+    }
+
+    if (creator.ownedByTeamId !== teamId) {
+      structuredLogger.warn({ slug, videoId, teamId, ownedByTeamId: creator.ownedByTeamId }, 'Video addition by different team');
+      return c.json<ApiResponse>({ success: false, error: 'This creator belongs to another team' }, 403);
+    }
+
+    const existingJobId = await findOngoingJobId(creator);
+    if (existingJobId) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'This creator is already being processed. Please wait for the current job to complete.',
+        data: { existingJobId }
+      }, 409);
+    }
+
+    const context = await loadCreatorUpdateContext(creator);
+    if (!context) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Creator cannot be updated. It needs an active Channel AI subscription and a completed processing run.'
+      }, 409);
+    }
+
+    // Remember the addition (and undo an earlier removal) before the job runs
+    await db.collection<Creator>('creators').updateOne(
+      { _id: creator._id },
+      {
+        $addToSet: { addedVideoIds: videoId },
+        $pull: { excludedVideoIds: videoId },
+        $set: { updatedAt: new Date() }
+      }
+    );
+
+    const jobId = await enqueueCreatorUpdate(
+      creator,
+      { ...context, eligibilityPolicy: resolveEligibilityPolicy(context.eligibilityPolicy, eligibility) },
+      { mode: 'videos', maxVideos: 1, videoIds: [videoId], forceRefresh }
+    );
+
+    structuredLogger.info({ jobId, creatorId: context.creatorId, slug, videoId, forceRefresh }, 'Single video ingestion enqueued');
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        jobId,
+        creatorId: context.creatorId,
+        videoId,
+        status: 'queued'
+      }
+    }, 202);
+  } catch (error) {
+    return handleVideoRouteError(c, error, 'Failed to add video');
+  }
+});
+
+/**
+ * @swagger
+ * /api/creators/{slug}/videos/{videoId}:
+ *   delete:
+ *     summary: Remove a single video from a creator
+ *     description: Deletes the video's chunks from Pinecone and transcript_chunks, removes it from the creator's video list and keeps later runs from ingesting it again
+ *     tags:
+ *       - Creators
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: videoId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Team that owns the creator
+ *     responses:
+ *       200:
+ *         description: Video removed
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized request origin
+ *       403:
+ *         description: Creator belongs to another team
+ *       404:
+ *         description: Creator not found
+ *       409:
+ *         description: Creator is being processed
+ */
+creators.delete('/:slug/videos/:videoId', async (c) => {
+  try {
+    // Validate security header
+    const originHeader = c.req.header('X-ThumbnailTest-Origin');
+    if (originHeader !== 'true') {
+      structuredLogger.warn({ originHeader }, 'Invalid origin header');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized request origin'
+      }, 401);
+    }
+
+    const { slug, videoId } = creatorVideoParamsSchema.parse(c.req.param());
+    const { teamId } = teamQuerySchema.parse(c.req.query());
+
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ slug });
+
+    if (!creator) {
+      return c.json<ApiResponse>({ success: false, error: 'Creator not found' }, 404);
+    }
+
+    if (creator.ownedByTeamId !== teamId) {
+      structuredLogger.warn({ slug, videoId, teamId, ownedByTeamId: creator.ownedByTeamId }, 'Video removal by different team');
+      return c.json<ApiResponse>({ success: false, error: 'This creator belongs to another team' }, 403);
+    }
+
+    const existingJobId = await findOngoingJobId(creator);
+    if (existingJobId) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'This creator is being processed. Please wait for the current job to complete.',
+        data: { existingJobId }
+      }, 409);
+    }
+
+    const creatorId = creator._id!.toString();
+    const { vectorsDeleted, documentsDeleted } = await deleteVideoChunks(creatorId, videoId);
+    await deleteArchivedTranscripts(creatorId, videoId);
+
+    const wasListed = creator.videos?.some(v => v.videoId === videoId) ?? false;
+    await db.collection<Creator>('creators').updateOne(
+      { _id: creator._id },
+      {
+        $pull: { videos: { videoId }, addedVideoIds: videoId },
+        $addToSet: { excludedVideoIds: videoId },
+        $set: { updatedAt: new Date() }
+      }
+    );
+
+    structuredLogger.info({ creatorId, slug, videoId, vectorsDeleted, documentsDeleted }, 'Video removed from creator');
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        creatorId,
+        videoId,
+        vectorsDeleted,
+        documentsDeleted,
+        removedFromVideoList: wasListed
+      }
+    });
+  } catch (error) {
+    return handleVideoRouteError(c, error, 'Failed to remove video');
+  }
+});
+
+/**
+ * @swagger
+ * /api/creators/{slug}/reindex:
+ *   post:
+ *     summary: Re-chunk and re-embed a creator from archived transcripts
+ *     description: Enqueues a job that re-runs cleaning, segment filtering, chunking, sentiment tagging and embedding on the raw transcripts archived during earlier runs. YouTube is not contacted; use it after changing the chunker or timestamp matching.
+ *     tags:
+ *       - Creators
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               videoIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Only reindex these archived videos
+ *     responses:
+ *       202:
+ *         description: Reindex job queued - follow it with /api/process/status/{jobId}
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized request origin
+ *       404:
+ *         description: Creator not found
+ *       409:
+ *         description: Creator is being processed, cannot be updated, or has no archived transcripts
+ */
+creators.post('/:slug/reindex', async (c) => {
+  try {
+    // Validate security header
+    const originHeader = c.req.header('X-ThumbnailTest-Origin');
+    if (originHeader !== 'true') {
+      structuredLogger.warn({ originHeader }, 'Invalid origin header');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized request origin'
+      }, 401);
+    }
+
+    const { slug } = creatorSlugParamsSchema.parse(c.req.param());
+    const body = c.req.header('Content-Type')?.includes('application/json') ? await c.req.json() : {};
+    const { videoIds } = reindexSchema.parse(body);
+
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ slug });
+
+    if (!creator) {
+      return c.json<ApiResponse>({ success: false, error: 'Creator not found' }, 404);
+    }
+
+    const existingJobId = await findOngoingJobId(creator);
+    if (existingJobId) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'This creator is already being processed. Please wait for the current job to complete.',
+        data: { existingJobId }
+      }, 409);
+    }
+
+    const context = await loadCreatorUpdateContext(creator);
+    if (!context) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Creator cannot be updated. It needs an active Channel AI subscription and a completed processing run.'
+      }, 409);
+    }
+
+    const excludedVideoIds = new Set(creator.excludedVideoIds || []);
+    const archivedVideoIds = (await listArchivedVideos(context.creatorId, videoIds))
+      .map(video => video.videoId)
+      .filter(videoId => !excludedVideoIds.has(videoId));
+
+    if (archivedVideoIds.length === 0) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'No archived transcripts to reindex. Run a full processing job first.'
+      }, 409);
+    }
+
+    const jobId = await enqueueCreatorUpdate(creator, context, {
+      mode: 'reindex',
+      maxVideos: archivedVideoIds.length,
+      videoIds: archivedVideoIds
+    });
+
+    structuredLogger.info({ jobId, creatorId: context.creatorId, slug, videos: archivedVideoIds.length }, 'Reindex from archive enqueued');
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        jobId,
+        creatorId: context.creatorId,
+        videos: archivedVideoIds.length,
+        status: 'queued'
+      }
+    }, 202);
+  } catch (error) {
+    return handleVideoRouteError(c, error, 'Failed to enqueue reindex');
+  }
+});
+
+/**
+ * @swagger
+ * /api/creators/{slug}/embedding-generations:
+ *   get:
+ *     summary: Get a creator's embedding generations
+ *     description: The active generation (provider, model and dimensions that serve search), the previous one kept for rollback, and any re-embed in progress with its cost so far.
+ *     tags:
+ *       - Creators
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Embedding generations
+ *       404:
+ *         description: Creator not found
+ */
+creators.get('/:slug/embedding-generations', async (c) => {
+  try {
+    const { slug } = creatorSlugParamsSchema.parse(c.req.param());
+
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ slug });
+
+    if (!creator?._id) {
+      return c.json<ApiResponse>({ success: false, error: 'Creator not found' }, 404);
+    }
+
+    const creatorId = creator._id.toString();
+    // Read-only - a creator without vectors yet shows the generation its first write will pin
+    const generations = await findCreatorGenerations(creatorId);
+    const buildUsage = generations?.building ? await getGenerationUsage(creatorId, generations.building.version) : undefined;
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        creatorId,
+        configured: embeddingSpecOf(getEmbeddingProvider()),
+        active: generations?.active ?? defaultGeneration(),
+        previous: generations?.previous ?? null,
+        building: generations?.building ? { ...generations.building, cost: buildUsage?.cost, tokensUsed: buildUsage?.tokens } : null,
+        switchedAt: generations?.switchedAt ?? null
+      }
+    });
+  } catch (error) {
+    return handleVideoRouteError(c, error, 'Failed to load embedding generations');
+  }
+});
+
+/**
+ * @swagger
+ * /api/creators/{slug}/embedding-generations:
+ *   post:
+ *     summary: Re-embed a creator into a new embedding generation
+ *     description: Enqueues a background job that embeds every stored chunk with the given model into a new generation while the active one keeps serving chat. When it has every chunk the creator switches over in a single update; the old generation is kept for rollback. Embedding cost is tracked per generation by the resource monitor. Re-posting the same model after a failure resumes the build.
+ *     tags:
+ *       - Creators
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               provider:
+ *                 type: string
+ *                 enum: [openai, google, hash]
+ *               model:
+ *                 type: string
+ *               dimensions:
+ *                 type: integer
+ *     responses:
+ *       202:
+ *         description: Re-embed queued
+ *       400:
+ *         description: Invalid request or provider not available
+ *       401:
+ *         description: Unauthorized request origin
+ *       404:
+ *         description: Creator not found
+ *       409:
+ *         description: A re-embed is already running or the model is already active
+ */
+creators.post('/:slug/embedding-generations', async (c) => {
+  try {
+    // Validate security header
+    const originHeader = c.req.header('X-ThumbnailTest-Origin');
+    if (originHeader !== 'true') {
+      structuredLogger.warn({ originHeader }, 'Invalid origin header');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized request origin'
+      }, 401);
+    }
+
+    const { slug } = creatorSlugParamsSchema.parse(c.req.param());
+    const body = c.req.header('Content-Type')?.includes('application/json') ? await c.req.json() : {};
+    const spec = resolveEmbeddingSpec(reembedSchema.parse(body));
+
+    try {
+      // Fails fast on a missing API key instead of inside the job
+      getEmbeddingProviderFor(spec);
+    } catch (providerError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: providerError instanceof Error ? providerError.message : String(providerError)
+      }, 400);
+    }
+
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ slug });
+
+    if (!creator?._id) {
+      return c.json<ApiResponse>({ success: false, error: 'Creator not found' }, 404);
+    }
+
+    const { jobId, build } = await startReembed(creator._id.toString(), spec);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: { jobId, generation: build, status: 'queued' }
+    }, 202);
+  } catch (error) {
+    if (error instanceof EmbeddingGenerationConflictError) {
+      return c.json<ApiResponse>({ success: false, error: error.message }, 409);
+    }
+    return handleVideoRouteError(c, error, 'Failed to enqueue re-embed');
+  }
+});
+
+/**
+ * @swagger
+ * /api/creators/{slug}/embedding-generations/rollback:
+ *   post:
+ *     summary: Switch a creator back to its previous embedding generation
+ *     description: Swaps the active and previous generations in a single update. Chunks stored since the last switch are embedded into the restored generation in the background. Rolling back again switches forward.
+ *     tags:
+ *       - Creators
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rolled back
+ *       401:
+ *         description: Unauthorized request origin
+ *       404:
+ *         description: Creator not found
+ *       409:
+ *         description: No previous generation, or a re-embed is running
+ */
+creators.post('/:slug/embedding-generations/rollback', async (c) => {
+  try {
+    // Validate security header
+    const originHeader = c.req.header('X-ThumbnailTest-Origin');
+    if (originHeader !== 'true') {
+      structuredLogger.warn({ originHeader }, 'Invalid origin header');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized request origin'
+      }, 401);
+    }
+
+    const { slug } = creatorSlugParamsSchema.parse(c.req.param());
+
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ slug });
+
+    if (!creator?._id) {
+      return c.json<ApiResponse>({ success: false, error: 'Creator not found' }, 404);
+    }
+
+    const { generations, catchUpJobId } = await rollbackCreatorGeneration(creator._id.toString());
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        active: generations.active,
+        previous: generations.previous ?? null,
+        switchedAt: generations.switchedAt,
+        catchUpJobId: catchUpJobId ?? null
+      }
+    });
+  } catch (error) {
+    if (error instanceof EmbeddingGenerationConflictError) {
+      return c.json<ApiResponse>({ success: false, error: error.message }, 409);
+    }
+    return handleVideoRouteError(c, error, 'Failed to roll back embedding generation');
+  }
+});
+
+/**
+ * @swagger
+ * /api/creators/{slug}:
+ *   delete:
+ *     summary: Delete a creator and all of its data
+ *     description: Stops running processing jobs, removes queued processing, re-embed and consistency jobs, Redis job keys and cached chunk embeddings, then the creator's vectors, transcript and channel-context chunks, archived and uploaded transcripts, ChannelAIProcessing records and finally the creator itself. Returns a deletion receipt with per-step counts, a verification that nothing is left and a receipt hash. Idempotent - if a step fails, calling it again resumes from that step; after success it returns the same receipt.
+ *     tags:
+ *       - Creators
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Team that owns the creator
+ *     responses:
+ *       200:
+ *         description: Creator deleted - data contains the deletion receipt
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized request origin
+ *       403:
+ *         description: Creator belongs to another team
+ *       404:
+ *         description: Creator not found
+ *       409:
+ *         description: Creator is being processed or a deletion is already running
+ *       500:
+ *         description: A step failed - data contains the partial receipt; retry to resume
+ */
+creators.delete('/:slug', async (c) => {
+  try {
+    // Validate security header
+    const originHeader = c.req.header('X-ThumbnailTest-Origin');
+    if (originHeader !== 'true') {
+      structuredLogger.warn({ originHeader }, 'Invalid origin header');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized request origin'
+      }, 401);
+    }
+
+    const { slug } = creatorSlugParamsSchema.parse(c.req.param());
+    const { teamId } = teamQuerySchema.parse(c.req.query());
+
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ slug });
+
+    let target: Parameters<typeof deleteCreator>[0];
+
+    if (creator?._id) {
+      if (creator.ownedByTeamId !== teamId) {
+        structuredLogger.warn({ slug, teamId, ownedByTeamId: creator.ownedByTeamId }, 'Creator deletion by different team');
+        return c.json<ApiResponse>({ success: false, error: 'This creator belongs to another team' }, 403);
+      }
+
+      target = { creatorId: creator._id.toString(), slug, teamId, channelId: creator.ownedByChannelId };
+    } else {
+      // The creators document is removed last - without it, resume or repeat an earlier deletion
+      const previous = await findCreatorDeletion(slug);
+      if (!previous) {
+        return c.json<ApiResponse>({ success: false, error: 'Creator not found' }, 404);
+      }
+      if (previous.teamId !== teamId) {
+        return c.json<ApiResponse>({ success: false, error: 'This creator belongs to another team' }, 403);
+      }
+
+      target = { creatorId: previous.creatorId, slug, teamId, channelId: previous.channelId };
+    }
+
+    // By creator ID, so a job started after the creators document was deleted is caught too
+    const [ongoing] = await findActiveProcessingJobs(target.creatorId);
+    if (ongoing) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'This creator is being processed. Cancel the job or wait for it to complete before deleting.',
+        data: { existingJobId: ongoing.data.jobId }
+      }, 409);
+    }
+
+    const deletion = await deleteCreator(target);
+    const receipt = toDeletionReceipt(deletion);
+
+    if (deletion.status !== 'completed') {
+      return c.json<ApiResponse>({ success: false, error: deletion.error ?? 'Creator deletion failed', data: receipt }, 500);
+    }
+
+    return c.json<ApiResponse>({ success: true, data: receipt });
+  } catch (error) {
+    if (error instanceof CreatorDeletionInProgressError) {
+      return c.json<ApiResponse>({ success: false, error: 'A deletion of this creator is already running' }, 409);
+    }
+    return handleVideoRouteError(c, error, 'Failed to delete creator');
+  }
+});
+
 export default creators;
@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import type { HealthCheck } from '../types';
 import { structuredLogger } from '../middleware/logger';
 import { connectToDatabase } from '../lib/mongodb';
+import { getEmbeddingCacheStats, isEmbeddingCacheEnabled } from '../lib/embedding-cache';
 
 const health = new Hono();
 
@@ -73,6 +74,15 @@ health.get('/', async (c) => {
       };
     }
     
+    // Embedding cache counters since this process started (lookup errors fall back to OpenAI)
+    if (isEmbeddingCacheEnabled()) {
+      const cacheStats = getEmbeddingCacheStats();
+      checks.embeddingCache = {
+        status: cacheStats.errors > 0 && cacheStats.hits === 0 ? 'degraded' : 'healthy',
+        message: `hits=${cacheStats.hits} misses=${cacheStats.misses} hitRate=${cacheStats.hitRate} errors=${cacheStats.errors}`
+      };
+    }
+    
     // Determine overall health
     const hasUnhealthy = Object.values(checks).some(check => check.status === 'unhealthy');
     const hasDegraded = Object.values(checks).some(check => check.status === 'degraded');
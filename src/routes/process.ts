@@ -1,21 +1,57 @@
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { z } from 'zod';
-import { ObjectId } from 'mongodb';
 import { randomUUID } from 'crypto';
 import type { ApiResponse, Creator, ChannelAIProcessing } from '../types';
 import { structuredLogger } from '../middleware/logger';
 import { connectToDatabase, connectToOrgsDatabase, connectToPrismaDatabase } from '../lib/mongodb';
-import { getChannelVideos, getChannelInfo } from '../lib/youtube';
-import { getVideoTranscriptWithData, cleanTranscript, chunkTextWithMetadata } from '../lib/youtube';
-import { storeTranscriptChunks, storeChannelContext } from '../lib/rag';
 import { jobStore, type ProcessingJob } from '../lib/job-store';
+import { enqueueProcessingJob, processingQueue } from '../lib/processing-queue';
+import { markJobCancelled } from '../lib/processing-worker';
+import { eligibilityOverridesSchema, parseTeamEligibilityOverrides, resolveEligibilityPolicy } from '../lib/eligibility';
+import { getVideoDetails } from '../lib/youtube';
+import { ingestUploadedTranscript, type UploadedTranscriptVideo } from '../lib/transcript-upload';
+import { findOngoingJobId } from '../lib/channel-sync';
+import { videoSourceSchema, formatVideoSource, UPLOADS_SOURCE } from '../lib/video-source';
+import { segmentFilterOverridesSchema } from '../lib/segment-classifier';
+import { TranscriptParseError } from '../lib/transcript-parser';
 
 const process = new Hono();
 
-// Processing timeout: 30 minutes
-const PROCESSING_TIMEOUT_MS = 30 * 60 * 1000;
+// Keep-alive interval for SSE connections (proxies drop idle streams)
+const SSE_HEARTBEAT_MS = 15 * 1000;
+
+const TERMINAL_STATUSES: ProcessingJob['status'][] = ['completed', 'failed', 'cancelled'];
+
+// Public view of a job, shared by the polling and streaming status endpoints
+function toJobStatusData(job: ProcessingJob) {
+  return {
+    jobId: job.jobId,
+    status: job.status,
+    mode: job.mode ?? 'full',
+    source: job.source ?? 'uploads',
+    progress: job.progress,
+    videos: job.videos ?? [],
+    result: job.result,
+    error: job.error,
+    creatorSlug: job.creatorSlug,
+    chatUrl: job.chatUrl,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    duration: job.completedAt && job.startedAt
+      ? Math.round((job.completedAt.getTime() - job.startedAt.getTime()) / 1000)
+      : undefined
+  };
+}
+
+// Uploaded transcript files are text - anything bigger is not a transcript
+const MAX_TRANSCRIPT_BYTES = 2 * 1024 * 1024;
 
 // Validation schemas
+// BCP 47-style caption language code, e.g. 'en', 'tr', 'es-419'
+const languageCodeSchema = z.string().regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/, 'Language must be a code like "en" or "es-419"');
+
 const processCreatorSchema = z.object({
   // Security & identification
   teamId: z.string().min(1, 'Team ID is required'),
@@ -26,22 +62,41 @@ const processCreatorSchema = z.object({
   channelHandle: z.string().min(1, 'Channel handle is required'),
   channelThumbnail: z.string().url().optional(),
 
+  // Which videos to build the bot from: "uploads" (default), "playlist:<id>" or "videos:[<id>,...]"
+  // Saved on the creator, so later runs and syncs reuse it
+  source: videoSourceSchema.optional(),
+
   // Optional custom description (max 1000 chars)
   customDescription: z.string().max(1000, 'Description must be less than 1000 characters').optional(),
 
   // Processing options
   options: z.object({
     maxVideos: z.number().min(1).max(100).default(20),
-    forceRefresh: z.boolean().default(false)
+    forceRefresh: z.boolean().default(false),
+    // Overrides the team's eligibility policy for this run only
+    eligibility: eligibilityOverridesSchema.optional(),
+    // Ordered caption language preference, saved on the creator for later runs
+    captionLanguages: z.array(languageCodeSchema).min(1).max(10).optional(),
+    // What to do with sponsor reads, self-promotion, intros and outros - saved on the creator
+    segmentFilter: segmentFilterOverridesSchema.optional()
   }).optional()
 });
 
+const transcriptUploadSchema = z.object({
+  teamId: z.string().min(1, 'Team ID is required'),
+  channelId: z.string().min(1, 'Channel ID is required'),
+  videoId: z.string().regex(/^[a-zA-Z0-9_-]{11}$/, 'Valid YouTube video ID required'),
+  format: z.enum(['srt', 'vtt', 'text']).optional(),
+  language: languageCodeSchema.optional(),
+  content: z.string().min(1, 'Transcript content is required').max(MAX_TRANSCRIPT_BYTES, 'Transcript file is too large')
+});
+
 /**
  * @swagger
  * /api/process/creator:
  *   post:
  *     summary: Trigger async video processing for a creator
- *     description: Starts background job to process videos, generate embeddings, and store in Pinecone
+ *     description: Enqueues a durable background job (BullMQ) to process videos, generate embeddings, and store in Pinecone
  *     tags:
  *       - Processing
  *     requestBody:
@@ -61,6 +116,11 @@ const processCreatorSchema = z.object({
  *                 type: string
  *                 format: uri
  *                 description: YouTube channel URL
+ *               source:
+ *                 type: string
+ *                 default: uploads
+ *                 example: playlist:PLxxxxxxxxxxxxxxxx
+ *                 description: Which videos to use - "uploads" (latest channel uploads), "playlist:<id or URL>" or "videos:[<id>,<id>]". Saved on the creator; later runs without a source reuse it.
  *               options:
  *                 type: object
  *                 properties:
@@ -72,6 +132,68 @@ const processCreatorSchema = z.object({
  *                   forceRefresh:
  *                     type: boolean
  *                     default: false
+ *                     description: Re-embed every video, even ones whose transcript is unchanged since the last run
+ *                   eligibility:
+ *                     type: object
+ *                     description: Per-request overrides of the video eligibility policy (applied on top of the team's policy)
+ *                     properties:
+ *                       minDurationMinutes:
+ *                         type: number
+ *                         default: 2
+ *                       maxDurationMinutes:
+ *                         type: number
+ *                         default: 25
+ *                       requireCaptions:
+ *                         type: boolean
+ *                         default: true
+ *                       includeShorts:
+ *                         type: boolean
+ *                         default: false
+ *                       includeLivestreams:
+ *                         type: boolean
+ *                         default: true
+ *                       publishedAfter:
+ *                         type: string
+ *                         format: date-time
+ *                       publishedBefore:
+ *                         type: string
+ *                         format: date-time
+ *                       titleInclude:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                         description: Only process videos whose title contains one of these (case-insensitive)
+ *                       titleExclude:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                         description: Skip videos whose title contains any of these (case-insensitive)
+ *                   captionLanguages:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                     example: [tr, en]
+ *                     description: Ordered caption language preference (manual tracks before auto-generated within a language). Saved on the creator and reused by later runs.
+ *                   segmentFilter:
+ *                     type: object
+ *                     description: How to handle detected non-content spans (drop removes them, tag keeps them flagged, keep ignores detection). Saved on the creator; combine with forceRefresh to re-apply to indexed videos.
+ *                     properties:
+ *                       sponsor:
+ *                         type: string
+ *                         enum: [drop, tag, keep]
+ *                         default: drop
+ *                       self_promo:
+ *                         type: string
+ *                         enum: [drop, tag, keep]
+ *                         default: drop
+ *                       intro:
+ *                         type: string
+ *                         enum: [drop, tag, keep]
+ *                         default: drop
+ *                       outro:
+ *                         type: string
+ *                         enum: [drop, tag, keep]
+ *                         default: drop
  *     responses:
  *       202:
  *         description: Job created and processing started
@@ -81,6 +203,9 @@ const processCreatorSchema = z.object({
  *         description: Server error
  */
 process.post('/creator', async (c) => {
+  // Set once this request holds the channel; released again if it fails before the job is queued
+  let reservation: { channelId: string; teamId: string; jobId: string } | undefined;
+
   try {
     // Validate security header
     const originHeader = c.req.header('X-ThumbnailTest-Origin');
@@ -93,7 +218,7 @@ process.post('/creator', async (c) => {
     }
 
     const body = await c.req.json();
-    const { channelUrl, channelHandle, channelThumbnail, customDescription, teamId, channelId, options } = processCreatorSchema.parse(body);
+    const { channelUrl, channelHandle, channelThumbnail, customDescription, teamId, channelId, source, options } = processCreatorSchema.parse(body);
 
     const maxVideos = options?.maxVideos || 20;
     const forceRefresh = options?.forceRefresh || false;
@@ -105,6 +230,7 @@ process.post('/creator', async (c) => {
       channelId,
       maxVideos,
       forceRefresh,
+      source: source && formatVideoSource(source),
       hasCustomDescription: !!customDescription
     }, 'Processing request received');
 
@@ -152,6 +278,13 @@ process.post('/creator', async (c) => {
 
     structuredLogger.info({ teamId, channelId }, 'Team and channel validation passed');
 
+    // Team policy first, then anything this request overrides
+    const teamEligibility = parseTeamEligibilityOverrides(team.channelAiEligibility);
+    if (team.channelAiEligibility && !teamEligibility) {
+      structuredLogger.warn({ teamId }, 'Ignoring malformed team eligibility policy');
+    }
+    const eligibilityPolicy = resolveEligibilityPolicy(teamEligibility, options?.eligibility);
+
     // Check for duplicate/concurrent processing requests
     const { db: prismaDb } = await connectToPrismaDatabase();
     const ongoingProcessing = await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').findOne({
@@ -178,6 +311,24 @@ process.post('/creator', async (c) => {
       }, 409);
     }
 
+    // The Prisma record is only written once a worker picks the job up, so a queued job is caught by
+    // an atomic Redis mark instead. The worker releases it when the job completes, fails or is cancelled.
+    const jobId = `job_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    if (!(await jobStore.markChannelProcessing(channelId, teamId, jobId))) {
+      const existingJobId = await jobStore.getChannelProcessingJobId(channelId, teamId);
+      structuredLogger.warn({ teamId, channelId, existingJobId }, 'Channel already has a queued or running job - rejecting duplicate request');
+
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'This channel is already being processed. Please wait for the current job to complete.',
+        data: {
+          existingJobId,
+          status: existingJobId ? (await jobStore.get(existingJobId))?.status : undefined
+        }
+      }, 409);
+    }
+    reservation = { channelId, teamId, jobId };
+
     // Connect to creator-ai database for creator operations
     const { db } = await connectToDatabase();
 
@@ -223,6 +374,13 @@ process.post('/creator', async (c) => {
     let creator = await db.collection<Creator>('creators').findOne({ ownedByChannelId: channelId });
     let actualCreatorId: string;
 
+    // Settings given on this request are saved on the creator for later runs
+    const creatorSettings: Pick<Creator, 'captionLanguages' | 'videoSource' | 'segmentFilter'> = {
+      ...(options?.captionLanguages && { captionLanguages: options.captionLanguages }),
+      ...(options?.segmentFilter && { segmentFilter: options.segmentFilter }),
+      ...(source && { videoSource: source })
+    };
+
     if (!creator) {
       // Create new creator with ownership
       const newCreator: Omit<Creator, '_id'> = {
@@ -231,6 +389,7 @@ process.post('/creator', async (c) => {
         setupComplete: false,
         ownedByTeamId: teamId,
         ownedByChannelId: channelId,
+        ...creatorSettings,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -255,6 +414,7 @@ process.post('/creator', async (c) => {
           requestingTeamId: teamId,
           requestingChannelId: channelId
         }, 'Channel owned by different team');
+        await jobStore.unmarkChannelProcessing(channelId, teamId, jobId);
         return c.json<ApiResponse>({
           success: false,
           error: 'This channel has already been processed by another team. Please contact support for ownership transfer.'
@@ -269,13 +429,21 @@ process.post('/creator', async (c) => {
         ownedByTeamId: creator.ownedByTeamId,
         ownedByChannelId: creator.ownedByChannelId
       }, 'Using existing creator (reprocessing)');
+
+      if (Object.keys(creatorSettings).length > 0) {
+        await db.collection<Creator>('creators').updateOne(
+          { _id: creator._id } as any,
+          { $set: { ...creatorSettings, updatedAt: new Date() } }
+        );
+      }
     }
 
+    const videoSource = source ?? creator?.videoSource ?? UPLOADS_SOURCE;
+
     // Generate chat URL using channelId (guaranteed unique, prevents slug collisions)
     const chatUrl = `${Bun.env.CHAT_BOT_URL || 'http://localhost:3002'}/c/${channelId}`;
 
     // Create job
-    const jobId = `job_${Date.now()}_${Math.random().toString(36).substring(7)}`;
     const job: ProcessingJob = {
       jobId,
       creatorId: actualCreatorId,
@@ -283,7 +451,9 @@ process.post('/creator', async (c) => {
       channelUrl,
       chatUrl,
       status: 'queued',
+      source: formatVideoSource(videoSource),
       progress: { current: 0, total: 0 },
+      channelReservation: { channelId, teamId },
       createdAt: new Date()
     };
 
@@ -293,11 +463,24 @@ process.post('/creator', async (c) => {
       jobId,
       creatorId: actualCreatorId,
       creatorName,
-      slug
+      slug,
+      source: job.source
     }, 'Job created');
 
-    // Start processing asynchronously with timeout (non-blocking)
-    processVideosAsyncWithTimeout(jobId, actualCreatorId, channelUrl, options?.maxVideos || 20, options?.forceRefresh || false, customDescription);
+    // Hand off to the processing queue - a worker (in-process or separate) picks it up
+    await enqueueProcessingJob({
+      jobId,
+      creatorId: actualCreatorId,
+      channelUrl,
+      // A hand-picked list is processed in full
+      maxVideos: videoSource.type === 'videos' ? videoSource.videoIds.length : maxVideos,
+      forceRefresh,
+      source: videoSource,
+      customDescription,
+      eligibilityPolicy,
+      documentId: randomUUID()
+    });
+    reservation = undefined; // The worker owns it now
 
     const response: ApiResponse = {
       success: true,
@@ -318,6 +501,10 @@ process.post('/creator', async (c) => {
     console.error('FULL ERROR:', error);
     structuredLogger.error({ error }, 'Error creating processing job');
 
+    if (reservation) {
+      await jobStore.unmarkChannelProcessing(reservation.channelId, reservation.teamId, reservation.jobId);
+    }
+
     if (error instanceof z.ZodError) {
       const errorResponse: ApiResponse = {
         success: false,
@@ -373,21 +560,7 @@ process.get('/status/:jobId', async (c) => {
 
     const response: ApiResponse = {
       success: true,
-      data: {
-        jobId: job.jobId,
-        status: job.status,
-        progress: job.progress,
-        result: job.result,
-        error: job.error,
-        creatorSlug: job.creatorSlug,
-        chatUrl: job.chatUrl,
-        createdAt: job.createdAt,
-        startedAt: job.startedAt,
-        completedAt: job.completedAt,
-        duration: job.completedAt && job.startedAt
-          ? Math.round((job.completedAt.getTime() - job.startedAt.getTime()) / 1000)
-          : undefined
-      }
+      data: toJobStatusData(job)
     };
 
     return c.json(response);
@@ -404,712 +577,408 @@ process.get('/status/:jobId', async (c) => {
   }
 });
 
-// Wrapper function with timeout protection
-async function processVideosAsyncWithTimeout(
-  jobId: string,
-  creatorId: string,
-  channelUrl: string,
-  maxVideos: number,
-  forceRefresh: boolean,
-  customDescription?: string
-) {
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => {
-      reject(new Error(`Processing timeout: Job exceeded maximum time limit of ${PROCESSING_TIMEOUT_MS / 60000} minutes`));
-    }, PROCESSING_TIMEOUT_MS);
-  });
+/**
+ * @swagger
+ * /api/process/status/{jobId}/stream:
+ *   get:
+ *     summary: Stream processing job status
+ *     description: |
+ *       Server-Sent Events stream of job updates. Sends a `snapshot` event on connect, then
+ *       `status` on status transitions, `progress` on per-video progress, and a final
+ *       `completed`, `failed` or `cancelled` event before closing. Works across instances via Redis pub/sub.
+ *     tags:
+ *       - Processing
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Job ID
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Job not found
+ */
+process.get('/status/:jobId/stream', async (c) => {
+  const { jobId } = c.req.param();
 
   try {
-    await Promise.race([
-      processVideosAsync(jobId, creatorId, channelUrl, maxVideos, forceRefresh, customDescription),
-      timeoutPromise
-    ]);
-  } catch (error) {
-    // If it's a timeout error, the processVideosAsync catch block will handle it
-    // We just let it bubble up naturally
-    structuredLogger.error({ 
-      error: error instanceof Error ? error.message : String(error),
-      jobId,
-      creatorId 
-    }, 'Processing failed or timed out');
-  }
-}
-
-// Async processing function
-async function processVideosAsync(
-  jobId: string,
-  creatorId: string,
-  channelUrl: string,
-  maxVideos: number,
-  forceRefresh: boolean,
-  customDescription?: string
-) {
-  const job = await jobStore.get(jobId);
-  if (!job) return;
-
-  // Generate a unique document ID upfront (Prisma-compatible UUID)
-  const documentId = randomUUID();
+    const job = await jobStore.get(jobId);
 
-  try {
-    job.status = 'processing';
-    job.startedAt = new Date();
-    await jobStore.set(jobId, job);
+    if (!job) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Job not found'
+      }, 404);
+    }
 
-    structuredLogger.info({ jobId, creatorId, channelUrl }, 'Processing started');
+    structuredLogger.info({ jobId, status: job.status }, 'Job status stream opened');
 
-    const { db } = await connectToDatabase();
+    return streamSSE(c, async (stream) => {
+      let eventId = 0;
+      let lastStatus = job.status;
+      let pending = Promise.resolve();
+      let finish: () => void = () => {};
+      const finished = new Promise<void>(resolve => { finish = resolve; });
 
-    // Write "processing" status to Prisma database at start
-    try {
-      const creator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
-      
-      if (creator?.ownedByTeamId && creator?.ownedByChannelId) {
-        const { db: prismaDb } = await connectToPrismaDatabase();
-        
-        const processingStartRecord: ChannelAIProcessing = {
-          _id: documentId, // Add _id field
-          channelId: creator.ownedByChannelId,
-          teamId: creator.ownedByTeamId,
-          creatorId,
-          status: 'processing',
-          jobId,
-          chatUrl: job.chatUrl,
-          channelUrl,
-          processedAt: new Date(),
-          videosProcessed: 0,
-          totalChunks: 0,
-          failedVideos: 0,
-          hasChannelContext: false,
-          customDescriptionUsed: false,
-          canReprocess: false, // Don't allow reprocessing while processing
-        };
+      const send = async (event: string, update: ProcessingJob) => {
+        await stream.writeSSE({
+          id: String(eventId++),
+          event,
+          data: JSON.stringify(toJobStatusData(update))
+        });
+      };
 
-        await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').updateOne(
-          { 
-            channelId: creator.ownedByChannelId, 
-            teamId: creator.ownedByTeamId,
-            jobId: jobId
-          },
-          { 
-            $set: processingStartRecord,
-            $setOnInsert: { createdAt: new Date() }
-          },
-          { upsert: true }
-        );
+      // Subscribe before reading the snapshot so no update is missed in between
+      const unsubscribe = await jobStore.subscribe(jobId, (update) => {
+        pending = pending.then(async () => {
+          if (stream.aborted || stream.closed) return;
 
-        structuredLogger.info({ 
-          jobId, 
-          creatorId, 
-          teamId: creator.ownedByTeamId,
-          channelId: creator.ownedByChannelId 
-        }, 'Processing status written to Prisma database');
-      }
-    } catch (error) {
-      structuredLogger.error({ error, jobId, creatorId }, 'Failed to write processing start status (non-fatal)');
-      // Non-fatal - continue processing even if status write fails
-    }
+          const event = TERMINAL_STATUSES.includes(update.status)
+            ? update.status
+            : update.status !== lastStatus ? 'status' : 'progress';
+          lastStatus = update.status;
 
-    // Fetch channel videos
-    structuredLogger.info({ jobId, channelUrl, maxVideos }, 'Fetching channel videos from YouTube...');
-    const videosData = await getChannelVideos(channelUrl, maxVideos);
-    const videos = videosData.videos || [];
+          await send(event, update);
 
-    // Set progress total (even if 0 videos)
-    job.progress.total = videos.length;
-    await jobStore.set(jobId, job);
+          if (TERMINAL_STATUSES.includes(update.status)) {
+            finish();
+          }
+        }).catch(error => {
+          structuredLogger.error({ error, jobId }, 'Failed to write job update to stream');
+          finish();
+        });
+      });
 
-    if (videos.length > 0) {
-      structuredLogger.info({
-        jobId,
-        videoCount: videos.length,
-        channelTitle: videosData.channel?.title,
-        videoDetails: videos.map(v => ({
-          title: v.title?.substring(0, 50),
-          duration: v.duration,
-          durationMinutes: v.durationMinutes,
-          hasCaptions: v.hasCaptions
-        }))
-      }, 'Videos fetched - detailed breakdown');
-    } else {
-      structuredLogger.warn({
-        jobId,
-        channelUrl,
-        channelTitle: videosData.channel?.title
-      }, 'No eligible videos found (all filtered out by duration 2-25min)');
-    }
+      const heartbeat = setInterval(() => {
+        pending = pending.then(() => stream.writeSSE({ event: 'ping', data: '' })).catch(() => finish());
+      }, SSE_HEARTBEAT_MS);
 
-    // Fetch channel info with Wikipedia
-    structuredLogger.info({ jobId, channelUrl }, 'Fetching channel info and Wikipedia data...');
-    const channelInfo = await getChannelInfo(channelUrl);
+      stream.onAbort(() => finish());
 
-    structuredLogger.info({
-      jobId,
-      hasChannelData: !!channelInfo?.channelData,
-      hasWikipediaData: !!channelInfo?.wikipediaData,
-      channelTitle: channelInfo?.channelData?.title,
-      descriptionLength: channelInfo?.channelData?.description?.length || 0,
-      wikipediaSummaryLength: channelInfo?.wikipediaData?.summary?.length || 0
-    }, 'Channel info fetched');
-
-    // NOW check eligibility with all the data
-    const hasCustomDescription = customDescription && customDescription.length > 50;
-    const hasChannelDescription = channelInfo?.channelData?.description && channelInfo.channelData.description.length > 50;
-    const hasWikipedia = channelInfo?.wikipediaData?.summary && channelInfo.wikipediaData.summary.length > 50;
-
-    // Calculate eligibility FIRST before checking
-    const videosWithCaptions = videos.filter(v => v.hasCaptions).length;
-    const videosWithValidDuration = videos.filter(v => {
-      const duration = v.durationMinutes || 0;
-      return duration >= 2 && duration <= 25;
-    }).length;
-    const videosEligibleForProcessing = videos.filter(v => {
-      const duration = v.durationMinutes || 0;
-      return v.hasCaptions && duration >= 2 && duration <= 25;
-    }).length;
-
-    // If no ELIGIBLE videos AND no descriptions, fail early
-    if (videosEligibleForProcessing === 0 && !hasCustomDescription && !hasChannelDescription && !hasWikipedia) {
-      const errorMsg = 'No eligible videos found. Your videos must be between 2-25 minutes long with captions enabled. ' +
-        'To proceed without eligible videos, please provide a custom description when creating the bot (or add a detailed channel description on YouTube).';
-
-      structuredLogger.error({
-        jobId,
-        channelUrl,
-        totalVideos: videos.length,
-        videosEligibleForProcessing,
-        videosWithCaptions,
-        videosWithValidDuration,
-        hasCustomDescription,
-        hasChannelDescription,
-        hasWikipedia
-      }, errorMsg);
-
-      throw new Error(errorMsg);
-    }
+      try {
+        // Re-read the job now that updates are delivered - the copy above may already be stale. Queued
+        // ahead of any update from the subscription, which at worst repeats what the snapshot shows.
+        let snapshot: ProcessingJob = job;
+        pending = pending.then(async () => {
+          snapshot = (await jobStore.get(jobId)) ?? job;
+          lastStatus = snapshot.status;
+          await send('snapshot', snapshot);
+        });
+        await pending;
 
-    // If no eligible videos but HAS descriptions, allow processing
-    if (videosEligibleForProcessing === 0 && (hasCustomDescription || hasChannelDescription || hasWikipedia)) {
-      structuredLogger.info({
-        jobId,
-        totalVideos: videos.length,
-        videosEligibleForProcessing,
-        hasCustomDescription,
-        hasChannelDescription,
-        hasWikipedia
-      }, 'No eligible videos, but has descriptions - proceeding with channel context only');
-    }
+        // Nothing more will happen for finished jobs
+        if (TERMINAL_STATUSES.includes(snapshot.status)) {
+          finish();
+        }
 
-    structuredLogger.info({
-      jobId,
-      totalVideos: videos.length,
-      videosWithCaptions,
-      videosWithValidDuration,
-      videosEligibleForProcessing,
-      hasChannelDescription,
-      hasCustomDescription,
-      hasWikipedia,
-      channelDescriptionLength: channelInfo?.channelData?.description?.length || 0,
-      customDescriptionLength: customDescription?.length || 0,
-      wikipediaSummaryLength: channelInfo?.wikipediaData?.summary?.length || 0
-    }, 'Eligibility check - detailed');
-
-    // Build specific error message based on what's missing
-    let errorMessage = '';
-
-    if (videosEligibleForProcessing === 0 && !hasChannelDescription && !hasCustomDescription && !hasWikipedia) {
-      // No eligible videos AND no descriptions
-      if (videosWithCaptions === 0 && videosWithValidDuration === 0) {
-        errorMessage = 'Channel not eligible: No videos with captions AND no videos between 2-25 minutes in length. ' +
-          'Requirements:\n' +
-          '• Videos must have captions/transcripts enabled\n' +
-          '• Videos must be between 2-25 minutes long\n' +
-          'OR provide a custom description when creating the bot.';
-      } else if (videosWithCaptions === 0) {
-        errorMessage = `Channel not eligible: Found ${videosWithValidDuration} video(s) with valid duration (2-25 min), but NONE have captions/transcripts. ` +
-          'YouTube auto-generates captions after 10-30 minutes. ' +
-          'Please enable captions or provide a custom description.';
-      } else if (videosWithValidDuration === 0) {
-        errorMessage = `Channel not eligible: Found ${videosWithCaptions} video(s) with captions, but NONE are between 2-25 minutes in length. ` +
-          'We only process videos between 2-25 minutes. ' +
-          'Please ensure you have videos in this duration range or provide a custom description.';
-      } else {
-        errorMessage = `Channel not eligible: Found ${videosWithCaptions} video(s) with captions and ${videosWithValidDuration} video(s) with valid duration, but NO overlap. ` +
-          'Videos need BOTH captions AND be 2-25 minutes long. ' +
-          'Please provide a custom description to proceed.';
+        await finished;
+      } finally {
+        clearInterval(heartbeat);
+        await unsubscribe();
+        structuredLogger.info({ jobId, eventsSent: eventId }, 'Job status stream closed');
       }
+    });
 
-      structuredLogger.error({
-        jobId,
-        totalVideos: videos.length,
-        videosWithCaptions,
-        videosWithValidDuration,
-        videosEligibleForProcessing,
-        hasChannelDescription,
-        hasCustomDescription,
-        hasWikipedia
-      }, 'Channel NOT eligible for processing');
-
-      throw new Error(errorMessage);
+  } catch (error) {
+    structuredLogger.error({ error, jobId }, 'Error opening job status stream');
+
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to open job status stream'
+    }, 500);
+  }
+});
+
+/**
+ * @swagger
+ * /api/process/jobs/{jobId}:
+ *   delete:
+ *     summary: Cancel a processing job
+ *     description: Removes a queued job, or asks a running job to stop before its next video. Videos already indexed are kept.
+ *     tags:
+ *       - Processing
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Job ID
+ *     responses:
+ *       200:
+ *         description: Job cancelled before it started
+ *       202:
+ *         description: Cancellation requested, job stops after the current video
+ *       401:
+ *         description: Unauthorized request origin
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: Job already finished
+ */
+process.delete('/jobs/:jobId', async (c) => {
+  try {
+    // Validate security header
+    const originHeader = c.req.header('X-ThumbnailTest-Origin');
+    if (originHeader !== 'true') {
+      structuredLogger.warn({ originHeader }, 'Invalid origin header');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized request origin'
+      }, 401);
     }
 
-    // Warn if only relying on descriptions
-    if (videosEligibleForProcessing === 0 && (hasChannelDescription || hasCustomDescription || hasWikipedia)) {
-      structuredLogger.warn({
-        jobId,
-        hasChannelDescription,
-        hasCustomDescription,
-        hasWikipedia,
-        totalVideos: videos.length,
-        videosWithCaptions,
-        videosWithValidDuration,
-        channelDescriptionPreview: channelInfo?.channelData?.description?.substring(0, 100),
-        customDescriptionPreview: customDescription?.substring(0, 100),
-        wikipediaSummaryPreview: channelInfo?.wikipediaData?.summary?.substring(0, 100)
-      }, 'No eligible videos (captions + 2-25min duration), but channel context available - proceeding with descriptions only');
+    const { jobId } = c.req.param();
+    const job = await jobStore.get(jobId);
+
+    if (!job) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Job not found'
+      }, 404);
     }
 
-    structuredLogger.info({
-      jobId,
-      eligibilityPassed: true,
-      willProcessVideos: videosEligibleForProcessing > 0,
-      videosEligibleForProcessing,
-      willUseChannelContext: hasChannelDescription || hasCustomDescription || hasWikipedia
-    }, 'Eligibility check PASSED - proceeding with processing');
-
-    // Process videos
-    let processedVideos = 0;
-    let totalChunks = 0;
-    let failedVideos = 0;
-    const processedVideoData = [];
-
-    for (let i = 0; i < videos.length; i++) {
-      const video = videos[i];
-      const { videoId, title, url, description, publishedAt, thumbnails, duration, durationMinutes, viewCount, likeCount, hasCaptions } = video;
+    if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+      return c.json<ApiResponse>({
+        success: false,
+        error: `Job already ${job.status}`,
+        data: { jobId, status: job.status }
+      }, 409);
+    }
 
-      try {
-        // Skip videos outside duration range (2-25 minutes)
-        const videoDuration = durationMinutes || 0;
-        if (videoDuration < 2 || videoDuration > 25) {
-          structuredLogger.info({
-            jobId,
-            videoId,
-            durationMinutes: videoDuration,
-            title: title?.substring(0, 50)
-          }, 'Skipping video - duration out of range (2-25 min)');
-          processedVideoData.push({
-            videoId,
-            title: title || `Video ${videoId}`,
-            url,
-            hasTranscript: false
-          });
-          failedVideos++;
-          continue;
-        }
+    // Jobs that have not started yet (or are waiting on a retry) can be pulled from the queue directly
+    const bullJob = await processingQueue.getJob(jobId);
+    const state = bullJob ? await bullJob.getState() : undefined;
 
-        structuredLogger.info({
-          jobId,
-          videoIndex: i + 1,
-          totalVideos: videos.length,
-          videoId,
-          durationMinutes: videoDuration,
-          title: title?.substring(0, 50)
-        }, 'Processing video');
-
-        // Get transcript
-        const transcriptData = await getVideoTranscriptWithData(videoId);
-
-        if (!transcriptData?.text) {
-          structuredLogger.warn({ jobId, videoId, durationMinutes: videoDuration }, 'No transcript found');
-          processedVideoData.push({
-            videoId,
-            title: title || `Video ${videoId}`,
-            url,
-            hasTranscript: false
-          });
-          failedVideos++;
-          continue;
-        }
+    if (bullJob && (state === 'waiting' || state === 'delayed' || state === 'prioritized')) {
+      await bullJob.remove();
+      await markJobCancelled(bullJob.data);
 
-        // Clean and chunk
-        let rawTranscript = transcriptData.text;
-        rawTranscript = rawTranscript.replace(/(\b[\w\s',.!?]+?)\s+\1(?=\s|$)/g, '$1');
-        rawTranscript = rawTranscript.replace(/\s+/g, ' ').trim();
-
-        const cleanedTranscript = cleanTranscript(rawTranscript);
-        const documents = await chunkTextWithMetadata(
-          cleanedTranscript,
-          transcriptData.segments || [],
-          {
-            videoId,
-            videoTitle: title || `Video ${videoId}`,
-            videoUrl: url,
-            thumbnailUrl: thumbnails?.medium?.url ?? undefined
-          }
-        );
+      structuredLogger.info({ jobId, state }, 'Queued job removed and cancelled');
 
-        if (documents.length === 0) {
-          processedVideoData.push({
-            videoId,
-            title: title || `Video ${videoId}`,
-            url,
-            hasTranscript: false
-          });
-          failedVideos++;
-          continue;
-        }
+      return c.json<ApiResponse>({
+        success: true,
+        data: { jobId, status: 'cancelled' },
+        message: 'Job cancelled before processing started'
+      });
+    }
 
-        // Store in Pinecone + MongoDB
-        await storeTranscriptChunks(
-          creatorId,
-          videoId,
-          documents,
-          title || `Video ${videoId}`,
-          url,
-          thumbnails?.medium?.url ?? undefined,
-          transcriptData.segments || []
-        );
+    // Running job - the worker stops before the next video
+    await jobStore.requestCancellation(jobId);
 
-        processedVideos++;
-        totalChunks += documents.length;
+    structuredLogger.info({ jobId, state }, 'Cancellation requested for running job');
 
-        processedVideoData.push({
-          videoId,
-          title: title || `Video ${videoId}`,
-          url,
-          duration: duration ?? undefined,
-          publishedAt: publishedAt ? new Date(publishedAt) : undefined,
-          thumbnails: thumbnails ? {
-            default: thumbnails.default?.url ? { url: thumbnails.default.url } : undefined,
-            medium: thumbnails.medium?.url ? { url: thumbnails.medium.url } : undefined,
-            high: thumbnails.high?.url ? { url: thumbnails.high.url } : undefined,
-          } : undefined,
-          hasTranscript: true
-        });
+    return c.json<ApiResponse>({
+      success: true,
+      data: { jobId, status: 'cancelling' },
+      message: 'Cancellation requested. The job will stop after the current video.'
+    }, 202);
 
-        // Update progress
-        job.progress.current = i + 1;
-        await jobStore.set(jobId, job);
+  } catch (error) {
+    structuredLogger.error({ error }, 'Error cancelling job');
 
-        structuredLogger.info({
-          jobId,
-          videoId,
-          documentsGenerated: documents.length,
-          progress: `${i + 1}/${videos.length}`
-        }, 'Video processed');
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to cancel job'
+    }, 500);
+  }
+});
 
-      } catch (error) {
-        structuredLogger.error({ error, jobId, videoId }, 'Failed to process video');
-        processedVideoData.push({
-          videoId,
-          title: title || `Video ${videoId}`,
-          url,
-          hasTranscript: false
-        });
-        failedVideos++;
-      }
+/**
+ * @swagger
+ * /api/process/transcripts:
+ *   post:
+ *     summary: Upload a transcript for a video
+ *     description: Index an SRT, WebVTT or timestamped plain-text transcript for one of the creator's videos (e.g. a video with captions disabled). Replaces any existing chunks for the video; the file is stored so later runs, including forced refreshes, keep using it while "upload" is in TRANSCRIPT_PROVIDERS.
+ *     tags:
+ *       - Processing
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [teamId, channelId, videoId, file]
+ *             properties:
+ *               teamId:
+ *                 type: string
+ *               channelId:
+ *                 type: string
+ *               videoId:
+ *                 type: string
+ *               format:
+ *                 type: string
+ *                 enum: [srt, vtt, text]
+ *                 description: Detected from the content when omitted
+ *               language:
+ *                 type: string
+ *                 description: Language code of the transcript (e.g. tr, es-419)
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [teamId, channelId, videoId, content]
+ *             properties:
+ *               teamId:
+ *                 type: string
+ *               channelId:
+ *                 type: string
+ *               videoId:
+ *                 type: string
+ *               format:
+ *                 type: string
+ *                 enum: [srt, vtt, text]
+ *               language:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Transcript indexed
+ *       400:
+ *         description: Invalid request or unparseable transcript
+ *       401:
+ *         description: Unauthorized request origin
+ *       403:
+ *         description: Creator belongs to another team
+ *       404:
+ *         description: Creator or video not found
+ *       409:
+ *         description: Channel is being processed, or the video was removed from the creator
+ */
+process.post('/transcripts', async (c) => {
+  try {
+    // Validate security header
+    const originHeader = c.req.header('X-ThumbnailTest-Origin');
+    if (originHeader !== 'true') {
+      structuredLogger.warn({ originHeader }, 'Invalid origin header');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized request origin'
+      }, 401);
     }
 
-    // Post-processing validation (reuse variables from eligibility check)
-    if (processedVideos === 0 && !hasChannelDescription && !hasCustomDescription && !hasWikipedia) {
-      // This shouldn't happen due to eligibility check, but just in case
-      throw new Error(
-        'Processing completed but no content available. None of your videos have transcripts, and no channel description was found. ' +
-        'Please either:\n' +
-        '1. Enable captions on your videos\n' +
-        '2. Add a channel description on YouTube\n' +
-        '3. Provide a custom description'
-      );
+    // Accept a multipart file upload or the file contents as JSON
+    let rawBody: Record<string, unknown>;
+    if (c.req.header('Content-Type')?.includes('multipart/form-data')) {
+      const form = await c.req.parseBody();
+      const file = form.file;
+      rawBody = {
+        ...form,
+        content: file instanceof File ? await file.text() : file
+      };
+    } else {
+      rawBody = await c.req.json();
     }
 
-    if (processedVideos === 0 && (hasChannelDescription || hasCustomDescription || hasWikipedia)) {
-      structuredLogger.info({
-        jobId,
-        creatorId,
-        hasChannelDescription,
-        hasCustomDescription,
-        hasWikipedia,
-        totalVideos: videos.length,
-        failedVideos
-      }, 'No video transcripts processed, but channel context available - proceeding with descriptions only');
+    const { teamId, channelId, videoId, format, language, content } = transcriptUploadSchema.parse(rawBody);
+
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ ownedByChannelId: channelId });
+
+    if (!creator) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Creator not found. Process the channel before uploading transcripts.'
+      }, 404);
     }
 
-    if (processedVideos === 0) {
-      structuredLogger.warn({
-        jobId,
-        creatorId,
-        failedVideos,
-        totalVideos: videos.length,
-        proceedingWithContextOnly: hasChannelDescription || hasCustomDescription || hasWikipedia
-      }, 'No videos processed successfully');
+    if (creator.ownedByTeamId !== teamId) {
+      structuredLogger.warn({ teamId, channelId, ownedByTeamId: creator.ownedByTeamId }, 'Transcript upload for channel owned by different team');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'This channel belongs to another team'
+      }, 403);
     }
 
-    // RE-VALIDATE subscription and channel membership before storing results
-    // This prevents giving processed content to teams that cancelled during processing
-    try {
-      const { db: orgsDb } = await connectToOrgsDatabase();
-      const creator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
-      
-      if (creator?.ownedByTeamId && creator?.ownedByChannelId) {
-        const team = await orgsDb.collection('teams').findOne({ teamId: creator.ownedByTeamId });
-        
-        if (!team) {
-          throw new Error('Team no longer exists. Processing aborted.');
-        }
-        
-        if (team.sub_status !== 'active') {
-          throw new Error(`Subscription is no longer active (status: ${team.sub_status}). Processing aborted.`);
-        }
-        
-        if (team.has_channel_ai !== true) {
-          throw new Error('Channel AI subscription was cancelled during processing. Processing aborted.');
-        }
-        
-        // const channelStillExists = team.channels?.some(
-        //   (ch: any) => ch.channelId === creator.ownedByChannelId || ch === creator.ownedByChannelId
-        // );
-        
-        // if (!channelStillExists) {
-        //   throw new Error('Channel was removed from team during processing. Processing aborted.');
-        // }
-        
-        structuredLogger.info({
-          jobId,
-          creatorId,
-          teamId: creator.ownedByTeamId,
-          channelId: creator.ownedByChannelId
-        }, 'Re-validation passed: Team still has active Channel AI subscription and channel membership');
-      }
-    } catch (validationError) {
-      structuredLogger.error({
-        error: validationError instanceof Error ? validationError.message : String(validationError),
-        jobId,
-        creatorId
-      }, 'Subscription/channel re-validation failed - aborting processing');
-      
-      throw validationError; // Will be caught by outer catch block and marked as failed
+    if (creator.excludedVideoIds?.includes(videoId)) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'This video was removed from the creator. Add it again before uploading a transcript.'
+      }, 409);
     }
 
-    // Update creator in MongoDB
-    const enhancedMetadata: Partial<Creator> = {
-      setupComplete: true,
-      updatedAt: new Date(),
-      videos: processedVideoData
-    };
+    // A run for the channel would replace the uploaded chunks (or be replaced by them) halfway through
+    const existingJobId = await findOngoingJobId(creator);
+    if (existingJobId) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'This channel is already being processed. Please wait for the current job to complete.',
+        data: { existingJobId }
+      }, 409);
+    }
 
-    if (channelInfo) {
-      if (channelInfo.channelData) {
-        const channelThumbnails = channelInfo.channelData.thumbnails;
-        const channelStats = channelInfo.channelData.statistics;
-
-        enhancedMetadata.channelData = {
-          title: channelInfo.channelData.title ?? 'Unknown Channel',
-          description: channelInfo.channelData.description ?? undefined,
-          thumbnails: channelThumbnails ? {
-            default: channelThumbnails.default?.url ? { url: channelThumbnails.default.url } : undefined,
-            medium: channelThumbnails.medium?.url ? { url: channelThumbnails.medium.url } : undefined,
-            high: channelThumbnails.high?.url ? { url: channelThumbnails.high.url } : undefined,
-          } : undefined,
-          statistics: channelStats ? {
-            viewCount: channelStats.viewCount ? parseInt(channelStats.viewCount) : undefined,
-            subscriberCount: channelStats.subscriberCount ? parseInt(channelStats.subscriberCount) : undefined,
-            videoCount: channelStats.videoCount ? parseInt(channelStats.videoCount) : undefined,
-          } : undefined
-        };
-      }
-      if (channelInfo.wikipediaData) {
-        // WikipediaEnrichmentData has different structure than WikipediaData
-        // Need to map it properly - use channel title as Wikipedia title
-        enhancedMetadata.wikipediaData = {
-          title: channelInfo.channelData?.title ?? 'Unknown',
-          summary: channelInfo.wikipediaData.summary || '',
-          url: channelInfo.wikipediaData.url
+    // Prefer what we already know about the video, otherwise ask YouTube
+    let video: UploadedTranscriptVideo | undefined;
+    const knownVideo = creator.videos?.find(v => v.videoId === videoId);
+    if (knownVideo) {
+      video = {
+        videoId,
+        title: knownVideo.title,
+        url: knownVideo.url,
+        thumbnailUrl: knownVideo.thumbnails?.medium?.url
+      };
+    } else {
+      const [details] = await getVideoDetails([videoId]);
+      if (details) {
+        video = {
+          videoId,
+          title: details.title || `Video ${videoId}`,
+          url: details.url,
+          thumbnailUrl: details.thumbnails?.medium?.url ?? undefined
         };
       }
     }
 
-    await db.collection<Creator>('creators').updateOne(
-      { _id: new ObjectId(creatorId) } as any,
-      { $set: enhancedMetadata }
-    );
-
-    // Store channel context embeddings
-    try {
-      structuredLogger.info({
-        jobId,
-        creatorId,
-        hasChannelDescription: !!channelInfo?.channelData?.description,
-        hasCustomDescription: !!customDescription,
-        hasWikipedia: !!channelInfo?.wikipediaData
-      }, 'Storing channel context');
-
-      await storeChannelContext(
-        creatorId,
-        {
-          title: channelInfo?.channelData?.title ?? undefined,
-          description: channelInfo?.channelData?.description ?? undefined,
-          customDescription
-        },
-        channelInfo?.wikipediaData ?? undefined
-      );
-
-      structuredLogger.info({ jobId, creatorId }, 'Channel context stored successfully');
-    } catch (error) {
-      // Don't fail the entire job if channel context fails
-      structuredLogger.error({ error, jobId, creatorId }, 'Failed to store channel context');
+    if (!video) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Video not found'
+      }, 404);
     }
 
-    // Job complete
-    job.status = 'completed';
-    job.completedAt = new Date();
-    job.result = {
-      processedVideos,
-      totalChunks,
-      failedVideos
-    };
-    await jobStore.set(jobId, job);
-
-    structuredLogger.info({
-      jobId,
-      processedVideos,
-      totalChunks,
-      failedVideos,
-      duration: Math.round((job.completedAt.getTime() - job.startedAt!.getTime()) / 1000)
-    }, 'Processing completed');
-
-    // Write processing status directly to Prisma database
-    try {
-      const creator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
-
-      if (creator?.ownedByTeamId && creator?.ownedByChannelId) {
-        const { db: prismaDb } = await connectToPrismaDatabase();
-        
-        const processingRecord: ChannelAIProcessing = {
-          _id: documentId, // Add _id field
-          channelId: creator.ownedByChannelId,
-          teamId: creator.ownedByTeamId,
-          creatorId,
-          status: 'completed',
-          jobId,
-          chatUrl: job.chatUrl,
-          channelUrl,
-          processedAt: new Date(),
-          videosProcessed: processedVideos,
-          totalChunks,
-          failedVideos,
-          hasChannelContext: !!channelInfo,
-          customDescriptionUsed: !!customDescription,
-          errorCount: 0, // Reset error count on success
-          lastError: undefined, // Clear previous errors on success
-          canReprocess: true, // Allow reprocessing after successful completion
-        };
-
-        structuredLogger.info({
-          jobId,
-          creatorId,
-          teamId: creator.ownedByTeamId,
-          channelId: creator.ownedByChannelId,
-        }, 'Writing processing status directly to Prisma database');
-
-        // Upsert: update if exists, insert if not
-        await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').updateOne(
-          { 
-            channelId: creator.ownedByChannelId, 
-            teamId: creator.ownedByTeamId, 
-            jobId: jobId 
-          },
-          { 
-            $set: processingRecord,
-            $setOnInsert: { createdAt: new Date() }
-          },
-          { upsert: true }
-        );
+    const creatorId = creator._id!.toString();
+    const result = await ingestUploadedTranscript(creatorId, video, content, format, language);
 
-        structuredLogger.info({ 
-          jobId, 
-          creatorId, 
-          teamId: creator.ownedByTeamId,
-          channelId: creator.ownedByChannelId 
-        }, 'Processing status written successfully to Prisma database');
-      } else {
-        structuredLogger.warn({
-          jobId,
-          creatorId,
-          hasTeamId: !!creator?.ownedByTeamId,
-          hasChannelId: !!creator?.ownedByChannelId
-        }, 'Creator missing ownership info, skipping status update');
-      }
-    } catch (error) {
-      structuredLogger.error({
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-        jobId,
-        creatorId
-      }, 'Failed to write processing status to Prisma database');
-      // Don't fail the job if status update fails
-    }
+    return c.json<ApiResponse>({
+      success: true,
+      data: { creatorId, ...result },
+      message: 'Transcript indexed successfully'
+    });
 
   } catch (error) {
-    structuredLogger.error({ error, jobId }, 'Processing failed');
-    job.status = 'failed';
-    job.error = error instanceof Error ? error.message : 'Unknown error';
-    job.completedAt = new Date();
-    await jobStore.set(jobId, job);
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request parameters',
+        message: error.issues.map((e: z.ZodIssue) => e.message).join(', ')
+      }, 400);
+    }
 
-    // Write failed status directly to Prisma database
-    try {
-      const { db } = await connectToDatabase();
-      const creator = await db.collection<Creator>('creators').findOne({ _id: new ObjectId(creatorId) } as any);
-
-      if (creator?.ownedByTeamId && creator?.ownedByChannelId) {
-        const { db: prismaDb } = await connectToPrismaDatabase();
-        
-        const failedRecord: Omit<ChannelAIProcessing, 'errorCount'> = {
-          _id: documentId, // Add _id to failedRecord
-          channelId: creator.ownedByChannelId,
-          teamId: creator.ownedByTeamId,
-          creatorId,
-          status: 'failed',
-          jobId,
-          chatUrl: job.chatUrl,
-          channelUrl,
-          processedAt: new Date(),
-          videosProcessed: 0,
-          totalChunks: 0,
-          failedVideos: 0,
-          hasChannelContext: false,
-          customDescriptionUsed: false,
-          lastError: job.error,
-          canReprocess: true, // Allow retry after failure
-        };
+    if (error instanceof TranscriptParseError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid transcript',
+        message: error.message
+      }, 400);
+    }
 
-        structuredLogger.info({
-          jobId,
-          creatorId,
-          teamId: creator.ownedByTeamId,
-          channelId: creator.ownedByChannelId,
-        }, 'Writing failed status directly to Prisma database');
-
-        // Upsert: update if exists, insert if not
-        await prismaDb.collection<ChannelAIProcessing>('ChannelAIProcessing').updateOne(
-          { 
-            channelId: creator.ownedByChannelId, 
-            teamId: creator.ownedByTeamId,
-            jobId: jobId
-          },
-          { 
-            $set: failedRecord,
-            $inc: { errorCount: 1 }, // Increment error count (MongoDB creates field if doesn't exist)
-            $setOnInsert: { createdAt: new Date() } // Only set createdAt on insert
-          },
-          { upsert: true }
-        );
+    structuredLogger.error({ error }, 'Error uploading transcript');
 
-        structuredLogger.info({ jobId, creatorId, teamId: creator.ownedByTeamId }, 'Failed status written to Prisma database');
-      }
-    } catch (statusError) {
-      structuredLogger.error({ error: statusError, jobId, creatorId }, 'Failed to write failed status to Prisma database');
-    }
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to upload transcript'
+    }, 500);
   }
-}
+});
 
 export default process;
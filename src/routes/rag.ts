@@ -3,7 +3,11 @@ import { z } from 'zod';
 import type { ApiResponse, Creator } from '../types';
 import { structuredLogger } from '../middleware/logger';
 import { connectToDatabase } from '../lib/mongodb';
-import { searchSimilarChunksWithReferences } from '../lib/video-references';
+import { searchSimilarChunksWithReferences, formatTimestamp } from '../lib/video-references';
+import { enqueueNamespaceMigration, listNamespaceMigrations } from '../lib/namespace-migration';
+import { getIndexStats } from '../lib/vectors';
+import { enqueueConsistencyCheck, getConsistencyReport, listConsistencyReports } from '../lib/vector-consistency';
+import { LEGACY_NAMESPACE, LEGACY_DIMENSIONS } from '../lib/vector-stores';
 
 const rag = new Hono();
 
@@ -18,6 +22,15 @@ const ragSearchSchema = z.object({
   })).optional().default([])
 });
 
+const namespaceMigrationSchema = z.object({
+  creatorIds: z.array(z.string().min(1)).min(1).optional()
+});
+
+const consistencyCheckSchema = z.object({
+  creatorIds: z.array(z.string().min(1)).min(1).optional(),
+  repair: z.boolean().default(false)
+});
+
 /**
  * @swagger
  * /api/rag/search:
@@ -219,10 +232,17 @@ rag.post('/search', async (c) => {
         if (result.timestamp && result.timestamp !== "0:00") {
           formattedContext += `Timestamp: ${result.timestamp}\n`;
         }
+        if (result.videoReference?.chapterTitle) {
+          formattedContext += `Chapter: "${result.videoReference.chapterTitle}" (starts at ${formatTimestamp(result.videoReference.chapterStartTime ?? 0)})\n`;
+        }
+        if (result.videoReference?.language) {
+          formattedContext += `Language: ${result.videoReference.language}${result.videoReference.captionTrackKind === 'asr' ? ' (auto-generated captions, may contain transcription errors)' : ''}\n`;
+        }
         formattedContext += `Content: ${result.text}\n\n`;
       });
 
       formattedContext += `Use this content to answer the user's question. Reference specific videos and timestamps when relevant.\n`;
+      formattedContext += `Excerpts may be in a different language than the question - always answer in the language the user wrote in.\n`;
     }
 
     // Prepare chunks for structured response
@@ -234,6 +254,10 @@ rag.post('/search', async (c) => {
       timestamp: result.timestamp,
       score: result.score,
       chunkIndex: result.chunkIndex,
+      language: result.videoReference?.language,
+      captionTrackKind: result.videoReference?.captionTrackKind,
+      chapterTitle: result.videoReference?.chapterTitle,
+      chapterStartTime: result.videoReference?.chapterStartTime,
       metadata: result.metadata
     }));
 
@@ -281,4 +305,233 @@ rag.post('/search', async (c) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/rag/namespace-migration:
+ *   post:
+ *     summary: Move vectors from the shared namespace into per-creator namespaces
+ *     description: Enqueues a background job that copies each creator's vectors out of the legacy default namespace into their own namespace, then removes the legacy copies. Searches keep working during the move. Safe to re-run; completed creators are skipped.
+ *     tags:
+ *       - RAG
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               creatorIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Only migrate these creators (defaults to all)
+ *     responses:
+ *       202:
+ *         description: Migration job queued
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized request origin
+ *       500:
+ *         description: Internal server error
+ */
+rag.post('/namespace-migration', async (c) => {
+  try {
+    // Validate security header
+    const originHeader = c.req.header('X-ThumbnailTest-Origin');
+    if (originHeader !== 'true') {
+      structuredLogger.warn({ originHeader }, 'Invalid origin header');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized request origin'
+      }, 401);
+    }
+
+    const body = c.req.header('Content-Type')?.includes('application/json') ? await c.req.json() : {};
+    const { creatorIds } = namespaceMigrationSchema.parse(body);
+
+    const jobId = await enqueueNamespaceMigration(creatorIds);
+
+    structuredLogger.info({ jobId, creators: creatorIds?.length ?? 'all' }, 'Namespace migration enqueued');
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: { jobId, status: 'queued' }
+    }, 202);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request parameters',
+        message: error.issues.map(issue => issue.message).join(', ')
+      }, 400);
+    }
+
+    structuredLogger.error({ error }, 'Failed to enqueue namespace migration');
+    return c.json<ApiResponse>({ success: false, error: 'Failed to enqueue namespace migration' }, 500);
+  }
+});
+
+/**
+ * @swagger
+ * /api/rag/namespace-migration:
+ *   get:
+ *     summary: Namespace migration progress
+ *     description: Per-creator migration records, vector counts per namespace and how many vectors are still in the legacy namespace
+ *     tags:
+ *       - RAG
+ *     responses:
+ *       200:
+ *         description: Migration progress
+ *       500:
+ *         description: Internal server error
+ */
+rag.get('/namespace-migration', async (c) => {
+  try {
+    const [migrations, stats] = await Promise.all([listNamespaceMigrations(), getIndexStats(LEGACY_DIMENSIONS)]);
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: {
+        legacyVectors: stats.namespaces[LEGACY_NAMESPACE] ?? 0,
+        namespaces: stats.namespaces,
+        completed: migrations.filter(m => m.status === 'completed').length,
+        running: migrations.filter(m => m.status === 'running').length,
+        failed: migrations.filter(m => m.status === 'failed').length,
+        migrations
+      }
+    });
+  } catch (error) {
+    structuredLogger.error({ error }, 'Failed to load namespace migration status');
+    return c.json<ApiResponse>({ success: false, error: 'Failed to load namespace migration status' }, 500);
+  }
+});
+
+/**
+ * @swagger
+ * /api/rag/consistency:
+ *   post:
+ *     summary: Check vectors against transcript_chunks
+ *     description: Enqueues a background job that compares each creator's active-generation vectors with their transcript_chunks documents and reports orphan vectors, orphan chunks, text mismatches and duplicate chunk documents. With repair, orphan vectors are deleted, missing or mismatched chunks are re-embedded and upserted, and older duplicate chunk documents are removed.
+ *     tags:
+ *       - RAG
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               creatorIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Only check these creators (defaults to all)
+ *               repair:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       202:
+ *         description: Check queued - follow it with /api/rag/consistency/{reportId}
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized request origin
+ *       500:
+ *         description: Internal server error
+ */
+rag.post('/consistency', async (c) => {
+  try {
+    // Validate security header
+    const originHeader = c.req.header('X-ThumbnailTest-Origin');
+    if (originHeader !== 'true') {
+      structuredLogger.warn({ originHeader }, 'Invalid origin header');
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized request origin'
+      }, 401);
+    }
+
+    const body = c.req.header('Content-Type')?.includes('application/json') ? await c.req.json() : {};
+    const { creatorIds, repair } = consistencyCheckSchema.parse(body);
+
+    const { reportId, jobId } = await enqueueConsistencyCheck({ creatorIds, repair });
+
+    structuredLogger.info({ reportId, jobId, repair, creators: creatorIds?.length ?? 'all' }, 'Vector consistency check enqueued');
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: { reportId, jobId, repair, status: 'queued' }
+    }, 202);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json<ApiResponse>({
+        success: false,
+        error: 'Invalid request parameters',
+        message: error.issues.map(issue => issue.message).join(', ')
+      }, 400);
+    }
+
+    structuredLogger.error({ error }, 'Failed to enqueue vector consistency check');
+    return c.json<ApiResponse>({ success: false, error: 'Failed to enqueue vector consistency check' }, 500);
+  }
+});
+
+/**
+ * @swagger
+ * /api/rag/consistency:
+ *   get:
+ *     summary: Recent consistency reports
+ *     description: The latest consistency checks with their status and totals, newest first
+ *     tags:
+ *       - RAG
+ *     responses:
+ *       200:
+ *         description: Reports without per-creator results
+ *       500:
+ *         description: Internal server error
+ */
+rag.get('/consistency', async (c) => {
+  try {
+    const reports = await listConsistencyReports();
+    return c.json<ApiResponse>({ success: true, data: { reports } });
+  } catch (error) {
+    structuredLogger.error({ error }, 'Failed to list consistency reports');
+    return c.json<ApiResponse>({ success: false, error: 'Failed to list consistency reports' }, 500);
+  }
+});
+
+/**
+ * @swagger
+ * /api/rag/consistency/{reportId}:
+ *   get:
+ *     summary: One consistency report
+ *     description: Status, totals and per-creator findings (counts plus sample vector IDs) and repairs
+ *     tags:
+ *       - RAG
+ *     parameters:
+ *       - in: path
+ *         name: reportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The report
+ *       404:
+ *         description: Report not found
+ *       500:
+ *         description: Internal server error
+ */
+rag.get('/consistency/:reportId', async (c) => {
+  try {
+    const report = await getConsistencyReport(c.req.param('reportId'));
+    if (!report) {
+      return c.json<ApiResponse>({ success: false, error: 'Report not found' }, 404);
+    }
+    return c.json<ApiResponse>({ success: true, data: report });
+  } catch (error) {
+    structuredLogger.error({ error }, 'Failed to load consistency report');
+    return c.json<ApiResponse>({ success: false, error: 'Failed to load consistency report' }, 500);
+  }
+});
+
 export default rag;
@@ -0,0 +1,155 @@
+import { Hono } from 'hono';
+import type { ApiResponse, Creator } from '../types';
+import { structuredLogger } from '../middleware/logger';
+import { env } from '../config/env';
+import { connectToDatabase } from '../lib/mongodb';
+import {
+  getChannelIdFromTopic,
+  parseWebSubNotification,
+  verifyWebSubSignature,
+  recordWebSubLease,
+  clearWebSubLease,
+  handleWebSubNotification
+} from '../lib/websub';
+
+const webhooks = new Hono();
+
+/**
+ * @swagger
+ * /api/webhooks/youtube:
+ *   get:
+ *     summary: WebSub verification handshake
+ *     description: Called by the YouTube WebSub hub to confirm a subscribe/unsubscribe request. Echoes hub.challenge for channels we know.
+ *     tags:
+ *       - Webhooks
+ *     parameters:
+ *       - in: query
+ *         name: hub.mode
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [subscribe, unsubscribe]
+ *       - in: query
+ *         name: hub.topic
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: hub.challenge
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: hub.lease_seconds
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: Challenge echoed as plain text
+ *       400:
+ *         description: Missing or invalid hub parameters
+ *       404:
+ *         description: Topic does not belong to a known creator
+ */
+webhooks.get('/youtube', async (c) => {
+  const mode = c.req.query('hub.mode');
+  const topic = c.req.query('hub.topic');
+  const challenge = c.req.query('hub.challenge');
+  const leaseSeconds = parseInt(c.req.query('hub.lease_seconds') || '0');
+
+  const channelId = topic ? getChannelIdFromTopic(topic) : null;
+
+  if ((mode !== 'subscribe' && mode !== 'unsubscribe') || !channelId || !challenge) {
+    structuredLogger.warn({ mode, topic }, 'Invalid WebSub verification request');
+    return c.text('Invalid hub parameters', 400);
+  }
+
+  try {
+    if (mode === 'unsubscribe') {
+      await clearWebSubLease(channelId);
+      structuredLogger.info({ channelId }, 'WebSub unsubscribe verified');
+      return c.text(challenge, 200);
+    }
+
+    // Only confirm subscriptions for channels that belong to a creator
+    const { db } = await connectToDatabase();
+    const creator = await db.collection<Creator>('creators').findOne({ ownedByChannelId: channelId });
+    if (!creator) {
+      structuredLogger.warn({ channelId }, 'WebSub subscribe verification for unknown channel - refusing');
+      return c.text('Unknown topic', 404);
+    }
+
+    if (leaseSeconds > 0) {
+      await recordWebSubLease(channelId, leaseSeconds);
+    }
+
+    structuredLogger.info({ channelId, creatorId: creator._id?.toString(), leaseSeconds }, 'WebSub subscription verified');
+    return c.text(challenge, 200);
+  } catch (error) {
+    structuredLogger.error({ error, channelId }, 'WebSub verification failed');
+    return c.text('Verification failed', 500);
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks/youtube:
+ *   post:
+ *     summary: WebSub push notification
+ *     description: Receives Atom feed notifications for new or updated videos and enqueues ingestion of just those videos for the matching creator. Videos reported as deleted are removed from every creator that indexed them in the background
+ *     tags:
+ *       - Webhooks
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/atom+xml:
+ *           schema:
+ *             type: string
+ *     parameters:
+ *       - in: header
+ *         name: X-Hub-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: HMAC of the raw body with WEBSUB_SECRET, e.g. sha1=<hex>
+ *     responses:
+ *       200:
+ *         description: Notification accepted (also returned for ignored notifications so the hub does not retry)
+ *       403:
+ *         description: Missing or invalid signature, or no WEBSUB_SECRET configured
+ *       500:
+ *         description: Server error
+ */
+webhooks.post('/youtube', async (c) => {
+  try {
+    const body = await c.req.text();
+
+    // Only the hub knows the secret; without one configured there is no way to tell its notifications apart
+    if (!env.WEBSUB_SECRET || !verifyWebSubSignature(body, c.req.header('X-Hub-Signature'), env.WEBSUB_SECRET)) {
+      structuredLogger.warn({ bodyLength: body.length, secretConfigured: !!env.WEBSUB_SECRET }, 'WebSub notification without a valid signature - rejecting');
+      return c.json<ApiResponse>({ success: false, error: 'Invalid signature' }, 403);
+    }
+
+    const notification = parseWebSubNotification(body);
+    const jobIds = await handleWebSubNotification(notification);
+
+    structuredLogger.info({
+      videos: notification.videos.length,
+      deletedVideos: notification.deletedVideoIds.length,
+      jobIds
+    }, 'WebSub notification processed');
+
+    return c.json<ApiResponse>({
+      success: true,
+      data: { jobIds }
+    });
+  } catch (error) {
+    structuredLogger.error({ error }, 'Error handling WebSub notification');
+    return c.json<ApiResponse>({
+      success: false,
+      error: 'Failed to handle notification'
+    }, 500);
+  }
+});
+
+export default webhooks;
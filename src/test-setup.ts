@@ -0,0 +1,11 @@
+// Preloaded by `bun test` (see bunfig.toml). Modules read their configuration at import time, so tests get
+// offline defaults: no database is connected to, embeddings come from the hash provider and vectors stay in memory.
+process.env.NODE_ENV = 'test';
+process.env.DATABASE_URL ??= 'mongodb://127.0.0.1:27017/?serverSelectionTimeoutMS=500';
+process.env.ORGS_DATABASE_URL ??= 'mongodb://127.0.0.1:27017/?serverSelectionTimeoutMS=500';
+process.env.GROQ_API_KEY ??= 'test';
+process.env.VECTOR_STORE = 'memory';
+process.env.EMBEDDING_PROVIDER = 'hash';
+delete process.env.EMBEDDING_MODEL;
+delete process.env.EMBEDDING_DIMENSIONS;
+process.env.EMBEDDING_CACHE_ENABLED = 'false';
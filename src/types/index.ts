@@ -11,10 +11,21 @@ export interface Creator {
   setupComplete: boolean;
   ownedByTeamId?: string;
   ownedByChannelId?: string; // BetterThumbnailTester channel ID
+  captionLanguages?: string[]; // Ordered caption language preference, e.g. ['tr', 'en']
+  videoSource?: VideoSource; // Defaults to the channel's uploads
+  addedVideoIds?: string[]; // Added individually - kept on full runs even when outside the source
+  excludedVideoIds?: string[]; // Removed individually - never ingested again
+  segmentFilter?: Partial<SegmentFilterSettings>; // Overrides of the default sponsor/intro/outro handling
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// Where a creator's videos come from
+export type VideoSource =
+  | { type: 'uploads' }
+  | { type: 'playlist'; playlistId: string }
+  | { type: 'videos'; videoIds: string[] };
+
 export interface ChannelData {
   title: string;
   description?: string;
@@ -51,7 +62,7 @@ export interface Video {
 }
 
 export interface TranscriptChunk {
-  _id?: string;
+  _id?: string; // chunkId(), shared with the chunk's vector; an ObjectId on chunks stored before chunk IDs
   creatorId: string;
   videoId: string;
   chunkIndex: number;
@@ -64,6 +75,16 @@ export interface TranscriptChunk {
     endTime?: number;
     timestamp?: string;
     duration?: number;
+    transcriptHash?: string; // sha256 of the raw transcript the chunk came from
+    chunkerVersion?: number; // CHUNKER_VERSION at indexing time
+    transcriptSource?: string; // e.g. 'youtubei', 'upload:srt'
+    language?: string; // Language code of the caption track the chunk came from
+    captionTrackKind?: 'manual' | 'asr';
+    chapterTitle?: string; // Description chapter the chunk overlaps most
+    chapterStartTime?: number; // Chapter start in seconds
+    segmentCategories?: SegmentCategory[]; // Tagged (not dropped) sponsor/self-promo/intro/outro content
+    embeddingProvider?: string; // EmbeddingProvider name, e.g. 'openai'
+    embeddingModel?: string; // Model that produced the stored vector
   };
 }
 
@@ -98,6 +119,10 @@ export interface VideoReference {
   timestamp?: string;
   videoId?: string;
   chunkIndex?: number;
+  language?: string; // Caption language the excerpt was transcribed in
+  captionTrackKind?: 'manual' | 'asr';
+  chapterTitle?: string;
+  chapterStartTime?: number; // Seconds
   metadata?: Record<string, any>;
 }
 
@@ -122,6 +147,47 @@ export interface HealthCheck {
   }>;
 }
 
+// Transcript spans that are not really the creator's content
+export type SegmentCategory = 'sponsor' | 'self_promo' | 'intro' | 'outro';
+export type SegmentFilterAction = 'drop' | 'tag' | 'keep';
+export type SegmentFilterSettings = Record<SegmentCategory, SegmentFilterAction>;
+
+// How much of a transcript the segment filter took out (character counts of the cleaned transcript)
+export interface ContentFilterReport {
+  removedChars: number;
+  removedPercent: number;
+  taggedChars: number;
+  byCategory: Partial<Record<SegmentCategory, number>>;
+}
+
+// Per-video outcome of a processing run (shown to creators in job status)
+export type VideoSkipReason =
+  | 'duration_out_of_range'
+  | 'short'
+  | 'livestream'
+  | 'outside_date_range'
+  | 'title_filtered'
+  | 'no_transcript'
+  | 'empty_chunks'
+  | 'error';
+
+export interface VideoProcessingReport {
+  videoId: string;
+  title: string;
+  status: 'indexed' | 'unchanged' | 'skipped' | 'failed';
+  skipReason?: VideoSkipReason;
+  message?: string; // Human-readable detail for skipped/failed videos
+  chunkCount: number;
+  transcriptSource?: string;
+  transcriptLanguage?: string; // Caption language the video was indexed from
+  contentFiltered?: ContentFilterReport; // Sponsor/self-promo/intro/outro spans dropped or tagged
+  durationMinutes?: number;
+  // ISO strings - reports round-trip through Redis JSON
+  startedAt: string;
+  completedAt: string;
+  processingMs: number;
+}
+
 // ChannelAIProcessing - Matches Prisma schema in BetterThumbnailTester
 export interface ChannelAIProcessing {
   _id?: string; // MongoDB _id (Prisma uses @map("_id"))
@@ -132,7 +198,7 @@ export interface ChannelAIProcessing {
   creatorId: string;
   
   // Processing info
-  status: 'processing' | 'completed' | 'failed';
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
   jobId: string;
   chatUrl: string;
   channelUrl: string;
@@ -148,6 +214,7 @@ export interface ChannelAIProcessing {
   failedVideos: number;
   hasChannelContext: boolean;
   customDescriptionUsed?: boolean;
+  videoReports?: VideoProcessingReport[];
   
   // Error tracking
   lastError?: string;
@@ -0,0 +1,44 @@
+#!/usr/bin/env bun
+/**
+ * Standalone processing worker
+ *
+ * Consumes channel ingestion jobs from the BullMQ queue so processing can scale
+ * independently of the API. Deploy alongside the API with PROCESSING_WORKER_ENABLED=false.
+ */
+
+import { env } from './src/config/env';
+import { structuredLogger } from './src/middleware/logger';
+import { startProcessingWorker } from './src/lib/processing-worker';
+import { scheduleChannelSync, startChannelSyncWorker } from './src/lib/channel-sync';
+import { scheduleWebSubRenewal, startWebSubRenewalWorker } from './src/lib/websub';
+import { startNamespaceMigrationWorker } from './src/lib/namespace-migration';
+import { startReembedWorker } from './src/lib/reembed';
+import { startVectorConsistencyWorker } from './src/lib/vector-consistency';
+
+const concurrency = parseInt(env.PROCESSING_WORKER_CONCURRENCY);
+const worker = startProcessingWorker(concurrency);
+const syncWorker = startChannelSyncWorker();
+const renewalWorker = startWebSubRenewalWorker();
+const migrationWorker = startNamespaceMigrationWorker();
+const reembedWorker = startReembedWorker();
+const consistencyWorker = startVectorConsistencyWorker();
+
+scheduleChannelSync().catch((error) => {
+  structuredLogger.error({ error }, 'Failed to schedule channel sync');
+});
+
+scheduleWebSubRenewal().catch((error) => {
+  structuredLogger.error({ error }, 'Failed to schedule WebSub renewal');
+});
+
+console.log(`🛠️  Processing worker started (concurrency: ${concurrency})`);
+
+// Graceful shutdown: let the active job finish, unfinished jobs are picked up again after restart
+const shutdown = async (signal: string) => {
+  structuredLogger.info({ signal }, 'Shutting down processing worker');
+  await Promise.all([worker.close(), syncWorker.close(), renewalWorker.close(), migrationWorker.close(), reembedWorker.close(), consistencyWorker.close()]);
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));